@@ -0,0 +1,227 @@
+const expect = require("chai").expect;
+const {openVirtualInput} = require("./support/virtual.js");
+const {ClockFollower} = require("../typescript/dist/ClockFollower.js");
+
+describe("ClockFollower Object", function() {
+
+  let input, port;
+
+  beforeEach("Open a virtual input", async function () {
+    ({input, port} = await openVirtualInput());
+  });
+
+  // Injects the specified number of clock messages, spaced by the interval, and returns the
+  // timestamp of the next one
+  function clocks(count, interval, start = 0) {
+    for (let i = 0; i < count; i++) port.receive([0xF8], start + i * interval);
+    return start + count * interval;
+  }
+
+  describe("constructor()", function () {
+
+    it("should throw when the input is not an 'Input'", function () {
+
+      // Act
+      const fn = () => new ClockFollower({});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The input must be of type 'Input'.");
+
+    });
+
+  });
+
+  describe("bpm", function () {
+
+    it("should be 'null' until the window is full", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input);
+
+      // Act
+      clocks(24, 500 / 24);
+
+      // Assert
+      expect(follower.bpm).to.be.null;
+
+    });
+
+    it("should be estimated from the average clock interval", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input);
+      const events = [];
+      follower.addListener("tempochange", e => events.push(e), {});
+
+      // Act
+      clocks(25, 500 / 24);
+
+      // Assert
+      expect(follower.bpm).to.be.closeTo(120, 0.001);
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].bpm).to.equal(follower.bpm);
+
+    });
+
+    it("should ignore a single interval deviating from the estimate", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input);
+      const events = [];
+      follower.addListener("tempochange", e => events.push(e), {});
+      const next = clocks(25, 500 / 24);
+
+      // Act
+      port.receive([0xF8], next + 10);
+      clocks(24, 500 / 24, next + 500 / 24);
+
+      // Assert
+      expect(follower.bpm).to.be.closeTo(120, 0.001);
+      expect(events).to.have.lengthOf(1);
+
+    });
+
+    it("should follow an abrupt tempo change", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input);
+      const next = clocks(25, 500 / 24);
+
+      // Act
+      clocks(30, 1000 / 24, next);
+
+      // Assert
+      expect(follower.bpm).to.be.closeTo(60, 0.001);
+
+    });
+
+    it("should only emit 'tempochange' when the variation reaches the threshold", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input, {threshold: 2});
+      const events = [];
+      follower.addListener("tempochange", e => events.push(e.bpm), {});
+      const next = clocks(25, 60000 / (120 * 24));
+
+      // Act
+      clocks(48, 60000 / (121 * 24), next);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+      expect(follower.bpm).to.be.closeTo(120, 0.001);
+
+    });
+
+  });
+
+  describe("beat and bar events", function () {
+
+    it("should be emitted on each beat and bar after a start message", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input, {beatsPerBar: 3});
+      const beats = [];
+      const bars = [];
+      follower.addListener("beat", e => beats.push([e.bar, e.beat, e.timestamp]), {});
+      follower.addListener("bar", e => bars.push(e.bar), {});
+
+      // Act
+      port.receive([0xFA], 0);
+      clocks(24 * 3 + 1, 10);
+
+      // Assert
+      expect(beats).to.deep.equal([[0, 0, 0], [0, 1, 240], [0, 2, 480], [1, 0, 720]]);
+      expect(bars).to.deep.equal([0, 1]);
+      expect(follower.position).to.equal(12);
+
+    });
+
+    it("should not be emitted while the transport is stopped", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input);
+      const beats = [];
+      follower.addListener("beat", e => beats.push(e), {});
+
+      // Act
+      clocks(48, 10);
+
+      // Assert
+      expect(beats).to.deep.equal([]);
+      expect(follower.position).to.equal(0);
+
+    });
+
+  });
+
+  describe("transport event", function () {
+
+    it("should be emitted for start, stop, continue and song position messages", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input);
+      const events = [];
+      follower.addListener("transport", e => events.push([e.action, e.state]), {});
+
+      // Act
+      port.receive([0xFA]);
+      port.receive([0xFC]);
+      port.receive([0xF2, 8, 0]);
+      port.receive([0xFB]);
+
+      // Assert
+      expect(events).to.deep.equal([
+        ["start", "playing"],
+        ["stop", "stopped"],
+        ["songposition", "stopped"],
+        ["continue", "playing"]
+      ]);
+
+    });
+
+  });
+
+  describe("position", function () {
+
+    it("should be moved by a song position message and resume from there", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input);
+      const beats = [];
+      follower.addListener("beat", e => beats.push([e.bar, e.beat]), {});
+
+      // Act
+      port.receive([0xF2, 72, 1], 0);
+      const position = follower.position;
+      port.receive([0xFB], 0);
+      clocks(25, 10);
+
+      // Assert
+      expect(position).to.equal(200);
+      expect(beats).to.deep.equal([[12, 2], [12, 3]]);
+      expect(follower.position).to.equal(204);
+
+    });
+
+  });
+
+  describe("destroy()", function () {
+
+    it("should stop following the clock of the input", function () {
+
+      // Arrange
+      const follower = new ClockFollower(input);
+
+      // Act
+      follower.destroy();
+      port.receive([0xFA]);
+
+      // Assert
+      expect(follower.state).to.equal("stopped");
+      expect(input.hasListener("midimessage")).to.be.false;
+
+    });
+
+  });
+
+});
@@ -0,0 +1,258 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {openVirtualOutput, sentWithTimestamps} = require("./support/virtual.js");
+const {ClockGenerator} = require("../typescript/dist/ClockGenerator.js");
+
+describe("ClockGenerator Object", function() {
+
+  let access, clock, output, port, wm;
+
+  beforeEach("Open a virtual output", async function () {
+    ({access, output, port, wm} = await openVirtualOutput());
+    access.createOutput({id: "other", name: "Other"});
+    clock = sinon.useFakeTimers();
+    clock.tick(1000);
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  // Returns the status byte and (rounded) timestamp of each message sent to the virtual port
+  function sent(target = port) {
+    return sentWithTimestamps(target)
+      .map(([data, timestamp]) => [data[0], Math.round(timestamp * 100) / 100]);
+  }
+
+  describe("constructor()", function () {
+
+    it("should throw when an output is not an 'Output'", function () {
+
+      // Act
+      const fn = () => new ClockGenerator([{}]);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "Outputs must be of type 'Output'.");
+
+    });
+
+    it("should throw when the tempo is invalid", function () {
+
+      // Act
+      const fn = () => new ClockGenerator(output, {bpm: 0});
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The tempo must be a number greater than 0.");
+
+    });
+
+    it("should throw when the swing is invalid", function () {
+
+      // Act
+      const fn = () => new ClockGenerator(output, {swing: 0.8});
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The swing must be a number between 0.5 and 0.75.");
+
+    });
+
+  });
+
+  describe("start()", function () {
+
+    it("should send a start message and the clocks within the lookahead window", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output, {bpm: 120});
+
+      // Act
+      generator.start();
+      generator.stop();
+
+      // Assert
+      expect(sent().slice(0, 6)).to.deep.equal([
+        [0xFA, 1000],
+        [0xF8, 1000],
+        [0xF8, 1020.83],
+        [0xF8, 1041.67],
+        [0xF8, 1062.5],
+        [0xF8, 1083.33]
+      ]);
+
+    });
+
+    it("should keep sending clocks at a steady rate", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output, {bpm: 60});
+
+      // Act
+      generator.start();
+      clock.tick(1000);
+      generator.stop();
+
+      // Assert
+      const times = sent().filter(s => s[0] === 0xF8).map(s => s[1]);
+      expect(times[24]).to.equal(2000);
+      expect(generator.position).to.equal(4);
+
+    });
+
+    it("should delay the second 16th note of each 8th note according to the swing", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output, {bpm: 120, swing: 0.75});
+
+      // Act
+      generator.start();
+      clock.tick(400);
+      generator.stop();
+
+      // Assert
+      const times = sent().filter(s => s[0] === 0xF8).map(s => s[1]);
+      expect(times[6]).to.equal(1187.5);
+      expect(times[12]).to.equal(1250);
+
+    });
+
+    it("should apply the offset of each output", async function () {
+
+      // Arrange
+      const other = await wm.getOutputById("other").open();
+      const generator = new ClockGenerator(output).addOutput(other, {offset: 20});
+
+      // Act
+      generator.start();
+      generator.stop();
+      clock.tick(100);
+
+      // Assert
+      expect(sent(access.outputs.get("other")).slice(0, 3)).to.deep.equal([
+        [0xFA, 1020],
+        [0xF8, 1020],
+        [0xF8, 1040.83]
+      ]);
+
+    });
+
+  });
+
+  describe("stop()", function () {
+
+    it("should send the stop message after the clocks already sent", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output, {bpm: 120}).start();
+      clock.tick(10);
+
+      // Act
+      generator.stop();
+
+      // Assert
+      const messages = sent();
+      expect(messages[messages.length - 1]).to.deep.equal([0xFC, 1083.33]);
+      expect(generator.running).to.be.false;
+
+    });
+
+  });
+
+  describe("continue()", function () {
+
+    it("should resume from the current position", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output, {bpm: 120}).start();
+      clock.tick(500);
+      generator.stop();
+      const position = generator.position;
+      port.clearSent();
+
+      // Act
+      generator.continue();
+      generator.stop();
+
+      // Assert
+      expect(sent().slice(0, 2)).to.deep.equal([[0xFB, 1500], [0xF8, 1500]]);
+      expect(generator.position).to.be.at.least(position);
+
+    });
+
+  });
+
+  describe("locate()", function () {
+
+    it("should throw when the position is invalid", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output);
+
+      // Act
+      const fn = () => generator.locate(16384);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The position must be an integer between 0 and 16383.");
+
+    });
+
+    it("should send a song position message right away when stopped", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output);
+
+      // Act
+      generator.locate(200);
+
+      // Assert
+      expect(port.sent.map(s => Array.from(s.data))).to.deep.equal([[0xF2, 72, 1]]);
+      expect(generator.position).to.equal(200);
+
+    });
+
+    it("should send stop, song position and continue after the clocks already sent", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output, {bpm: 120}).start();
+      clock.tick(30);
+      const last = sent().pop();
+      port.clearSent();
+
+      // Act
+      generator.locate(16);
+      generator.stop();
+
+      // Assert
+      expect(last).to.deep.equal([0xF8, 1125]);
+      expect(sent().slice(0, 4)).to.deep.equal([
+        [0xFC, 1125],
+        [0xF2, 1125],
+        [0xFB, 1125],
+        [0xF8, 1125]
+      ]);
+      expect(Array.from(port.sent[1].data)).to.deep.equal([0xF2, 16, 0]);
+
+    });
+
+  });
+
+  describe("bpm", function () {
+
+    it("should change the rate of the following clocks", function () {
+
+      // Arrange
+      const generator = new ClockGenerator(output, {bpm: 120}).start();
+
+      // Act
+      generator.bpm = 60;
+      clock.tick(200);
+      generator.stop();
+
+      // Assert
+      const times = sent().filter(s => s[0] === 0xF8).map(s => s[1]);
+      expect(times.slice(4, 7)).to.deep.equal([1083.33, 1104.17, 1145.83]);
+
+    });
+
+  });
+
+});
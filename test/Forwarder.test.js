@@ -0,0 +1,327 @@
+const expect = require("chai").expect;
+const {openVirtualOutput, sent} = require("./support/virtual.js");
+const {Forwarder} = require("../typescript/dist/Forwarder.js");
+const {Message} = require("../typescript/dist/Message.js");
+
+describe("Forwarder Object", function() {
+
+  let access, output, port, wm;
+
+  beforeEach("Open a virtual output", async function () {
+    ({access, output, port, wm} = await openVirtualOutput());
+  });
+
+  // Forwards a message made of the specified bytes
+  function forward(forwarder, data) {
+    forwarder.forward(new Message(Uint8Array.from(data)));
+  }
+
+  describe("constructor()", function () {
+
+    it("should add the specified transforms", function () {
+
+      // Arrange
+      const transform = message => message;
+
+      // Act
+      const forwarder = new Forwarder(output, {transforms: [transform]});
+
+      // Assert
+      expect(forwarder.transforms).to.deep.equal([transform]);
+
+    });
+
+  });
+
+  describe("addTransform()", function () {
+
+    it("should apply the transforms one after the other", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {});
+      forwarder.addTransform(message => [message, message]);
+      forwarder.addTransform(message => Forwarder._modify(message, {2: 1}));
+
+      // Act
+      forward(forwarder, [0x90, 60, 100]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x90, 60, 1], [0x90, 60, 1]]);
+
+    });
+
+    it("should drop the messages for which nothing is returned", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).addTransform(() => null);
+
+      // Act
+      forward(forwarder, [0x90, 60, 100]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([]);
+
+    });
+
+    it("should throw when the transform is not a function", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {});
+
+      // Act
+      const fn = () => forwarder.addTransform({});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The transform must be a function.");
+
+    });
+
+  });
+
+  describe("mapChannels()", function () {
+
+    it("should move the mapped channels and leave the other ones unchanged", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).mapChannels({1: 10});
+
+      // Act
+      forward(forwarder, [0x90, 60, 100]);
+      forward(forwarder, [0xB1, 7, 100]);
+      forward(forwarder, [0xF8]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x99, 60, 100], [0xB1, 7, 100], [0xF8]]);
+
+    });
+
+    it("should move all channels to a single channel", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).mapChannels(16);
+
+      // Act
+      forward(forwarder, [0xC3, 5]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xCF, 5]]);
+
+    });
+
+    it("should throw when a channel is invalid", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {});
+
+      // Act
+      const fn = () => forwarder.mapChannels({1: 17});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "MIDI channel must be between 1 and 16.");
+
+    });
+
+  });
+
+  describe("transpose()", function () {
+
+    it("should shift the notes of note and key aftertouch messages", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).transpose(-12);
+
+      // Act
+      forward(forwarder, [0x90, 60, 100]);
+      forward(forwarder, [0xA0, 60, 50]);
+      forward(forwarder, [0x80, 60, 0]);
+      forward(forwarder, [0xB0, 60, 10]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([
+        [0x90, 48, 100], [0xA0, 48, 50], [0x80, 48, 0], [0xB0, 60, 10]
+      ]);
+
+    });
+
+    it("should bring the notes outside of the range back to its edge", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).transpose(12, {min: 36, max: 70});
+
+      // Act
+      forward(forwarder, [0x90, 60, 100]);
+      forward(forwarder, [0x90, 20, 100]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x90, 70, 100], [0x90, 36, 100]]);
+
+    });
+
+    it("should drop the notes outside of the range if asked to", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).transpose(12, {max: 70, outOfRange: "drop"});
+
+      // Act
+      forward(forwarder, [0x90, 60, 100]);
+      forward(forwarder, [0x90, 50, 100]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x90, 62, 100]]);
+
+    });
+
+    it("should throw when the number of semitones is not an integer", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {});
+
+      // Act
+      const fn = () => forwarder.transpose(0.5);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The number of semitones must be an integer.");
+
+    });
+
+    it("should throw when the range is invalid", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {});
+
+      // Act
+      const fn = () => forwarder.transpose(12, {max: 128});
+
+      // Assert
+      expect(fn).to.throw(RangeError, "between 0 and 127");
+
+    });
+
+  });
+
+  describe("scaleVelocity()", function () {
+
+    it("should apply the curve to the attack velocity", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).scaleVelocity(2);
+
+      // Act
+      forward(forwarder, [0x90, 60, 127]);
+      forward(forwarder, [0x90, 60, 64]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x90, 60, 127], [0x90, 60, 32]]);
+
+    });
+
+    it("should scale and clamp the velocity", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).scaleVelocity(v => v, {scale: 2, max: 100});
+
+      // Act
+      forward(forwarder, [0x90, 60, 30]);
+      forward(forwarder, [0x90, 60, 80]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x90, 60, 60], [0x90, 60, 100]]);
+
+    });
+
+    it("should not turn a note on into a note off", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {}).scaleVelocity(() => 0);
+
+      // Act
+      forward(forwarder, [0x90, 60, 100]);
+      forward(forwarder, [0x90, 62, 0]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x90, 60, 1], [0x90, 62, 0]]);
+
+    });
+
+    it("should throw when the curve is invalid", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {});
+
+      // Act
+      const fn = () => forwarder.scaleVelocity(0);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The curve must be a positive number or a function.");
+
+    });
+
+  });
+
+  describe("mapControlChange()", function () {
+
+    it("should change the controller and scale its value", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {})
+        .mapControlChange("modulationwheelcoarse", "brightness", {min: 32, max: 96});
+
+      // Act
+      forward(forwarder, [0xB0, 1, 0]);
+      forward(forwarder, [0xB0, 1, 127]);
+      forward(forwarder, [0xB0, 7, 127]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xB0, 74, 32], [0xB0, 74, 96], [0xB0, 7, 127]]);
+
+    });
+
+    it("should invert the controller when the minimum is greater than the maximum", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {})
+        .mapControlChange(64, undefined, {min: 127, max: 0});
+
+      // Act
+      forward(forwarder, [0xB0, 64, 127]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xB0, 64, 0]]);
+
+    });
+
+    it("should throw when the controller is invalid", function () {
+
+      // Arrange
+      const forwarder = new Forwarder(output, {});
+
+      // Act
+      const fn = () => forwarder.mapControlChange(128);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "an integer between 0 and 127");
+
+    });
+
+  });
+
+  describe("forward()", function () {
+
+    it("should apply the transforms of a forwarder added to an input", async function () {
+
+      // Arrange
+      const input = await wm.getInputById("in").open();
+      input.addForwarder(output, {types: "noteon"}).mapChannels(2).transpose(12);
+
+      // Act
+      access.inputs.get("in").receive([0x90, 60, 100]);
+      access.inputs.get("in").receive([0x80, 60, 0]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x91, 72, 100]]);
+
+    });
+
+  });
+
+});
@@ -0,0 +1,532 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {openVirtualInput} = require("./support/virtual.js");
+
+describe("Input Object", function() {
+
+  let input, port;
+
+  beforeEach("Open a virtual input", async function () {
+    ({input, port} = await openVirtualInput({sysex: true}));
+  });
+
+  describe("sysex reassembly", function () {
+
+    let clock;
+
+    beforeEach(function () {
+      clock = sinon.useFakeTimers();
+      clock.tick(1000);
+    });
+
+    afterEach(function () {
+      clock.restore();
+    });
+
+    it("should emit a single 'sysex' event for a fragmented message", function () {
+
+      // Arrange
+      const messages = [];
+      input.addListener("sysex", e => messages.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7D, 0x01], 10);
+      port.receive([0x02, 0x03], 20);
+      port.receive([0x04, 0xF7], 30);
+
+      // Assert
+      expect(messages).to.have.lengthOf(1);
+      expect(Array.from(messages[0].message.data)).to.deep.equal(
+        [0xF0, 0x7D, 0x01, 0x02, 0x03, 0x04, 0xF7]
+      );
+      expect(messages[0].timestamp).to.equal(30);
+
+    });
+
+    it("should reassemble large fragments", function () {
+
+      // Arrange
+      const messages = [];
+      input.addListener("sysex", e => messages.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7D], 10);
+      port.receive(new Uint8Array(500000).fill(0x01), 20);
+      port.receive([0x02, 0xF7], 30);
+
+      // Assert
+      expect(messages).to.have.lengthOf(1);
+      expect(messages[0].message.data).to.have.lengthOf(500004);
+
+    });
+
+    it("should accept the terminating byte in a fragment of its own", function () {
+
+      // Arrange
+      const messages = [];
+      input.addListener("sysex", e => messages.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7D, 0x01], 10);
+      port.receive([0xF7], 20);
+
+      // Assert
+      expect(messages).to.have.lengthOf(1);
+      expect(Array.from(messages[0].message.data)).to.deep.equal([0xF0, 0x7D, 0x01, 0xF7]);
+
+    });
+
+    it("should emit 'sysexprogress' events for each fragment", function () {
+
+      // Arrange
+      const received = [];
+      input.addListener("sysexprogress", e => received.push([e.received, e.timestamp]), {});
+
+      // Act
+      port.receive([0xF0, 0x7D, 0x01], 10);
+      port.receive([0x02, 0x03], 20);
+      port.receive([0x04, 0xF7], 30);
+
+      // Assert
+      expect(received).to.deep.equal([[3, 10], [5, 20]]);
+
+    });
+
+    it("should deliver real-time messages received between fragments", function () {
+
+      // Arrange
+      const types = [];
+      input.addListener("midimessage", e => types.push(e.message.type), {});
+
+      // Act
+      port.receive([0xF0, 0x7D, 0x01], 10);
+      port.receive([0xF8], 15);
+      port.receive([0x02, 0xF7], 20);
+
+      // Assert
+      expect(types).to.deep.equal(["clock", "sysex"]);
+
+    });
+
+    it("should emit 'error' when the message is interrupted by another message", function () {
+
+      // Arrange
+      const errors = [];
+      const types = [];
+      input.addListener("error", e => errors.push(e), {});
+      input.addListener("midimessage", e => types.push(e.message.type), {});
+
+      // Act
+      port.receive([0xF0, 0x7D, 0x01], 10);
+      port.receive([0x90, 60, 100], 20);
+
+      // Assert
+      expect(errors).to.have.lengthOf(1);
+      expect(Array.from(errors[0].data)).to.deep.equal([0xF0, 0x7D, 0x01]);
+      expect(errors[0].error.message).to.include("interrupted");
+      expect(errors[0].timestamp).to.equal(20);
+      expect(types).to.deep.equal(["noteon"]);
+
+    });
+
+    it("should emit 'error' when the next fragment does not arrive in time", function () {
+
+      // Arrange
+      const errors = [];
+      input.sysexTimeout = 500;
+      input.addListener("error", e => errors.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7D, 0x01], 1000);
+      clock.tick(499);
+      const before = errors.length;
+      clock.tick(1);
+
+      // Assert
+      expect(before).to.equal(0);
+      expect(errors).to.have.lengthOf(1);
+      expect(errors[0].error.message).to.include("timeout");
+
+    });
+
+    it("should restart the timeout when a fragment is received", function () {
+
+      // Arrange
+      const errors = [];
+      const messages = [];
+      input.sysexTimeout = 500;
+      input.addListener("error", e => errors.push(e), {});
+      input.addListener("sysex", e => messages.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7D, 0x01], 1000);
+      clock.tick(400);
+      port.receive([0x02], 1400);
+      clock.tick(400);
+      port.receive([0x03, 0xF7], 1800);
+      clock.tick(1000);
+
+      // Assert
+      expect(errors).to.deep.equal([]);
+      expect(messages).to.have.lengthOf(1);
+
+    });
+
+  });
+
+  describe("identityreply event", function () {
+
+    it("should be emitted for an identity reply with a 1-byte manufacturer ID", function () {
+
+      // Arrange
+      const events = [];
+      input.addListener("identityreply", e => events.push(e), {});
+
+      // Act
+      port.receive([
+        0xF0, 0x7E, 0x10, 0x06, 0x02, 0x41, 0x1A, 0x02, 0x03, 0x00, 0x01, 0x02, 0x03, 0x04, 0xF7
+      ]);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].target).to.equal(input);
+      expect(events[0].identity).to.deep.equal({
+        deviceId: 0x10,
+        family: 0x11A,
+        manufacturerId: [0x41],
+        model: 3,
+        version: [1, 2, 3, 4]
+      });
+
+    });
+
+    it("should be emitted for an identity reply with a 3-byte manufacturer ID", function () {
+
+      // Arrange
+      const events = [];
+      input.addListener("identityreply", e => events.push(e), {});
+
+      // Act
+      port.receive([
+        0xF0, 0x7E, 0x7F, 0x06, 0x02, 0x00, 0x20, 0x6B, 0x02, 0x00, 0x04, 0x00,
+        0x01, 0x02, 0x03, 0x04, 0xF7
+      ]);
+
+      // Assert
+      expect(events[0].identity.manufacturerId).to.deep.equal([0x00, 0x20, 0x6B]);
+      expect(events[0].identity.family).to.equal(2);
+      expect(events[0].identity.model).to.equal(4);
+
+    });
+
+    it("should not be emitted for other universal messages", function () {
+
+      // Arrange
+      const events = [];
+      input.addListener("identityreply", e => events.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7E, 0x7F, 0x06, 0x01, 0xF7]);
+      port.receive([0xF0, 0x7E, 0x10, 0x06, 0x02, 0x41, 0x1A, 0xF7]);
+
+      // Assert
+      expect(events).to.deep.equal([]);
+
+    });
+
+  });
+
+  describe("MIDI Time Code", function () {
+
+    let clock;
+
+    beforeEach(function () {
+      clock = sinon.useFakeTimers();
+      clock.tick(1000);
+    });
+
+    afterEach(function () {
+      clock.restore();
+    });
+
+    // Returns the eight quarter frame messages describing the specified position
+    function quarterFrames(hours, minutes, seconds, frames, rate) {
+      const nibbles = [
+        frames & 0x0F, frames >> 4,
+        seconds & 0x0F, seconds >> 4,
+        minutes & 0x0F, minutes >> 4,
+        hours & 0x0F, (hours >> 4) + (rate << 1)
+      ];
+      return nibbles.map((nibble, piece) => [0xF1, (piece << 4) + nibble]);
+    }
+
+    it("should assemble a position from eight quarter frames played forward", function () {
+
+      // Arrange
+      const positions = [];
+      input.addListener("timecodeposition", e => positions.push(e), {});
+
+      // Act
+      quarterFrames(1, 2, 3, 4, 1).forEach(data => port.receive(data));
+
+      // Assert
+      expect(positions).to.have.lengthOf(1);
+      expect(positions[0].direction).to.equal("forward");
+      expect(positions[0].locked).to.be.true;
+      expect(positions[0].timecode).to.deep.equal({
+        hours: 1, minutes: 2, seconds: 3, frames: 6, frameRate: 25, dropFrame: false
+      });
+      expect(input.timecode).to.deep.equal(positions[0].timecode);
+      expect(input.timecodeDirection).to.equal("forward");
+
+    });
+
+    it("should assemble a position from eight quarter frames played in reverse", function () {
+
+      // Arrange
+      const positions = [];
+      input.addListener("timecodeposition", e => positions.push(e), {});
+
+      // Act
+      quarterFrames(0, 0, 10, 0, 3).reverse().forEach(data => port.receive(data));
+
+      // Assert
+      expect(positions).to.have.lengthOf(1);
+      expect(positions[0].direction).to.equal("reverse");
+      expect(positions[0].timecode).to.deep.equal({
+        hours: 0, minutes: 0, seconds: 9, frames: 28, frameRate: 30, dropFrame: false
+      });
+
+    });
+
+    it("should lock to the stream and emit 'timecodelock' events", function () {
+
+      // Arrange
+      const locks = [];
+      input.addListener("timecodelock", e => locks.push(e.locked), {});
+
+      // Act
+      quarterFrames(0, 0, 0, 0, 3).forEach(data => port.receive(data));
+      const locked = input.timecodeLocked;
+      clock.tick(input.timecodeTimeout);
+
+      // Assert
+      expect(locked).to.be.true;
+      expect(locks).to.deep.equal([true, false]);
+      expect(input.timecodeLocked).to.be.false;
+
+    });
+
+    it("should restart the sequence when a piece is missing", function () {
+
+      // Arrange
+      const positions = [];
+      input.addListener("timecodeposition", e => positions.push(e), {});
+      const frames = quarterFrames(0, 0, 0, 0, 3);
+
+      // Act
+      frames.filter((data, piece) => piece !== 3).forEach(data => port.receive(data));
+      frames.forEach(data => port.receive(data));
+
+      // Assert
+      expect(positions).to.have.lengthOf(1);
+
+    });
+
+    it("should read the position of full frame messages", function () {
+
+      // Arrange
+      const positions = [];
+      input.addListener("timecodeposition", e => positions.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7F, 0x7F, 0x01, 0x01, (2 << 5) + 10, 20, 30, 15, 0xF7]);
+
+      // Assert
+      expect(positions).to.have.lengthOf(1);
+      expect(positions[0].locked).to.be.false;
+      expect(positions[0].timecode).to.deep.equal({
+        hours: 10, minutes: 20, seconds: 30, frames: 15, frameRate: 29.97, dropFrame: true
+      });
+
+    });
+
+  });
+
+  describe("MIDI Machine Control", function () {
+
+    it("should emit an event for each command of the message", function () {
+
+      // Arrange
+      const events = [];
+      input.addListener("mmcstop", e => events.push(e), {});
+      input.addListener("mmcplay", e => events.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7F, 0x10, 0x06, 0x01, 0x02, 0xF7]);
+
+      // Assert
+      expect(events.map(e => [e.type, e.command, e.deviceId])).to.deep.equal([
+        ["mmcstop", "stop", 0x10],
+        ["mmcplay", "play", 0x10]
+      ]);
+      expect(events[0].target).to.equal(input);
+
+    });
+
+    it("should read the position of a locate command", function () {
+
+      // Arrange
+      const events = [];
+      input.addListener("mmclocate", e => events.push(e), {});
+
+      // Act
+      port.receive([
+        0xF0, 0x7F, 0x7F, 0x06, 0x44, 0x06, 0x01, (1 << 5) + 1, 2, 3, 4, 0x00, 0xF7
+      ]);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].timecode).to.deep.equal({
+        hours: 1, minutes: 2, seconds: 3, frames: 4, frameRate: 25, dropFrame: false
+      });
+
+    });
+
+    it("should read the armed tracks of a record ready write command", function () {
+
+      // Arrange
+      const events = [];
+      input.addListener("mmctrackarm", e => events.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7F, 0x7F, 0x06, 0x40, 0x04, 0x4F, 0x02, 0x20, 0x01, 0xF7]);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].tracks).to.deep.equal([1, 3]);
+
+    });
+
+    it("should skip commands it does not know", function () {
+
+      // Arrange
+      const events = [];
+      input.addListener("mmcpause", e => events.push(e), {});
+
+      // Act
+      port.receive([0xF0, 0x7F, 0x7F, 0x06, 0x0C, 0x09, 0xF7]);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+
+    });
+
+  });
+
+  describe("MPE mode", function () {
+
+    let events;
+
+    beforeEach(function () {
+      events = [];
+      input.mpe = true;
+      ["notebend", "notepressure", "notetimbre"].forEach(type => {
+        input.addListener(type, e => events.push(e), {});
+      });
+    });
+
+    it("should emit per-note expression events for the note of a member channel", function () {
+
+      // Act
+      port.receive([0x91, 60, 100]);
+      port.receive([0xE1, 0x00, 0x60]);
+      port.receive([0xD1, 127]);
+
+      // Assert
+      expect(events.map(e => [e.type, e.note.number, e.channel, e.zone])).to.deep.equal([
+        ["notebend", 60, 2, "lower"],
+        ["notepressure", 60, 2, "lower"]
+      ]);
+      expect(events[0].value).to.equal(0.5);
+      expect(events[0].rawValue).to.equal(0x3000);
+      expect(events[1].value).to.equal(1);
+
+    });
+
+    it("should not emit per-note expression events when MPE mode is disabled", function () {
+
+      // Arrange
+      input.mpe = false;
+
+      // Act
+      port.receive([0x91, 60, 100]);
+      port.receive([0xE1, 0x00, 0x60]);
+
+      // Assert
+      expect(events).to.deep.equal([]);
+
+    });
+
+    it("should apply the expression received before the note on to the new note", function () {
+
+      // Act
+      port.receive([0xE1, 0x00, 0x60]);
+      port.receive([0xB1, 74, 127]);
+      const before = events.length;
+      port.receive([0x91, 62, 100], 20);
+
+      // Assert
+      expect(before).to.equal(0);
+      expect(events.map(e => [e.type, e.note.number, e.timestamp])).to.deep.equal([
+        ["notebend", 62, 20],
+        ["notetimbre", 62, 20]
+      ]);
+
+    });
+
+    it("should stop emitting events for a note once it is released", function () {
+
+      // Act
+      port.receive([0x91, 60, 100]);
+      port.receive([0x81, 60, 0]);
+      port.receive([0xE1, 0x00, 0x60]);
+
+      // Assert
+      expect(events).to.deep.equal([]);
+
+    });
+
+    it("should treat channel 16 as a member channel of a 15-channel lower zone", function () {
+
+      // Act
+      port.receive([0x9F, 60, 100]);
+      port.receive([0xBF, 74, 0]);
+
+      // Assert
+      expect(events.map(e => [e.type, e.channel, e.zone])).to.deep.equal([
+        ["notetimbre", 16, "lower"]
+      ]);
+
+    });
+
+    it("should configure the zones from MPE configuration messages", function () {
+
+      // Act
+      port.receive([0xBF, 101, 0]);
+      port.receive([0xBF, 100, 6]);
+      port.receive([0xBF, 6, 3]);
+      port.receive([0x9E, 60, 100]);
+      port.receive([0xDE, 64]);
+
+      // Assert
+      expect(input.mpeZones).to.deep.equal({lower: 11, upper: 3});
+      expect(events.map(e => [e.type, e.channel, e.zone])).to.deep.equal([
+        ["notepressure", 15, "upper"]
+      ]);
+
+    });
+
+  });
+
+});
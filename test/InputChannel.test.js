@@ -0,0 +1,435 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {openVirtualInput} = require("./support/virtual.js");
+
+describe("InputChannel Object", function() {
+
+  let channel, clock, port;
+
+  beforeEach("Open a virtual input", async function () {
+    let input;
+    ({input, port} = await openVirtualInput());
+    channel = input.channels[1];
+    clock = sinon.useFakeTimers();
+    clock.tick(1000);
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  describe("controlchange14 event", function () {
+
+    let events;
+
+    beforeEach(function () {
+      events = [];
+      channel.controlChange14EventsEnabled = true;
+      channel.addListener("controlchange14", e => events.push(e), {});
+    });
+
+    it("should not be emitted unless enabled", function () {
+
+      // Arrange
+      channel.controlChange14EventsEnabled = false;
+
+      // Act
+      port.receive([0xB0, 1, 64]);
+      port.receive([0xB0, 33, 10]);
+      clock.tick(100);
+
+      // Assert
+      expect(events).to.deep.equal([]);
+
+    });
+
+    it("should combine an MSB and the following LSB", function () {
+
+      // Act
+      port.receive([0xB0, 1, 64], 10);
+      port.receive([0xB0, 33, 10], 11);
+      clock.tick(100);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].controller.number).to.equal(1);
+      expect(events[0].controller.name).to.equal("modulationwheelcoarse");
+      expect([events[0].msb, events[0].lsb]).to.deep.equal([64, 10]);
+      expect(events[0].rawValue).to.equal((64 << 7) + 10);
+      expect(events[0].value).to.be.closeTo(((64 << 7) + 10) / 16383, 0.0001);
+      expect(events[0].timestamp).to.equal(11);
+
+    });
+
+    it("should be emitted for an MSB alone once the timeout expires", function () {
+
+      // Act
+      port.receive([0xB0, 7, 100]);
+      clock.tick(9);
+      const before = events.length;
+      clock.tick(1);
+
+      // Assert
+      expect(before).to.equal(0);
+      expect(events).to.have.lengthOf(1);
+      expect([events[0].msb, events[0].lsb]).to.deep.equal([100, 0]);
+
+    });
+
+    it("should be emitted right away for an MSB when the timeout is 0", function () {
+
+      // Arrange
+      channel.controlChange14Timeout = 0;
+
+      // Act
+      port.receive([0xB0, 7, 100]);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+
+    });
+
+    it("should be emitted for each LSB, keeping the last MSB", function () {
+
+      // Arrange
+      port.receive([0xB0, 1, 64]);
+      port.receive([0xB0, 33, 10]);
+
+      // Act
+      port.receive([0xB0, 33, 11]);
+      port.receive([0xB0, 33, 12]);
+
+      // Assert
+      expect(events.map(e => e.rawValue)).to.deep.equal([
+        (64 << 7) + 10, (64 << 7) + 11, (64 << 7) + 12
+      ]);
+
+    });
+
+    it("should be emitted on the MSB when the LSB is sent first", function () {
+
+      // Arrange
+      channel.controlChange14LsbFirst = true;
+
+      // Act
+      port.receive([0xB0, 33, 10]);
+      const before = events.length;
+      port.receive([0xB0, 1, 64]);
+
+      // Assert
+      expect(before).to.equal(0);
+      expect(events).to.have.lengthOf(1);
+      expect([events[0].msb, events[0].lsb]).to.deep.equal([64, 10]);
+
+    });
+
+    it("should not be emitted for controllers above 63", function () {
+
+      // Act
+      port.receive([0xB0, 64, 127]);
+      port.receive([0xB0, 74, 10]);
+      clock.tick(100);
+
+      // Assert
+      expect(events).to.deep.equal([]);
+
+    });
+
+  });
+
+  describe("state", function () {
+
+    it("should mirror the controllers, pitch bend and channel aftertouch", function () {
+
+      // Act
+      port.receive([0xB0, 7, 100]);
+      port.receive([0xE0, 0x00, 0x60]);
+      port.receive([0xD0, 50]);
+
+      // Assert
+      expect(channel.getControllerValue("volumecoarse")).to.equal(100);
+      expect(channel.getControllerValue(8)).to.be.null;
+      expect(channel.pitchBend).to.equal(0x3000);
+      expect(channel.channelAftertouch).to.equal(50);
+      expect(channel.state.controllers[7]).to.equal(100);
+
+    });
+
+    it("should mirror the playing notes", function () {
+
+      // Act
+      port.receive([0x90, 60, 100], 10);
+      port.receive([0x90, 64, 90], 20);
+      port.receive([0x80, 64, 0], 30);
+
+      // Assert
+      expect(channel.getPlayingNote(60)).to.deep.equal({rawAttack: 100, timestamp: 10});
+      expect(channel.getPlayingNote(64)).to.be.null;
+      expect(channel.keysDown).to.deep.equal([60]);
+
+    });
+
+    it("should keep the bank selected when the program change is received", function () {
+
+      // Act
+      port.receive([0xB0, 0, 1]);
+      port.receive([0xB0, 32, 2]);
+      port.receive([0xC0, 5]);
+      port.receive([0xB0, 0, 3]);
+
+      // Assert
+      expect(channel.program).to.deep.equal({number: 5, bankMsb: 1, bankLsb: 2});
+
+    });
+
+    it("should mirror the registered parameter values", function () {
+
+      // Act
+      port.receive([0xB0, 101, 0]);
+      port.receive([0xB0, 100, 0]);
+      port.receive([0xB0, 6, 12]);
+      port.receive([0xB0, 38, 50]);
+
+      // Assert
+      expect(channel.getRpnValue("pitchbendrange")).to.equal((12 << 7) + 50);
+      expect(channel.getRpnValue([0, 1])).to.be.null;
+
+    });
+
+    it("should apply the reset all controllers message", function () {
+
+      // Arrange
+      port.receive([0xB0, 1, 100]);
+      port.receive([0xB0, 7, 100]);
+      port.receive([0xE0, 0x00, 0x60]);
+
+      // Act
+      port.receive([0xB0, 121, 0]);
+
+      // Assert
+      expect(channel.getControllerValue(1)).to.equal(0);
+      expect(channel.getControllerValue(7)).to.equal(100);
+      expect(channel.getControllerValue(11)).to.equal(127);
+      expect(channel.pitchBend).to.equal(8192);
+
+    });
+
+    it("should release the notes on an all notes off message", function () {
+
+      // Arrange
+      port.receive([0x90, 60, 100]);
+      port.receive([0x90, 64, 100]);
+
+      // Act
+      port.receive([0xB0, 123, 0]);
+
+      // Assert
+      expect(channel.state.notes.filter(note => note)).to.deep.equal([]);
+      expect(channel.keysDown).to.deep.equal([]);
+
+    });
+
+    it("should not be modified through the returned copy", function () {
+
+      // Arrange
+      port.receive([0xB0, 7, 100]);
+
+      // Act
+      channel.state.controllers[7] = 0;
+
+      // Assert
+      expect(channel.getControllerValue(7)).to.equal(100);
+
+    });
+
+  });
+
+  describe("statechange event", function () {
+
+    it("should be emitted when a value of the state changes", function () {
+
+      // Arrange
+      const events = [];
+      channel.addListener("statechange", e => events.push(e), {});
+
+      // Act
+      port.receive([0xB0, 7, 100], 10);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].property).to.equal("controllers");
+      expect(events[0].key).to.equal(7);
+      expect(events[0].value).to.equal(100);
+      expect(events[0].timestamp).to.equal(10);
+      expect(events[0].target).to.equal(channel);
+
+    });
+
+    it("should not be emitted when a value is received again without change", function () {
+
+      // Arrange
+      const events = [];
+      channel.addListener("statechange", e => events.push([e.property, e.key, e.value]), {});
+
+      // Act
+      port.receive([0xB0, 7, 100]);
+      port.receive([0xB0, 7, 100]);
+      port.receive([0xE0, 0x00, 0x40]);
+
+      // Assert
+      expect(events).to.deep.equal([["controllers", 7, 100]]);
+
+    });
+
+  });
+
+  describe("resetState()", function () {
+
+    it("should clear the state mirror", function () {
+
+      // Arrange
+      port.receive([0xB0, 7, 100]);
+      port.receive([0xC0, 5]);
+
+      // Act
+      channel.resetState();
+
+      // Assert
+      expect(channel.getControllerValue(7)).to.be.null;
+      expect(channel.program).to.be.null;
+
+    });
+
+  });
+
+  describe("pedals", function () {
+
+    let events;
+
+    beforeEach(function () {
+      events = [];
+      channel.addListener("notesustained", e => events.push([e.type, e.note.number]), {});
+      channel.addListener("notereleased", e => events.push([e.type, e.note.number]), {});
+    });
+
+    it("should release a note when its key is released and no pedal is down", function () {
+
+      // Arrange
+      const released = [];
+      channel.addListener("notereleased", e => released.push(e), {});
+
+      // Act
+      port.receive([0x90, 60, 100]);
+      const sounding = channel.isNoteSounding(60);
+      port.receive([0x80, 60, 0], 20);
+
+      // Assert
+      expect(sounding).to.be.true;
+      expect(channel.isNoteSounding(60)).to.be.false;
+      expect(events).to.deep.equal([["notereleased", 60]]);
+      expect(released[0].note.rawAttack).to.equal(100);
+      expect(released[0].timestamp).to.equal(20);
+
+    });
+
+    it("should hold the notes released while the sustain pedal is down", function () {
+
+      // Arrange
+      port.receive([0x90, 60, 100]);
+      port.receive([0xB0, 64, 127]);
+
+      // Act
+      port.receive([0x80, 60, 0]);
+      const sounding = channel.soundingNotes;
+      port.receive([0xB0, 64, 0]);
+
+      // Assert
+      expect(channel.sustainPedal).to.be.false;
+      expect(sounding).to.deep.equal([60]);
+      expect(events).to.deep.equal([["notesustained", 60], ["notereleased", 60]]);
+
+    });
+
+    it("should keep the notes whose key is down when the sustain pedal is released", function () {
+
+      // Arrange
+      port.receive([0xB0, 64, 127]);
+      port.receive([0x90, 60, 100]);
+      port.receive([0x90, 64, 100]);
+      port.receive([0x80, 60, 0]);
+
+      // Act
+      port.receive([0xB0, 64, 0]);
+
+      // Assert
+      expect(channel.soundingNotes).to.deep.equal([64]);
+
+    });
+
+    it("should only hold the notes held down when the sostenuto pedal is pressed", function () {
+
+      // Arrange
+      port.receive([0x90, 60, 100]);
+      port.receive([0xB0, 66, 127]);
+      port.receive([0x90, 64, 100]);
+
+      // Act
+      port.receive([0x80, 60, 0]);
+      port.receive([0x80, 64, 0]);
+      const sostenuto = channel.sostenutoPedal;
+      port.receive([0xB0, 66, 0]);
+
+      // Assert
+      expect(sostenuto).to.be.true;
+      expect(events).to.deep.equal([
+        ["notesustained", 60],
+        ["notereleased", 64],
+        ["notereleased", 60]
+      ]);
+
+    });
+
+    it("should mirror the soft pedal", function () {
+
+      // Act
+      port.receive([0xB0, 67, 127]);
+
+      // Assert
+      expect(channel.softPedal).to.be.true;
+
+    });
+
+    it("should keep the held notes sounding on an all notes off message", function () {
+
+      // Arrange
+      port.receive([0xB0, 64, 127]);
+      port.receive([0x90, 60, 100]);
+
+      // Act
+      port.receive([0xB0, 123, 0]);
+
+      // Assert
+      expect(channel.soundingNotes).to.deep.equal([60]);
+      expect(events).to.deep.equal([["notesustained", 60]]);
+
+    });
+
+    it("should release the held notes on an all sound off message", function () {
+
+      // Arrange
+      port.receive([0xB0, 64, 127]);
+      port.receive([0x90, 60, 100]);
+      port.receive([0x80, 60, 0]);
+
+      // Act
+      port.receive([0xB0, 120, 0]);
+
+      // Assert
+      expect(channel.soundingNotes).to.deep.equal([]);
+      expect(events).to.deep.equal([["notesustained", 60], ["notereleased", 60]]);
+
+    });
+
+  });
+
+});
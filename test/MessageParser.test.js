@@ -0,0 +1,225 @@
+const expect = require("chai").expect;
+const {openVirtualInput} = require("./support/virtual.js");
+const {MessageParser} = require("../typescript/dist/MessageParser.js");
+
+describe("MessageParser Object", function() {
+
+  // Returns the bytes of each message
+  function bytes(messages) {
+    return messages.map(message => Array.from(message.rawData));
+  }
+
+  describe("constructor()", function () {
+
+    it("should throw when the destination is not a 'VirtualMIDIInput'", function () {
+
+      // Act
+      const fn = () => new MessageParser({destination: {}});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The destination must be of type 'VirtualMIDIInput'.");
+
+    });
+
+  });
+
+  describe("parse()", function () {
+
+    it("should parse complete messages", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const messages = parser.parse([0x90, 60, 100, 0xC1, 5, 0xF2, 0x10, 0x02]);
+
+      // Assert
+      expect(bytes(messages)).to.deep.equal([[0x90, 60, 100], [0xC1, 5], [0xF2, 0x10, 0x02]]);
+
+    });
+
+    it("should accept a 'Uint8Array' or an 'ArrayBuffer'", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+      const data = new Uint8Array([0x90, 60, 100]);
+
+      // Act
+      const fromArray = parser.parse(data);
+      const fromBuffer = parser.parse(data.buffer);
+
+      // Assert
+      expect(bytes(fromArray)).to.deep.equal([[0x90, 60, 100]]);
+      expect(bytes(fromBuffer)).to.deep.equal([[0x90, 60, 100]]);
+
+    });
+
+    it("should reassemble messages split across chunks", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const first = parser.parse([0x90, 60]);
+      const second = parser.parse([100, 0xB0]);
+      const third = parser.parse([7, 127]);
+
+      // Assert
+      expect(first).to.deep.equal([]);
+      expect(bytes(second)).to.deep.equal([[0x90, 60, 100]]);
+      expect(bytes(third)).to.deep.equal([[0xB0, 7, 127]]);
+
+    });
+
+    it("should apply running status", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const messages = parser.parse([0x90, 60, 100, 62, 100, 64, 0]);
+
+      // Assert
+      expect(bytes(messages)).to.deep.equal([[0x90, 60, 100], [0x90, 62, 100], [0x90, 64, 0]]);
+
+    });
+
+    it("should clear running status on system common messages", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const messages = parser.parse([0x90, 60, 100, 0xF3, 1, 62, 100]);
+
+      // Assert
+      expect(bytes(messages)).to.deep.equal([[0x90, 60, 100], [0xF3, 1]]);
+
+    });
+
+    it("should ignore data bytes without a status", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const messages = parser.parse([60, 100, 0x80, 60, 0]);
+
+      // Assert
+      expect(bytes(messages)).to.deep.equal([[0x80, 60, 0]]);
+
+    });
+
+    it("should dispatch real-time messages interleaved in other messages", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const messages = parser.parse([0x90, 60, 0xF8, 100, 0xF0, 0x7E, 0xFA, 0x01, 0xF7]);
+
+      // Assert
+      expect(bytes(messages)).to.deep.equal([
+        [0xF8], [0x90, 60, 100], [0xFA], [0xF0, 0x7E, 0x01, 0xF7]
+      ]);
+
+    });
+
+    it("should reassemble sysex messages split across chunks", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const first = parser.parse([0xF0, 0x7E, 0x7F]);
+      const second = parser.parse([0x06, 0x01, 0xF7]);
+
+      // Assert
+      expect(first).to.deep.equal([]);
+      expect(bytes(second)).to.deep.equal([[0xF0, 0x7E, 0x7F, 0x06, 0x01, 0xF7]]);
+
+    });
+
+    it("should terminate a sysex message interrupted by a status byte", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const messages = parser.parse([0xF0, 0x7D, 0x01, 0x90, 60, 100]);
+
+      // Assert
+      expect(bytes(messages)).to.deep.equal([[0xF0, 0x7D, 0x01, 0xF7], [0x90, 60, 100]]);
+
+    });
+
+    it("should discard an incomplete message interrupted by a status byte", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+
+      // Act
+      const messages = parser.parse([0x90, 60, 0xC0, 5]);
+
+      // Assert
+      expect(bytes(messages)).to.deep.equal([[0xC0, 5]]);
+
+    });
+
+    it("should emit a 'message' event with the specified timestamp", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+      const events = [];
+      parser.addListener("message", e => events.push(e), {});
+
+      // Act
+      parser.parse([0x90, 60, 100], 1234);
+
+      // Assert
+      expect(events).to.have.lengthOf(1);
+      expect(events[0].timestamp).to.equal(1234);
+      expect(events[0].target).to.equal(parser);
+      expect(events[0].message.type).to.equal("noteon");
+
+    });
+
+    it("should inject the messages in the destination", async function () {
+
+      // Arrange
+      const {input, port} = await openVirtualInput();
+      const notes = [];
+      input.addListener("noteon", e => notes.push([e.note.number, e.timestamp]), {channels: 2});
+      const parser = new MessageParser({destination: port});
+
+      // Act
+      parser.parse([0x91, 60, 100, 62], 10);
+      parser.parse([100], 20);
+
+      // Assert
+      expect(notes).to.deep.equal([[60, 10], [62, 20]]);
+
+    });
+
+  });
+
+  describe("reset()", function () {
+
+    it("should discard the incomplete message and the running status", function () {
+
+      // Arrange
+      const parser = new MessageParser();
+      parser.parse([0x90, 60, 100, 62]);
+
+      // Act
+      parser.reset();
+      const messages = parser.parse([100, 64, 100]);
+
+      // Assert
+      expect(messages).to.deep.equal([]);
+
+    });
+
+  });
+
+});
@@ -0,0 +1,279 @@
+const expect = require("chai").expect;
+require("../typescript/dist/WebMidi.js");
+const {MidiFile} = require("../typescript/dist/MidiFile.js");
+
+// Encodes a number as a variable-length quantity
+function vlq(value) {
+  const bytes = [value & 0x7F];
+  while (value > 0x7F) {
+    value = Math.floor(value / 128);
+    bytes.unshift((value & 0x7F) | 0x80);
+  }
+  return bytes;
+}
+
+// Wraps track data in a complete file (format 0 unless specified)
+function smf(tracks, format = 0, division = 480) {
+  const bytes = [0x4D, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, format, 0, tracks.length];
+  bytes.push(division >> 8, division & 0xFF);
+  tracks.forEach(track => {
+    const length = track.length;
+    bytes.push(0x4D, 0x54, 0x72, 0x6B);
+    bytes.push((length >>> 24) & 0xFF, (length >> 16) & 0xFF, (length >> 8) & 0xFF, length & 0xFF);
+    for (let i = 0; i < track.length; i++) bytes.push(track[i]);
+  });
+  return new Uint8Array(bytes);
+}
+
+describe("MidiFile Object", function() {
+
+  describe("constructor()", function () {
+
+    it("should create an empty file with the specified format and division", function () {
+
+      // Act
+      const file = new MidiFile(0, 96);
+
+      // Assert
+      expect(file.format).to.equal(0);
+      expect(file.ticksPerQuarterNote).to.equal(96);
+      expect(file.tracks).to.have.lengthOf(0);
+      expect(file.duration).to.equal(0);
+
+    });
+
+  });
+
+  describe("parse()", function () {
+
+    it("should read the header", function () {
+
+      // Arrange
+      const data = smf([[0, 0xFF, 0x2F, 0], [0, 0xFF, 0x2F, 0]], 1, 96);
+
+      // Act
+      const file = MidiFile.parse(data);
+
+      // Assert
+      expect(file.format).to.equal(1);
+      expect(file.ticksPerQuarterNote).to.equal(96);
+      expect(file.smpte).to.not.be.ok;
+      expect(file.tracks).to.have.lengthOf(2);
+
+    });
+
+    it("should accept an 'ArrayBuffer' or an array of bytes", function () {
+
+      // Arrange
+      const data = smf([[0, 0xFF, 0x2F, 0]]);
+
+      // Act
+      const fromBuffer = MidiFile.parse(data.buffer);
+      const fromArray = MidiFile.parse(Array.from(data));
+
+      // Assert
+      expect(fromBuffer.tracks).to.have.lengthOf(1);
+      expect(fromArray.tracks).to.have.lengthOf(1);
+
+    });
+
+    it("should read SMPTE time division", function () {
+
+      // Arrange
+      const data = smf([[0, 0xFF, 0x2F, 0]], 0, ((256 - 25) << 8) + 40);
+
+      // Act
+      const file = MidiFile.parse(data);
+
+      // Assert
+      expect(file.smpte).to.deep.equal({framesPerSecond: 25, ticksPerFrame: 40});
+      expect(file.ticksPerQuarterNote).to.be.undefined;
+      expect(file.ticksToMilliseconds(1000)).to.equal(1000);
+
+    });
+
+    it("should read channel messages and running status", function () {
+
+      // Arrange
+      const data = smf([[
+        0, 0x90, 60, 100,
+        ...vlq(240), 62, 90,  // running status
+        ...vlq(240), 0x80, 60, 64,
+        0, 0xC3, 5,
+        0, 0xFF, 0x2F, 0
+      ]]);
+
+      // Act
+      const events = MidiFile.parse(data).tracks[0].events;
+
+      // Assert
+      expect(events.map(e => e.type)).to.deep.equal(
+        ["noteon", "noteon", "noteoff", "programchange", "endoftrack"]
+      );
+      expect(Array.from(events[1].message.data)).to.deep.equal([0x90, 62, 90]);
+      expect(events[1].delta).to.equal(240);
+      expect(events[2].tick).to.equal(480);
+      expect(Array.from(events[3].message.data)).to.deep.equal([0xC3, 5]);
+
+    });
+
+    it("should read meta events", function () {
+
+      // Arrange
+      const data = smf([[
+        0, 0xFF, 0x03, 4, 0x4C, 0x65, 0x61, 0x64,   // track name "Lead"
+        0, 0xFF, 0x51, 3, 0x07, 0xA1, 0x20,         // 120 bpm
+        0, 0xFF, 0x58, 4, 6, 3, 24, 8,              // 6/8
+        0, 0xFF, 0x59, 2, 0xFE, 1,                  // 2 flats, minor
+        0, 0xFF, 0x2F, 0
+      ]]);
+
+      // Act
+      const track = MidiFile.parse(data).tracks[0];
+      const metas = track.events.map(e => e.meta);
+
+      // Assert
+      expect(track.name).to.equal("Lead");
+      expect(metas[0].text).to.equal("Lead");
+      expect(metas[1].tempo).to.equal(500000);
+      expect(metas[1].bpm).to.equal(120);
+      expect(metas[2].numerator).to.equal(6);
+      expect(metas[2].denominator).to.equal(8);
+      expect(metas[3].key).to.equal(-2);
+      expect(metas[3].scale).to.equal("minor");
+
+    });
+
+    it("should calculate event times from the tempo map", function () {
+
+      // Arrange
+      const data = smf([[
+        0, 0xFF, 0x51, 3, 0x07, 0xA1, 0x20,           // 120 bpm
+        ...vlq(960), 0xFF, 0x51, 3, 0x0F, 0x42, 0x40, // 60 bpm after two beats
+        ...vlq(480), 0x90, 60, 100,
+        0, 0xFF, 0x2F, 0
+      ]]);
+
+      // Act
+      const file = MidiFile.parse(data);
+
+      // Assert
+      expect(file.getTempoMap()).to.deep.equal([
+        {tick: 0, tempo: 500000, time: 0},
+        {tick: 960, tempo: 1000000, time: 1000}
+      ]);
+      expect(file.tracks[0].events[2].time).to.equal(2000);
+      expect(file.millisecondsToTicks(2000)).to.equal(1440);
+      expect(file.duration).to.equal(2000);
+
+    });
+
+    it("should reassemble sysex messages split in continuation packets", function () {
+
+      // Arrange
+      const data = smf([[
+        0, 0xF0, 3, 0x7E, 0x01, 0x02,
+        10, 0xF7, 3, 0x03, 0x04, 0xF7,
+        0, 0xFF, 0x2F, 0
+      ]]);
+
+      // Act
+      const events = MidiFile.parse(data).tracks[0].events;
+
+      // Assert
+      expect(events[0].type).to.equal("sysex");
+      expect(Array.from(events[0].message.data)).to.deep.equal(
+        [0xF0, 0x7E, 0x01, 0x02, 0x03, 0x04, 0xF7]
+      );
+      expect(events[0].tick).to.equal(0);
+
+    });
+
+    it("should read very large sysex and text events", function () {
+
+      // Arrange
+      const length = 500000;
+      const track = [0, 0xF0, ...vlq(length + 1)];
+      for (let i = 0; i < length; i++) track.push(0x10);
+      track.push(0xF7, 0, 0xFF, 0x01, ...vlq(length));
+      for (let i = 0; i < length; i++) track.push(0x41);
+      track.push(0, 0xFF, 0x2F, 0);
+
+      // Act
+      const events = MidiFile.parse(smf([track])).tracks[0].events;
+
+      // Assert
+      expect(events[0].message.data).to.have.lengthOf(length + 2);
+      expect(events[1].meta.text).to.have.lengthOf(length);
+
+    });
+
+    it("should throw when the header chunk is missing", function () {
+
+      // Arrange
+      const data = new Uint8Array([0x4D, 0x54, 0x72, 0x6B, 0, 0, 0, 0]);
+
+      // Act
+      const fn = () => MidiFile.parse(data);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "MThd");
+
+    });
+
+    it("should throw when the format is not supported", function () {
+
+      // Arrange
+      const data = smf([[0, 0xFF, 0x2F, 0]], 3);
+
+      // Act
+      const fn = () => MidiFile.parse(data);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "Unsupported MIDI file format");
+
+    });
+
+    it("should throw when a data byte has no status", function () {
+
+      // Arrange
+      const data = smf([[0, 60, 100, 0, 0xFF, 0x2F, 0]]);
+
+      // Act
+      const fn = () => MidiFile.parse(data);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "Invalid running status");
+
+    });
+
+    it("should throw when the file is truncated", function () {
+
+      // Arrange
+      const complete = smf([[0, 0x90, 60, 100, 0, 0xFF, 0x2F, 0]]);
+      const data = complete.slice(0, complete.length - 3);
+
+      // Act
+      const fn = () => MidiFile.parse(data);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "Truncated MIDI file");
+
+    });
+
+    it("should throw when a track ends in the middle of an event", function () {
+
+      // Arrange
+      const data = smf([[0, 0x90, 60]]);
+
+      // Act
+      const fn = () => MidiFile.parse(data);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "Truncated MIDI file");
+
+    });
+
+  });
+
+});
@@ -0,0 +1,379 @@
+const expect = require("chai").expect;
+require("../typescript/dist/WebMidi.js");
+const {MidiFile} = require("../typescript/dist/MidiFile.js");
+const {MidiFileWriter} = require("../typescript/dist/MidiFileWriter.js");
+const {Message} = require("../typescript/dist/Message.js");
+
+// Creates a channel or system event at the specified tick
+function event(tick, data) {
+  const message = new Message(new Uint8Array(data));
+  return {delta: 0, tick, time: 0, type: message.type, message};
+}
+
+// Creates a meta event at the specified tick
+function meta(tick, metaType, data = []) {
+  const meta = MidiFile._parseMetaEvent(metaType, new Uint8Array(data));
+  return {delta: 0, tick, time: 0, type: meta.type, meta};
+}
+
+describe("MidiFile Object (writing)", function() {
+
+  describe("toUint8Array()", function () {
+
+    it("should write the header", function () {
+
+      // Arrange
+      const file = new MidiFile(1, 96);
+      file.tracks.push({events: []}, {events: []});
+
+      // Act
+      const bytes = file.toUint8Array();
+
+      // Assert
+      expect(Array.from(bytes.slice(0, 14))).to.deep.equal(
+        [0x4D, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 1, 0, 2, 0, 96]
+      );
+
+    });
+
+    it("should write SMPTE time division", function () {
+
+      // Arrange
+      const file = new MidiFile(0);
+      file.smpte = {framesPerSecond: 25, ticksPerFrame: 40};
+      file.tracks.push({events: []});
+
+      // Act
+      const parsed = MidiFile.parse(file.toUint8Array());
+
+      // Assert
+      expect(parsed.smpte).to.deep.equal({framesPerSecond: 25, ticksPerFrame: 40});
+
+    });
+
+    it("should add an end-of-track event when missing", function () {
+
+      // Arrange
+      const file = new MidiFile(0);
+      file.tracks.push({events: [event(0, [0x90, 60, 100])]});
+
+      // Act
+      const bytes = Array.from(file.toUint8Array());
+
+      // Assert
+      expect(bytes.slice(14)).to.deep.equal(
+        [0x4D, 0x54, 0x72, 0x6B, 0, 0, 0, 8, 0, 0x90, 60, 100, 0, 0xFF, 0x2F, 0]
+      );
+
+    });
+
+    it("should ignore events after the end-of-track event", function () {
+
+      // Arrange
+      const file = new MidiFile(0);
+      file.tracks.push({events: [meta(0, 0x2F), event(10, [0x90, 60, 100])]});
+
+      // Act
+      const parsed = MidiFile.parse(file.toUint8Array());
+
+      // Assert
+      expect(parsed.tracks[0].events.map(e => e.type)).to.deep.equal(["endoftrack"]);
+
+    });
+
+    it("should write events sorted by tick with relative deltas", function () {
+
+      // Arrange
+      const file = new MidiFile(0);
+      file.tracks.push({events: [
+        event(480, [0x80, 60, 64]),
+        event(0, [0x90, 60, 100]),
+        event(480, [0x90, 62, 100])
+      ]});
+
+      // Act
+      const events = MidiFile.parse(file.toUint8Array()).tracks[0].events;
+
+      // Assert
+      expect(events.map(e => e.tick)).to.deep.equal([0, 480, 480, 480]);
+      expect(events.map(e => e.delta)).to.deep.equal([0, 480, 0, 0]);
+      expect(Array.from(events[1].message.data)).to.deep.equal([0x80, 60, 64]);
+      expect(Array.from(events[2].message.data)).to.deep.equal([0x90, 62, 100]);
+
+    });
+
+    it("should merge the tracks of a format 0 file", function () {
+
+      // Arrange
+      const file = new MidiFile(0);
+      file.tracks.push(
+        {name: "First", events: [event(0, [0x90, 60, 100]), meta(0, 0x2F)]},
+        {events: [event(240, [0x91, 64, 100]), meta(240, 0x2F)]}
+      );
+
+      // Act
+      const parsed = MidiFile.parse(file.toUint8Array());
+
+      // Assert
+      expect(parsed.tracks).to.have.lengthOf(1);
+      expect(parsed.tracks[0].events.map(e => e.type)).to.deep.equal(
+        ["noteon", "noteon", "endoftrack"]
+      );
+      expect(parsed.tracks[0].events[1].tick).to.equal(240);
+
+    });
+
+    it("should escape system messages other than sysex", function () {
+
+      // Arrange
+      const file = new MidiFile(0);
+      file.tracks.push({events: [event(0, [0xF2, 0x10, 0x02])]});
+
+      // Act
+      const bytes = Array.from(file.toUint8Array());
+      const parsed = MidiFile.parse(bytes);
+
+      // Assert
+      expect(bytes.slice(22, 27)).to.deep.equal([0, 0xF7, 3, 0xF2, 0x10]);
+      expect(Array.from(parsed.tracks[0].events[0].message.data)).to.deep.equal(
+        [0xF2, 0x10, 0x02]
+      );
+
+    });
+
+    it("should write very large sysex and meta events", function () {
+
+      // Arrange
+      const length = 500000;
+      const sysex = new Uint8Array(length + 2).fill(0x10);
+      sysex[0] = 0xF0;
+      sysex[length + 1] = 0xF7;
+      const text = new Uint8Array(length).fill(0x41);
+      const file = new MidiFile(0);
+      file.tracks.push({events: [event(0, sysex), meta(0, 0x01, text)]});
+
+      // Act
+      const events = MidiFile.parse(file.toUint8Array()).tracks[0].events;
+
+      // Assert
+      expect(events[0].message.data).to.have.lengthOf(length + 2);
+      expect(events[1].meta.text).to.have.lengthOf(length);
+
+    });
+
+    it("should produce a file that parses back to the same events", function () {
+
+      // Arrange
+      const original = new MidiFile(1, 480);
+      original.tracks.push(
+        {events: [
+          meta(0, 0x03, [0x54, 0x65, 0x6D, 0x70, 0x6F]),
+          meta(0, 0x51, [0x07, 0xA1, 0x20]),
+          meta(960, 0x51, [0x0F, 0x42, 0x40]),
+          meta(960, 0x2F)
+        ]},
+        {events: [
+          event(0, [0xC0, 12]),
+          event(0, [0x90, 60, 100]),
+          event(1440, [0x80, 60, 0]),
+          event(1440, [0xF0, 0x7E, 0x7F, 0x09, 0x01, 0xF7])
+        ]}
+      );
+      original._updateTiming();
+
+      // Act
+      const parsed = MidiFile.parse(original.toUint8Array());
+
+      // Assert
+      expect(parsed.format).to.equal(1);
+      expect(parsed.tracks[0].name).to.equal("Tempo");
+      expect(parsed.getTempoMap()).to.deep.equal(original.getTempoMap());
+      expect(parsed.duration).to.equal(2000);
+      original.tracks.forEach((track, index) => {
+        track.events.forEach((e, i) => {
+          const copy = parsed.tracks[index].events[i];
+          expect(copy.tick).to.equal(e.tick);
+          expect(copy.time).to.equal(e.time);
+          expect(Array.from((copy.message || copy.meta).data))
+            .to.deep.equal(Array.from((e.message || e.meta).data));
+        });
+      });
+
+    });
+
+  });
+
+});
+
+describe("MidiFileWriter Object", function() {
+
+  // Returns the tick, type and bytes of each event of a track
+  function summarize(events) {
+    return events.map(e => [e.tick, e.type, Array.from((e.message || e.meta).data)]);
+  }
+
+  describe("constructor()", function () {
+
+    it("should throw when the format is not 0 or 1", function () {
+
+      // Act
+      const fn = () => new MidiFileWriter({format: 2});
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The format must be 0 or 1.");
+
+    });
+
+    it("should throw when the number of ticks per quarter note is invalid", function () {
+
+      // Act
+      const fn = () => new MidiFileWriter({ticksPerQuarterNote: 32768});
+
+      // Assert
+      expect(fn).to.throw(RangeError);
+
+    });
+
+  });
+
+  describe("addTrack()", function () {
+
+    it("should add a track with a track name meta event", function () {
+
+      // Arrange
+      const writer = new MidiFileWriter();
+
+      // Act
+      const track = writer.addTrack("Piano");
+
+      // Assert
+      expect(writer.tracks).to.deep.equal([track]);
+      expect(summarize(track.events)).to.deep.equal(
+        [[0, "trackname", [0x50, 0x69, 0x61, 0x6E, 0x6F]]]
+      );
+
+    });
+
+  });
+
+  describe("MidiFileWriterTrack", function () {
+
+    it("should record messages at the track position", function () {
+
+      // Arrange
+      const track = new MidiFileWriter().addTrack();
+
+      // Act
+      track.channels[1].sendProgramChange(5, {});
+      track.advance(480).channels[1].sendControlChange(7, 100, {});
+      track.channels[2].sendPitchBend(0.5, {time: 100});
+
+      // Assert
+      expect(summarize(track.events)).to.deep.equal([
+        [0, "programchange", [0xC0, 5]],
+        [100, "pitchbend", [0xE1, 127, 95]],
+        [480, "controlchange", [0xB0, 7, 100]]
+      ]);
+
+    });
+
+    it("should record a note off 'duration' ticks after the note on", function () {
+
+      // Arrange
+      const track = new MidiFileWriter().addTrack();
+
+      // Act
+      track.advance(480).channels[2].playNote(["E4", "G4"], {duration: 960, attack: 0.5});
+
+      // Assert
+      expect(summarize(track.events)).to.deep.equal([
+        [480, "noteon", [0x91, 64, 64]],
+        [480, "noteon", [0x91, 67, 64]],
+        [1440, "noteoff", [0x81, 64, 64]],
+        [1440, "noteoff", [0x81, 67, 64]]
+      ]);
+
+    });
+
+    it("should record sysex messages", function () {
+
+      // Arrange
+      const track = new MidiFileWriter().addTrack();
+
+      // Act
+      track.sendSysex(0x7D, [1, 2, 3], {time: 10});
+
+      // Assert
+      expect(summarize(track.events)).to.deep.equal(
+        [[10, "sysex", [0xF0, 0x7D, 1, 2, 3, 0xF7]]]
+      );
+
+    });
+
+    it("should record meta events", function () {
+
+      // Arrange
+      const track = new MidiFileWriter().addTrack();
+
+      // Act
+      track
+        .setTempo(100)
+        .setTimeSignature(3, 4)
+        .setKeySignature(-3, "minor")
+        .addMarker("Verse", {time: 1920});
+
+      // Assert
+      expect(summarize(track.events)).to.deep.equal([
+        [0, "tempo", [0x09, 0x27, 0xC0]],
+        [0, "timesignature", [3, 2, 24, 8]],
+        [0, "keysignature", [253, 1]],
+        [1920, "marker", [0x56, 0x65, 0x72, 0x73, 0x65]]
+      ]);
+
+    });
+
+    it("should throw when advancing by a negative number of ticks", function () {
+
+      // Arrange
+      const track = new MidiFileWriter().addTrack();
+
+      // Act
+      const fn = () => track.advance(-1);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The number of ticks must be a positive number.");
+
+    });
+
+  });
+
+  describe("toMidiFile()", function () {
+
+    it("should produce a file that parses back to the recorded events", function () {
+
+      // Arrange
+      const writer = new MidiFileWriter({ticksPerQuarterNote: 480});
+      const track = writer.addTrack("Piano");
+      track.setTempo(100);
+      track.channels[1].playNote("C4", {duration: 480});
+      track.addMarker("End", {time: 1920});
+
+      // Act
+      const file = MidiFile.parse(writer.toMidiFile().toUint8Array());
+
+      // Assert
+      expect(file.tracks[0].name).to.equal("Piano");
+      expect(file.getTempoMap()).to.deep.equal([{tick: 0, tempo: 600000, time: 0}]);
+      expect(summarize(file.tracks[0].events).slice(2)).to.deep.equal([
+        [0, "noteon", [0x90, 60, 64]],
+        [480, "noteoff", [0x80, 60, 64]],
+        [1920, "marker", [0x45, 0x6E, 0x64]],
+        [1920, "endoftrack", []]
+      ]);
+      expect(file.duration).to.equal(2400);
+
+    });
+
+  });
+
+});
@@ -0,0 +1,277 @@
+const expect = require("chai").expect;
+const {openVirtualOutput, sent} = require("./support/virtual.js");
+const {MpeOutput} = require("../typescript/dist/MpeOutput.js");
+
+describe("MpeOutput Object", function() {
+
+  let output, port;
+
+  beforeEach("Open a virtual output", async function () {
+    ({output, port} = await openVirtualOutput());
+  });
+
+  describe("constructor()", function () {
+
+    it("should throw when the output is not an 'Output'", function () {
+
+      // Act
+      const fn = () => new MpeOutput({});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The output must be of type 'Output'.");
+
+    });
+
+    it("should throw when the voice stealing mode is invalid", function () {
+
+      // Act
+      const fn = () => new MpeOutput(output, {voiceStealing: "newest"});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The voice stealing mode must be 'oldest' or 'none'.");
+
+    });
+
+  });
+
+  describe("setZone()", function () {
+
+    it("should send the MPE configuration message on the manager channel", function () {
+
+      // Arrange
+      const mpe = new MpeOutput(output);
+
+      // Act
+      mpe.setZone("upper", 3);
+
+      // Assert
+      expect(sent(port).slice(0, 3)).to.deep.equal([[0xBF, 101, 0], [0xBF, 100, 6], [0xBF, 6, 3]]);
+      expect(mpe.zones).to.deep.equal({lower: 0, upper: 3});
+      expect(mpe.getMemberChannels("upper")).to.deep.equal([15, 14, 13]);
+      expect(mpe.getManagerChannel("upper").number).to.equal(16);
+
+    });
+
+    it("should send the pitch bend range of the manager and member channels", function () {
+
+      // Arrange
+      const mpe = new MpeOutput(output);
+
+      // Act
+      mpe.setZone("lower", 2, {memberPitchBendRange: 24});
+
+      // Assert
+      // Data entry messages following the selection of RPN 0 (pitch bend range)
+      const messages = sent(port);
+      const ranges = messages.filter((data, i) => i > 0 && messages[i - 1][1] === 100 &&
+        messages[i - 1][2] === 0 && data[1] === 6);
+      expect(ranges.map(data => [data[0] & 0x0F, data[2]])).to.deep.equal([
+        [0, 2], [1, 24], [2, 24]
+      ]);
+
+    });
+
+    it("should shrink the other zone when they overlap", function () {
+
+      // Arrange
+      const mpe = new MpeOutput(output);
+      mpe.setZone("upper", 7);
+
+      // Act
+      mpe.setZone("lower", 10);
+
+      // Assert
+      expect(mpe.zones).to.deep.equal({lower: 10, upper: 4});
+
+    });
+
+    it("should throw when the zone is invalid", function () {
+
+      // Arrange
+      const mpe = new MpeOutput(output);
+
+      // Act
+      const fn = () => mpe.setZone("middle", 3);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The zone must be 'lower' or 'upper'.");
+
+    });
+
+    it("should throw when the number of member channels is invalid", function () {
+
+      // Arrange
+      const mpe = new MpeOutput(output);
+
+      // Act
+      const fn = () => mpe.setZone("lower", 16);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "between 0 and 15");
+
+    });
+
+  });
+
+  describe("sendNoteOn()", function () {
+
+    let mpe;
+
+    beforeEach(function () {
+      mpe = new MpeOutput(output).setZone("lower", 2);
+      port.clearSent();
+    });
+
+    it("should throw when the zone is not configured", function () {
+
+      // Act
+      const fn = () => mpe.sendNoteOn(60, {zone: "upper"});
+
+      // Assert
+      expect(fn).to.throw(Error, "The zone is not configured.");
+
+    });
+
+    it("should send the initial expression before the note on message", function () {
+
+      // Act
+      mpe.sendNoteOn(60, {attack: 1, bend: 1, pressure: 1, timbre: 0});
+
+      // Assert
+      expect(sent(port)).to.deep.equal([
+        [0xE1, 127, 127],
+        [0xB1, 74, 0],
+        [0xD1, 127],
+        [0x91, 60, 127]
+      ]);
+
+    });
+
+    it("should play each note on its own member channel", function () {
+
+      // Act
+      mpe.sendNoteOn(60).sendNoteOn(64);
+
+      // Assert
+      const notes = sent(port).filter(data => data[0] >> 4 === 0x9);
+      expect(notes.map(data => data[0] & 0x0F)).to.deep.equal([1, 2]);
+
+    });
+
+    it("should reset the expression left on the channel by the previous note", function () {
+
+      // Arrange
+      mpe.sendNoteOn(60, {bend: 0.5, pressure: 0.5, timbre: 1});
+      mpe.sendNoteOff(60);
+      mpe.sendNoteOn(62);
+      port.clearSent();
+
+      // Act
+      mpe.sendNoteOn(64);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([
+        [0xE1, 0, 64],
+        [0xB1, 74, 64],
+        [0xD1, 0],
+        [0x91, 64, 64]
+      ]);
+
+    });
+
+    it("should steal the channel of the oldest note when all channels are busy", function () {
+
+      // Arrange
+      mpe.sendNoteOn(60).sendNoteOn(62);
+      port.clearSent();
+
+      // Act
+      mpe.sendNoteOn(64);
+
+      // Assert
+      expect(sent(port)[0]).to.deep.equal([0x81, 60, 64]);
+      expect(sent(port)[4]).to.deep.equal([0x91, 64, 64]);
+
+    });
+
+    it("should ignore the note when all channels are busy and voice stealing is off", function () {
+
+      // Arrange
+      mpe.voiceStealing = "none";
+      mpe.sendNoteOn(60).sendNoteOn(62);
+      port.clearSent();
+
+      // Act
+      mpe.sendNoteOn(64);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([]);
+
+    });
+
+  });
+
+  describe("expression", function () {
+
+    let mpe;
+
+    beforeEach(function () {
+      mpe = new MpeOutput(output).setZone("lower", 2);
+      mpe.sendNoteOn(60).sendNoteOn(64);
+      port.clearSent();
+    });
+
+    it("should be sent on the channel of the note", function () {
+
+      // Act
+      mpe.sendNoteBend(64, -1).sendNotePressure(64, 1).sendNoteTimbre(64, 1);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xE2, 0, 0], [0xD2, 127], [0xB2, 74, 127]]);
+
+    });
+
+    it("should not be sent for inactive notes", function () {
+
+      // Act
+      mpe.sendNoteBend(62, 1).sendNotePressure(62, 1).sendNoteTimbre(62, 1);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([]);
+
+    });
+
+    it("should throw when the timbre is invalid", function () {
+
+      // Act
+      const fn = () => mpe.sendNoteTimbre(60, 2);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The timbre value must be a float between 0 and 1.");
+
+    });
+
+  });
+
+  describe("sendNoteOff()", function () {
+
+    it("should free the member channel of the note", function () {
+
+      // Arrange
+      const mpe = new MpeOutput(output).setZone("lower", 1);
+      mpe.sendNoteOn(60);
+      port.clearSent();
+
+      // Act
+      mpe.sendNoteOff(60, {release: 1});
+      mpe.sendNoteOn(62);
+
+      // Assert
+      expect(sent(port)[0]).to.deep.equal([0x81, 60, 127]);
+      expect(sent(port)[1]).to.deep.equal([0xE1, 0, 64]);
+
+    });
+
+  });
+
+});
@@ -0,0 +1,452 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {openVirtualOutput, sent} = require("./support/virtual.js");
+
+describe("Output Object", function() {
+
+  let access, clock, input, output, port, wm;
+
+  beforeEach("Open a virtual output", async function () {
+    ({access, output, port, wm} = await openVirtualOutput({sysex: true}));
+    input = await wm.getInputById("in").open();
+    clock = sinon.useFakeTimers();
+    clock.tick(1000);
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  // Returns the error the promise is rejected with
+  async function rejection(promise) {
+    try {
+      await promise;
+    } catch (err) {
+      return err;
+    }
+    return null;
+  }
+
+  describe("sendSysexDump()", function () {
+
+    it("should send each message separately", async function () {
+
+      // Arrange
+      const data = [0xF0, 0x7D, 0x01, 0xF7, 0xF0, 0x7D, 0x02, 0x03, 0xF7];
+
+      // Act
+      const promise = output.sendSysexDump(data, {delay: 10});
+      await clock.tickAsync(10);
+      await promise;
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xF0, 0x7D, 0x01, 0xF7], [0xF0, 0x7D, 0x02, 0x03, 0xF7]]);
+
+    });
+
+    it("should split messages in packets of the specified size", async function () {
+
+      // Arrange
+      const data = new Uint8Array([0xF0, 0x7D, 0x01, 0x02, 0x03, 0x04, 0xF7]);
+
+      // Act
+      const promise = output.sendSysexDump(data, {delay: 0, packetSize: 3});
+      await clock.tickAsync(0);
+      await promise;
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xF0, 0x7D, 0x01], [0x02, 0x03, 0x04], [0xF7]]);
+
+    });
+
+    it("should wait for the specified delay between packets", async function () {
+
+      // Arrange
+      const data = [0xF0, 0x7D, 0x01, 0x02, 0x03, 0xF7];
+
+      // Act
+      const promise = output.sendSysexDump(data, {delay: 50, packetSize: 2});
+      const counts = [port.sent.length];
+      await clock.tickAsync(49);
+      counts.push(port.sent.length);
+      await clock.tickAsync(1);
+      counts.push(port.sent.length);
+      await clock.tickAsync(50);
+      counts.push(port.sent.length);
+      await promise;
+
+      // Assert
+      expect(counts).to.deep.equal([1, 1, 2, 3]);
+
+    });
+
+    it("should report the progress after each packet", async function () {
+
+      // Arrange
+      const data = [0xF0, 0x7D, 0x01, 0x02, 0x03, 0xF7];
+      const progress = [];
+
+      // Act
+      const promise = output.sendSysexDump(data, {
+        delay: 0,
+        packetSize: 4,
+        progress: e => progress.push(e)
+      });
+      await clock.tickAsync(0);
+      await promise;
+
+      // Assert
+      expect(progress).to.deep.equal([
+        {packet: 1, packets: 2, sent: 4, total: 6},
+        {packet: 2, packets: 2, sent: 6, total: 6}
+      ]);
+
+    });
+
+    it("should reject when the transmission is cancelled", async function () {
+
+      // Arrange
+      const controller = new AbortController();
+      const data = [0xF0, 0x7D, 0x01, 0x02, 0x03, 0xF7];
+
+      // Act
+      const result = rejection(
+        output.sendSysexDump(data, {packetSize: 2, signal: controller.signal})
+      );
+      controller.abort();
+      await clock.tickAsync(20);
+      const err = await result;
+
+      // Assert
+      expect(err).to.be.an("error");
+      expect(err.message).to.equal("The system exclusive transmission has been cancelled.");
+      expect(port.sent).to.have.lengthOf(1);
+
+    });
+
+    it("should reject when the data is not made of complete sysex messages", async function () {
+
+      // Act
+      const err = await rejection(output.sendSysexDump([0xF0, 0x7D, 0x01]));
+
+      // Assert
+      expect(err).to.be.an.instanceof(TypeError);
+      expect(port.sent).to.deep.equal([]);
+
+    });
+
+    it("should reject when the packet size is invalid", async function () {
+
+      // Act
+      const err = await rejection(output.sendSysexDump([0xF0, 0x7D, 0xF7], {packetSize: 0}));
+
+      // Assert
+      expect(err).to.be.an.instanceof(RangeError);
+
+    });
+
+  });
+
+  describe("sendIdentityRequest()", function () {
+
+    it("should send an identity request to all devices by default", function () {
+
+      // Act
+      output.sendIdentityRequest();
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xF0, 0x7E, 0x7F, 0x06, 0x01, 0xF7]]);
+
+    });
+
+    it("should send an identity request to the specified device", function () {
+
+      // Act
+      output.sendIdentityRequest({deviceId: 0x10});
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xF0, 0x7E, 0x10, 0x06, 0x01, 0xF7]]);
+
+    });
+
+    it("should throw when the device ID is invalid", function () {
+
+      // Act
+      const fn = () => output.sendIdentityRequest({deviceId: 128});
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The device ID must be an integer between 0 and 127.");
+
+    });
+
+  });
+
+  describe("requestIdentity()", function () {
+
+    const reply = [
+      0xF0, 0x7E, 0x10, 0x06, 0x02, 0x41, 0x1A, 0x02, 0x03, 0x00, 0x01, 0x02, 0x03, 0x04, 0xF7
+    ];
+
+    it("should resolve with the identity found in the reply", async function () {
+
+      // Arrange
+      const promise = output.requestIdentity(input);
+
+      // Act
+      access.inputs.get("in").receive(reply);
+      const identity = await promise;
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xF0, 0x7E, 0x7F, 0x06, 0x01, 0xF7]]);
+      expect(identity).to.deep.equal({
+        deviceId: 0x10,
+        family: 0x11A,
+        manufacturerId: [0x41],
+        model: 3,
+        version: [1, 2, 3, 4]
+      });
+
+    });
+
+    it("should ignore replies from other devices", async function () {
+
+      // Arrange
+      const promise = output.requestIdentity(input, {deviceId: 0x11});
+      const result = rejection(promise);
+
+      // Act
+      access.inputs.get("in").receive(reply);
+      await clock.tickAsync(1000);
+      const err = await result;
+
+      // Assert
+      expect(err.message).to.equal("No identity reply was received in time.");
+
+    });
+
+    it("should reject when no reply is received in time", async function () {
+
+      // Arrange
+      const result = rejection(output.requestIdentity(input, {timeout: 200}));
+
+      // Act
+      await clock.tickAsync(200);
+      const err = await result;
+
+      // Assert
+      expect(err).to.be.an("error");
+      expect(input.hasListener("identityreply")).to.be.false;
+
+    });
+
+    it("should throw when the input is not an 'Input'", function () {
+
+      // Act
+      const fn = () => output.requestIdentity({});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The input must be of type 'Input'.");
+
+    });
+
+    it("should clean up and reject when the request cannot be sent", async function () {
+
+      // Arrange
+      sinon.stub(output, "sendIdentityRequest").throws(new Error("Port unavailable"));
+
+      // Act
+      const err = await rejection(output.requestIdentity(input));
+
+      // Assert
+      expect(err.message).to.equal("Port unavailable");
+      expect(input.hasListener("identityreply")).to.be.false;
+      expect(clock.countTimers()).to.equal(0);
+
+    });
+
+  });
+
+  describe("sendMmc()", function () {
+
+    it("should send the command by name to all devices by default", function () {
+
+      // Act
+      output.sendMmc("play");
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xF0, 0x7F, 0x7F, 0x06, 0x02, 0xF7]]);
+
+    });
+
+    it("should send the command by number to the specified device", function () {
+
+      // Act
+      output.sendMmc(0x09, [], {deviceId: 0x10});
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xF0, 0x7F, 0x10, 0x06, 0x09, 0xF7]]);
+
+    });
+
+    it("should throw when the command is unknown", function () {
+
+      // Act
+      const fn = () => output.sendMmc("unknown");
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The command must be a valid MMC command name or number.");
+
+    });
+
+    it("should throw when the device ID is invalid", function () {
+
+      // Act
+      const fn = () => output.sendMmcStop({deviceId: 128});
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The device ID must be an integer between 0 and 127.");
+
+    });
+
+  });
+
+  describe("sendMmcLocate()", function () {
+
+    it("should send a locate command with the target position", function () {
+
+      // Act
+      output.sendMmcLocate({hours: 1, minutes: 2, seconds: 3, frames: 4, frameRate: 25});
+
+      // Assert
+      expect(sent(port)).to.deep.equal([
+        [0xF0, 0x7F, 0x7F, 0x06, 0x44, 0x06, 0x01, (1 << 5) + 1, 2, 3, 4, 0x00, 0xF7]
+      ]);
+
+    });
+
+    it("should throw when the frame rate is not supported", function () {
+
+      // Act
+      const fn = () => output.sendMmcLocate(
+        {hours: 0, minutes: 0, seconds: 0, frames: 0, frameRate: 60}
+      );
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The frame rate must be 24, 25, 29.97 or 30.");
+
+    });
+
+  });
+
+  describe("sendMmcTrackArm()", function () {
+
+    it("should send the tracks in the record ready bitmap", function () {
+
+      // Act
+      output.sendMmcTrackArm([1, 3]);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([
+        [0xF0, 0x7F, 0x7F, 0x06, 0x40, 0x04, 0x4F, 0x02, 0x20, 0x01, 0xF7]
+      ]);
+
+    });
+
+    it("should throw when a track number is invalid", function () {
+
+      // Act
+      const fn = () => output.sendMmcTrackArm(0);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "Track numbers must be positive integers.");
+
+    });
+
+  });
+
+  describe("panic()", function () {
+
+    it("should only silence the channels that have been used", function () {
+
+      // Arrange
+      output.channels[1].sendNoteOn(60, {});
+      output.channels[3].sendControlChange(7, 100, {});
+      port.clearSent();
+
+      // Act
+      output.panic();
+
+      // Assert
+      expect(sent(port)).to.deep.equal([
+        [0x80, 60, 0], [0xB0, 120, 0], [0xB0, 123, 0], [0xB0, 121, 0],
+        [0xB2, 120, 0], [0xB2, 123, 0], [0xB2, 121, 0]
+      ]);
+
+    });
+
+    it("should clear the messages waiting in the scheduler", function () {
+
+      // Arrange
+      output.channels[1].sendControlChange(7, 100, {});
+      output.channels[1].sendNoteOn(60, {time: "+1000"});
+      port.clearSent();
+
+      // Act
+      output.panic();
+      clock.tick(2000);
+
+      // Assert
+      expect(sent(port).filter(data => data[0] === 0x90)).to.deep.equal([]);
+
+    });
+
+  });
+
+  describe("close()", function () {
+
+    it("should silence the device before closing the port", async function () {
+
+      // Arrange
+      output.channels[1].sendNoteOn(60, {});
+      port.clearSent();
+
+      // Act
+      await output.close();
+
+      // Assert
+      expect(sent(port)).to.deep.equal([
+        [0x80, 60, 0], [0xB0, 120, 0], [0xB0, 123, 0], [0xB0, 121, 0]
+      ]);
+      expect(output.connection).to.equal("closed");
+
+    });
+
+  });
+
+  describe("page hide", function () {
+
+    it("should silence the open outputs even when one of them fails", async function () {
+
+      // Arrange
+      access.createOutput({id: "other", name: "Other"});
+      access.createOutput({id: "closed", name: "Closed"});
+      const other = await wm.getOutputById("other").open();
+      const closed = wm.getOutputById("closed");
+      await closed.close();
+      sinon.stub(output, "panic").throws(new Error("Port unavailable"));
+      const spies = [sinon.spy(other, "panic"), sinon.spy(closed, "panic")];
+      const warn = sinon.stub(console, "warn");
+
+      // Act
+      wm._pageHideListener();
+      warn.restore();
+
+      // Assert
+      expect(spies.map(spy => spy.callCount)).to.deep.equal([1, 0]);
+      expect(warn.calledOnce).to.be.true;
+
+    });
+
+  });
+
+});
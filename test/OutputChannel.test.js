@@ -0,0 +1,284 @@
+const expect = require("chai").expect;
+const {openVirtualOutput, sent} = require("./support/virtual.js");
+
+describe("OutputChannel Object", function() {
+
+  let channel, port;
+
+  beforeEach("Open a virtual output", async function () {
+    let output;
+    ({output, port} = await openVirtualOutput());
+    channel = output.channels[1];
+  });
+
+  describe("sendControlChange14()", function () {
+
+    it("should send the MSB followed by the LSB", function () {
+
+      // Act
+      channel.sendControlChange14(1, 1000, {rawValue: true});
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xB0, 1, 7], [0xB0, 33, 104]]);
+
+    });
+
+    it("should accept a controller name and a float value", function () {
+
+      // Act
+      channel.sendControlChange14("volumecoarse", 1);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xB0, 7, 127], [0xB0, 39, 127]]);
+
+    });
+
+    it("should only send the LSB when asked to suppress a redundant MSB", function () {
+
+      // Arrange
+      channel.sendControlChange14(1, 1000, {rawValue: true});
+      port.clearSent();
+
+      // Act
+      channel.sendControlChange14(1, 1001, {rawValue: true, suppressRedundantMsb: true});
+      channel.sendControlChange14(1, 2000, {rawValue: true, suppressRedundantMsb: true});
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xB0, 33, 105], [0xB0, 1, 15], [0xB0, 33, 80]]);
+
+    });
+
+    it("should throw when the controller is not between 0 and 31", function () {
+
+      // Act
+      const fn = () => channel.sendControlChange14(32, 0.5);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "an integer between 0 and 31");
+
+    });
+
+    it("should throw when the raw value is invalid", function () {
+
+      // Act
+      const fn = () => channel.sendControlChange14(1, 16384, {rawValue: true});
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The raw value must be an integer between 0 and 16383.");
+
+    });
+
+    it("should throw when the value is invalid", function () {
+
+      // Act
+      const fn = () => channel.sendControlChange14(1, 1.5);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The value must be a float between 0 and 1.");
+
+    });
+
+  });
+
+  describe("snapshot()", function () {
+
+    it("should mirror the messages sent on the channel", function () {
+
+      // Arrange
+      channel.sendControlChange(0, 1, {});
+      channel.sendProgramChange(5, {});
+      channel.sendControlChange(7, 100, {});
+      channel.sendPitchBend([0x60, 0x00], {rawValue: true});
+
+      // Act
+      const snapshot = channel.snapshot();
+
+      // Assert
+      expect(snapshot.controllers[7]).to.equal(100);
+      expect(snapshot.program).to.deep.equal({number: 5, bankMsb: 1, bankLsb: null});
+      expect(snapshot.pitchBend).to.equal(0x3000);
+
+    });
+
+    it("should hold the note numbers as they were sent", function () {
+
+      // Arrange
+      channel._octaveOffset = 1;
+
+      // Act
+      channel.sendNoteOn(60, {rawAttack: 100});
+      const snapshot = channel.snapshot();
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x90, 72, 100]]);
+      expect(snapshot.notes[72]).to.equal(100);
+      expect(snapshot.notes[60]).to.be.null;
+
+    });
+
+    it("should not include the scheduled messages cleared before being sent", function () {
+
+      // Arrange
+      channel.sendControlChange(7, 100, {});
+      channel.sendControlChange(7, 50, {time: "+1000"});
+      channel.sendProgramChange(5, {time: "+1000"});
+
+      // Act
+      channel.output.clear();
+      const snapshot = channel.snapshot();
+
+      // Assert
+      expect(snapshot.controllers[7]).to.equal(100);
+      expect(snapshot.program).to.be.null;
+
+    });
+
+    it("should return a copy of the state", function () {
+
+      // Arrange
+      channel.sendControlChange(7, 100, {});
+      const snapshot = channel.snapshot();
+
+      // Act
+      snapshot.controllers[7] = 0;
+
+      // Assert
+      expect(channel.snapshot().controllers[7]).to.equal(100);
+
+    });
+
+  });
+
+  describe("restore()", function () {
+
+    it("should only send the messages needed to go back to the snapshot", function () {
+
+      // Arrange
+      channel.sendControlChange(0, 1, {});
+      channel.sendProgramChange(5, {});
+      channel.sendControlChange(7, 100, {});
+      channel.sendControlChange(10, 64, {});
+      const snapshot = channel.snapshot();
+      channel.sendControlChange(7, 50, {});
+      port.clearSent();
+
+      // Act
+      channel.restore(snapshot);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xB0, 7, 100]]);
+
+    });
+
+    it("should send the program with its bank and the controllers after a reset", function () {
+
+      // Arrange
+      channel.sendControlChange(0, 1, {});
+      channel.sendProgramChange(5, {});
+      channel.sendControlChange(7, 100, {});
+      const snapshot = channel.snapshot();
+      channel.resetState();
+      port.clearSent();
+
+      // Act
+      channel.restore(snapshot);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0xB0, 0, 1], [0xC0, 5], [0xB0, 7, 100]]);
+
+    });
+
+    it("should send the mirrored note numbers as is", function () {
+
+      // Arrange
+      channel._octaveOffset = 1;
+      channel.sendNoteOn(60, {rawAttack: 100});
+      const snapshot = channel.snapshot();
+      channel.sendNoteOff(60, {});
+      port.clearSent();
+
+      // Act
+      channel.restore(snapshot);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x90, 72, 100]]);
+
+    });
+
+    it("should turn off the notes that are not in the snapshot", function () {
+
+      // Arrange
+      channel._octaveOffset = -1;
+      const snapshot = channel.snapshot();
+      channel.sendNoteOn(60, {});
+      port.clearSent();
+
+      // Act
+      channel.restore(snapshot);
+
+      // Assert
+      expect(sent(port)).to.deep.equal([[0x80, 48, 64]]);
+      expect(channel.snapshot().notes[48]).to.be.null;
+
+    });
+
+    it("should throw when the snapshot is invalid", function () {
+
+      // Act
+      const fn = () => channel.restore({});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The snapshot must be an object returned by snapshot().");
+
+    });
+
+  });
+
+  describe("panic()", function () {
+
+    it("should stop the hanging notes as they were sent before resetting the channel", function () {
+
+      // Arrange
+      channel._octaveOffset = 1;
+      channel.sendNoteOn(60, {});
+      channel.sendNoteOn(62, {});
+      channel.sendNoteOff(62, {});
+      const hanging = channel.hangingNotes;
+      port.clearSent();
+
+      // Act
+      channel.panic();
+
+      // Assert
+      expect(hanging).to.deep.equal([72]);
+      expect(sent(port)).to.deep.equal([
+        [0x80, 72, 0],
+        [0xB0, 120, 0],
+        [0xB0, 123, 0],
+        [0xB0, 121, 0]
+      ]);
+      expect(channel.hangingNotes).to.deep.equal([]);
+
+    });
+
+  });
+
+  describe("hangingNotes", function () {
+
+    it("should not include the notes cleared before being sent", function () {
+
+      // Arrange
+      channel.sendNoteOn(60, {time: "+1000"});
+
+      // Act
+      channel.output.clear();
+
+      // Assert
+      expect(channel.hangingNotes).to.deep.equal([]);
+      expect(channel.used).to.be.false;
+
+    });
+
+  });
+
+});
@@ -0,0 +1,374 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {openVirtualOutput, sent, sentWithTimestamps} = require("./support/virtual.js");
+const {Message} = require("../typescript/dist/Message.js");
+const {MidiFile} = require("../typescript/dist/MidiFile.js");
+const {Player} = require("../typescript/dist/Player.js");
+
+describe("Player Object", function() {
+
+  let clock, output, port;
+
+  beforeEach("Open a virtual output", async function () {
+    ({output, port} = await openVirtualOutput());
+    clock = sinon.useFakeTimers();
+    clock.tick(1000);
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  // Creates a sequence event
+  function event(time, data, track = 0) {
+    return {message: new Message(new Uint8Array(data)), time, track};
+  }
+
+  const sequence = [
+    event(0, [0x90, 60, 100]),
+    event(50, [0x91, 64, 100]),
+    event(500, [0x80, 60, 0]),
+    event(500, [0x81, 64, 0]),
+    event(1000, [0x90, 62, 100])
+  ];
+
+  describe("constructor()", function () {
+
+    it("should throw when the output is not an 'Output'", function () {
+
+      // Act
+      const fn = () => new Player({});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The output must be of type 'Output'.");
+
+    });
+
+    it("should load the messages of a 'MidiFile'", function () {
+
+      // Arrange
+      const file = MidiFile.parse(new Uint8Array([
+        0x4D, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xE0,
+        0x4D, 0x54, 0x72, 0x6B, 0, 0, 0, 13,
+        0, 0x90, 60, 100,
+        0x83, 0x60, 0x80, 60, 0,
+        0, 0xFF, 0x2F, 0
+      ]));
+
+      // Act
+      const player = new Player(output, file);
+
+      // Assert
+      expect(player.duration).to.equal(500);
+      expect(player.state).to.equal("stopped");
+
+    });
+
+  });
+
+  describe("play()", function () {
+
+    it("should only send the messages within the lookahead window", function () {
+
+      // Arrange
+      const player = new Player(output, sequence);
+
+      // Act
+      player.play();
+
+      // Assert
+      expect(player.state).to.equal("playing");
+      expect(sentWithTimestamps(port)).to.deep.equal([
+        [[0x90, 60, 100], 1000],
+        [[0x91, 64, 100], 1050]
+      ]);
+
+    });
+
+    it("should send the following messages as time passes", function () {
+
+      // Arrange
+      const player = new Player(output, sequence).play();
+      port.clearSent();
+
+      // Act
+      clock.tick(450);
+
+      // Assert
+      expect(sentWithTimestamps(port)).to.deep.equal([
+        [[0x80, 60, 0], 1500],
+        [[0x81, 64, 0], 1500]
+      ]);
+      expect(player.position).to.equal(450);
+
+    });
+
+    it("should emit 'end' and stop at the end of the sequence", function () {
+
+      // Arrange
+      const player = new Player(output, sequence);
+      const types = [];
+      ["play", "end", "stop"].forEach(type => {
+        player.addListener(type, e => types.push(e.type), {});
+      });
+
+      // Act
+      player.play();
+      clock.tick(1100);
+
+      // Assert
+      expect(types).to.deep.equal(["play", "end", "stop"]);
+      expect(player.state).to.equal("stopped");
+      expect(player.position).to.equal(0);
+
+    });
+
+  });
+
+  describe("stop()", function () {
+
+    it("should never send a note off before the note on of the same key", function () {
+
+      // Arrange
+      const player = new Player(output, sequence).play();
+      clock.tick(10);
+      port.clearSent();
+
+      // Act
+      player.stop();
+
+      // Assert
+      expect(sentWithTimestamps(port).slice(0, 2)).to.deep.equal([
+        [[0x80, 60, 0], 1010],
+        [[0x81, 64, 0], 1050]
+      ]);
+
+    });
+
+    it("should reset the used channels after the last note off", function () {
+
+      // Arrange
+      const player = new Player(output, sequence).play();
+      clock.tick(10);
+      port.clearSent();
+
+      // Act
+      player.stop();
+
+      // Assert
+      expect(sentWithTimestamps(port).slice(2)).to.deep.equal([
+        [[0xB0, 123, 0], 1050],
+        [[0xB1, 123, 0], 1050],
+        [[0xB0, 121, 0], 1050],
+        [[0xB1, 121, 0], 1050]
+      ]);
+
+    });
+
+    it("should not send note offs for notes that have already been released", function () {
+
+      // Arrange
+      const player = new Player(output, sequence).play();
+      clock.tick(600);
+      port.clearSent();
+
+      // Act
+      player.stop();
+
+      // Assert
+      expect(sentWithTimestamps(port).map(s => s[0][1])).to.deep.equal([123, 123, 121, 121]);
+
+    });
+
+    it("should only cancel the messages of the sequence held by the output", function () {
+
+      // Arrange
+      const player = new Player(output, sequence, {lookahead: 600}).play();
+      output.send([0x9F, 72, 100], {time: 1500});
+      clock.tick(10);
+
+      // Act
+      player.stop();
+      clock.tick(1000);
+
+      // Assert
+      expect(sentWithTimestamps(port).filter(s => s[1] === 1500)).to.deep.equal([
+        [[0x9F, 72, 100], 1500]
+      ]);
+
+    });
+
+  });
+
+  describe("pause()", function () {
+
+    it("should release the sounding notes and resume from the same position", function () {
+
+      // Arrange
+      const player = new Player(output, sequence).play();
+      clock.tick(100);
+      port.clearSent();
+
+      // Act
+      player.pause();
+      const released = sentWithTimestamps(port);
+      port.clearSent();
+      clock.tick(1000);
+      player.play();
+      clock.tick(400);
+
+      // Assert
+      expect(released).to.deep.equal([[[0x80, 60, 0], 1100], [[0x81, 64, 0], 1100]]);
+      expect(player.position).to.equal(500);
+      expect(sentWithTimestamps(port)).to.deep.equal([]);
+
+    });
+
+  });
+
+  describe("seek()", function () {
+
+    it("should throw when the position is negative", function () {
+
+      // Arrange
+      const player = new Player(output, sequence);
+
+      // Act
+      const fn = () => player.seek(-1);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The position must be a positive number.");
+
+    });
+
+    it("should continue playing from the new position", function () {
+
+      // Arrange
+      const player = new Player(output, sequence).play();
+      port.clearSent();
+      let position;
+      player.addListener("seek", e => position = e.position, {});
+
+      // Act
+      player.seek(950);
+
+      // Assert
+      expect(position).to.equal(950);
+      expect(sentWithTimestamps(port).slice(-1)).to.deep.equal([[[0x90, 62, 100], 1050]]);
+
+    });
+
+  });
+
+  describe("setLoop()", function () {
+
+    it("should throw when the end is not after the start", function () {
+
+      // Arrange
+      const player = new Player(output, sequence);
+
+      // Act
+      const fn = () => player.setLoop(100, 100);
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The loop end must be greater than the loop start.");
+
+    });
+
+    it("should jump back to the beginning of the loop", function () {
+
+      // Arrange
+      const player = new Player(output, sequence).setLoop(0, 200);
+      const loops = [];
+      player.addListener("loop", e => loops.push(e.timestamp), {});
+
+      // Act
+      player.play();
+      clock.tick(350);
+
+      // Assert
+      expect(loops).to.deep.equal([1200, 1400]);
+      expect(player.position).to.equal(150);
+      expect(sentWithTimestamps(port).filter(s => s[0][0] === 0x90).map(s => s[1])).to.deep.equal(
+        [1000, 1200, 1400]
+      );
+
+    });
+
+  });
+
+  describe("setMute()", function () {
+
+    it("should not send the messages of muted tracks", function () {
+
+      // Arrange
+      const player = new Player(output, [
+        event(0, [0x90, 60, 100], 0),
+        event(0, [0x91, 64, 100], 1)
+      ]);
+
+      // Act
+      player.setMute(1).play();
+
+      // Assert
+      const notes = sent(port).filter(data => data[0] >> 4 === 9);
+      expect(notes.map(data => data[0])).to.deep.equal([0x90]);
+
+    });
+
+  });
+
+  describe("setSolo()", function () {
+
+    it("should only send the messages of soloed tracks", function () {
+
+      // Arrange
+      const player = new Player(output, [
+        event(0, [0x90, 60, 100], 0),
+        event(0, [0x91, 64, 100], 1),
+        event(0, [0x92, 67, 100], 2)
+      ]);
+
+      // Act
+      player.setSolo(2).play();
+
+      // Assert
+      const notes = sent(port).filter(data => data[0] >> 4 === 9);
+      expect(notes.map(data => data[0])).to.deep.equal([0x92]);
+
+    });
+
+  });
+
+  describe("tempo", function () {
+
+    it("should scale the time of the messages", function () {
+
+      // Arrange
+      const player = new Player(output, sequence);
+
+      // Act
+      player.tempo = 2;
+      player.play();
+
+      // Assert
+      expect(sentWithTimestamps(port).map(s => s[1])).to.deep.equal([1000, 1025]);
+
+    });
+
+    it("should throw when the tempo is not greater than 0", function () {
+
+      // Arrange
+      const player = new Player(output, sequence);
+
+      // Act
+      const fn = () => player.tempo = 0;
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The tempo must be a number greater than 0.");
+
+    });
+
+  });
+
+});
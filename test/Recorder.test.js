@@ -0,0 +1,297 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {openVirtualLoopback} = require("./support/virtual.js");
+const {Recorder} = require("../typescript/dist/Recorder.js");
+const {MidiFile} = require("../typescript/dist/MidiFile.js");
+
+describe("Recorder Object", function() {
+
+  let access, clock, input, output, wm;
+
+  beforeEach("Open a virtual loopback", async function () {
+    ({access, input, output, wm} = await openVirtualLoopback({sysex: true}));
+    access.createLoopback({id: "other", name: "Other"});
+    clock = sinon.useFakeTimers();
+    clock.tick(1000);
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  // Sends a message through the loopback after waiting for the specified number of milliseconds
+  function play(wait, data) {
+    clock.tick(wait);
+    output.send(data, {});
+  }
+
+  // Returns the position and bytes of each captured message
+  function summarize(recorder) {
+    return recorder.events.map(e => [e.time, Array.from(e.message.rawData)]);
+  }
+
+  describe("constructor()", function () {
+
+    it("should throw when a type is invalid", function () {
+
+      // Act
+      const fn = () => new Recorder(input, {types: "bogus"});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "Type must be a valid message type.");
+
+    });
+
+    it("should throw when a channel is invalid", function () {
+
+      // Act
+      const fn = () => new Recorder(input, {channels: [0]});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "MIDI channel must be between 1 and 16.");
+
+    });
+
+    it("should throw when an input is not an 'Input'", function () {
+
+      // Act
+      const fn = () => new Recorder([{}]);
+
+      // Assert
+      expect(fn).to.throw(TypeError, "Inputs must be of type 'Input'.");
+
+    });
+
+  });
+
+  describe("start()", function () {
+
+    it("should capture messages with their position in the session", function () {
+
+      // Arrange
+      const recorder = new Recorder(input);
+      play(0, [0x90, 60, 100]);
+
+      // Act
+      recorder.start();
+      play(100, [0x90, 62, 100]);
+      play(50, [0x80, 62, 64]);
+
+      // Assert
+      expect(recorder.recording).to.be.true;
+      expect(summarize(recorder)).to.deep.equal([
+        [100, [0x90, 62, 100]],
+        [150, [0x80, 62, 64]]
+      ]);
+      expect(recorder.events[0].input).to.equal(input);
+      expect(recorder.events[0].timestamp).to.equal(1100);
+
+    });
+
+    it("should only capture the specified types and channels", function () {
+
+      // Arrange
+      const recorder = new Recorder(input, {types: ["noteon"], channels: 2});
+
+      // Act
+      recorder.start();
+      play(10, [0x90, 60, 100]);
+      play(10, [0x91, 61, 100]);
+      play(10, [0xB1, 7, 100]);
+      play(10, [0xF8]);
+
+      // Assert
+      expect(summarize(recorder)).to.deep.equal([[20, [0x91, 61, 100]]]);
+
+    });
+
+    it("should discard the messages of the previous session", function () {
+
+      // Arrange
+      const recorder = new Recorder(input).start();
+      play(10, [0x90, 60, 100]);
+      recorder.stop();
+
+      // Act
+      recorder.start();
+      play(10, [0x90, 62, 100]);
+
+      // Assert
+      expect(summarize(recorder)).to.deep.equal([[10, [0x90, 62, 100]]]);
+
+    });
+
+  });
+
+  describe("stop()", function () {
+
+    it("should stop capturing messages and keep the captured ones", function () {
+
+      // Arrange
+      const recorder = new Recorder(input).start();
+      play(10, [0x90, 60, 100]);
+
+      // Act
+      recorder.stop();
+      play(10, [0x80, 60, 64]);
+
+      // Assert
+      expect(recorder.recording).to.be.false;
+      expect(summarize(recorder)).to.deep.equal([[10, [0x90, 60, 100]]]);
+      expect(recorder.position).to.equal(20);
+
+    });
+
+  });
+
+  describe("punchIn()", function () {
+
+    it("should throw when no session has been started", function () {
+
+      // Arrange
+      const recorder = new Recorder(input);
+
+      // Act
+      const fn = () => recorder.punchIn();
+
+      // Assert
+      expect(fn).to.throw(Error, "A session must be started before punching in.");
+
+    });
+
+    it("should throw when the punch-out point is not after the punch-in point", function () {
+
+      // Arrange
+      const recorder = new Recorder(input).start();
+
+      // Act
+      const fn = () => recorder.punchIn({from: 100, to: 100});
+
+      // Assert
+      expect(fn).to.throw(RangeError);
+
+    });
+
+    it("should replace the messages recorded between the punch points", function () {
+
+      // Arrange
+      const recorder = new Recorder(input).start();
+      play(0, [0x90, 60, 100]);
+      play(100, [0x90, 61, 100]);
+      play(100, [0x90, 62, 100]);
+      play(100, [0x90, 63, 100]);
+      recorder.stop();
+
+      // Act
+      recorder.punchIn({from: 350, to: 500});
+      play(0, [0x90, 70, 100]);     // 300: before the punch-in point
+      play(100, [0x90, 71, 100]);   // 400
+      play(150, [0x90, 72, 100]);   // 550: after the punch-out point
+
+      // Assert
+      expect(recorder.recording).to.be.false;
+      expect(summarize(recorder)).to.deep.equal([
+        [0, [0x90, 60, 100]],
+        [100, [0x90, 61, 100]],
+        [200, [0x90, 62, 100]],
+        [300, [0x90, 63, 100]],
+        [400, [0x90, 71, 100]]
+      ]);
+
+    });
+
+    it("should only replace the region up to the current position", function () {
+
+      // Arrange
+      const recorder = new Recorder(input).start();
+      play(100, [0x90, 60, 100]);
+      play(100, [0x90, 61, 100]);
+      play(100, [0x90, 62, 100]);
+      recorder.stop();
+
+      // Act
+      recorder.punchIn({from: 150});
+      play(50, [0x90, 70, 100]);
+      clock.tick(10);
+      recorder.punchOut();
+
+      // Assert
+      expect(summarize(recorder)).to.deep.equal([
+        [100, [0x90, 60, 100]],
+        [350, [0x90, 70, 100]]
+      ]);
+
+    });
+
+  });
+
+  describe("removeInput()", function () {
+
+    it("should stop capturing messages from the input", function () {
+
+      // Arrange
+      const recorder = new Recorder(input).start();
+
+      // Act
+      recorder.removeInput(input);
+      play(10, [0x90, 60, 100]);
+
+      // Assert
+      expect(recorder.inputs).to.deep.equal([]);
+      expect(recorder.events).to.deep.equal([]);
+
+    });
+
+  });
+
+  describe("toMidiFile()", function () {
+
+    it("should convert positions to ticks in a track named after the input", function () {
+
+      // Arrange
+      const recorder = new Recorder(input).start();
+      play(0, [0x90, 60, 100]);
+      play(500, [0x80, 60, 64]);
+      recorder.stop();
+
+      // Act
+      const file = MidiFile.parse(
+        recorder.toUint8Array({ticksPerQuarterNote: 96, tempo: 60})
+      );
+
+      // Assert
+      const events = file.tracks[0].events;
+      expect(file.ticksPerQuarterNote).to.equal(96);
+      expect(file.tracks[0].name).to.equal("Loopback");
+      expect(file.getTempoMap()).to.deep.equal([{tick: 0, tempo: 1000000, time: 0}]);
+      expect(events.filter(e => e.message).map(e => [e.tick, e.type])).to.deep.equal([
+        [0, "noteon"],
+        [48, "noteoff"]
+      ]);
+
+    });
+
+    it("should merge all inputs with format 0", async function () {
+
+      // Arrange
+      const other = await wm.getInputById("other-in").open();
+      const recorder = new Recorder([input, other]).start();
+      play(0, [0x90, 60, 100]);
+      access.inputs.get("other-in").receive([0x91, 64, 100], 1250);
+
+      // Act
+      const file = recorder.toMidiFile({format: 0});
+      const merged = MidiFile.parse(file.toUint8Array());
+
+      // Assert
+      expect(file.tracks).to.have.lengthOf(2);
+      expect(merged.tracks).to.have.lengthOf(1);
+      expect(merged.tracks[0].events.filter(e => e.message).map(e => e.tick)).to.deep.equal(
+        [0, 240]
+      );
+
+    });
+
+  });
+
+});
@@ -0,0 +1,317 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {openVirtualOutput} = require("./support/virtual.js");
+const {Scheduler} = require("../typescript/dist/Scheduler.js");
+
+describe("Scheduler Object", function() {
+
+  let clock;
+
+  beforeEach("Use fake timers", function () {
+    clock = sinon.useFakeTimers();
+    clock.tick(1000);
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  describe("schedule()", function () {
+
+    it("should execute operations within the lookahead window immediately", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const timestamps = [];
+
+      // Act
+      scheduler.schedule(t => timestamps.push(t));
+      scheduler.schedule(t => timestamps.push(t), 1100);
+
+      // Assert
+      expect(timestamps).to.deep.equal([undefined, 1100]);
+      expect(scheduler.pending).to.equal(0);
+
+    });
+
+    it("should hold far-future operations until they enter the lookahead window", function () {
+
+      // Arrange
+      const scheduler = new Scheduler({lookahead: 50});
+      const timestamps = [];
+
+      // Act
+      scheduler.schedule(t => timestamps.push(t), 1300);
+      scheduler.schedule(t => timestamps.push(t), 1200);
+      clock.tick(149);
+      const before = timestamps.slice();
+      clock.tick(1);
+
+      // Assert
+      expect(before).to.deep.equal([]);
+      expect(timestamps).to.deep.equal([1200]);
+      expect(scheduler.pending).to.equal(1);
+
+    });
+
+    it("should keep the scheduling order of operations sharing a timestamp", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const order = [];
+
+      // Act
+      scheduler.schedule(() => order.push(1), 2000);
+      scheduler.schedule(() => order.push(2), 2000);
+      scheduler.schedule(() => order.push(3), 1500);
+      clock.tick(1000);
+
+      // Assert
+      expect(order).to.deep.equal([3, 1, 2]);
+
+    });
+
+    it("should release everything immediately when the lookahead is 'Infinity'", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      scheduler.lookahead = Infinity;
+      const timestamps = [];
+
+      // Act
+      scheduler.schedule(t => timestamps.push(t), 100000);
+
+      // Assert
+      expect(timestamps).to.deep.equal([100000]);
+
+    });
+
+  });
+
+  describe("cancel()", function () {
+
+    it("should remove the operation from the queue", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const callback = sinon.spy();
+      const id = scheduler.schedule(callback, 2000);
+
+      // Act
+      const result = scheduler.cancel(id);
+      clock.tick(2000);
+
+      // Assert
+      expect(result).to.be.true;
+      expect(callback.called).to.be.false;
+      expect(scheduler.cancel(id)).to.be.false;
+
+    });
+
+  });
+
+  describe("clear()", function () {
+
+    it("should remove all operations from the queue", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const callback = sinon.spy();
+      scheduler.schedule(callback, 2000);
+      scheduler.schedule(callback, 3000);
+
+      // Act
+      scheduler.clear();
+      clock.tick(3000);
+
+      // Assert
+      expect(scheduler.pending).to.equal(0);
+      expect(callback.called).to.be.false;
+
+    });
+
+  });
+
+  describe("flush()", function () {
+
+    it("should execute all queued operations with their own timestamp", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const timestamps = [];
+      scheduler.schedule(t => timestamps.push(t), 3000);
+      scheduler.schedule(t => timestamps.push(t), 2000);
+
+      // Act
+      scheduler.flush();
+
+      // Assert
+      expect(timestamps).to.deep.equal([2000, 3000]);
+      expect(scheduler.pending).to.equal(0);
+
+    });
+
+  });
+
+  describe("reschedule()", function () {
+
+    it("should move the operation to its new timestamp", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const timestamps = [];
+      const id = scheduler.schedule(t => timestamps.push(t), 3000);
+
+      // Act
+      const result = scheduler.reschedule(id, 1500);
+      clock.tick(400);
+
+      // Assert
+      expect(result).to.be.true;
+      expect(timestamps).to.deep.equal([1500]);
+
+    });
+
+    it("should execute the operation right away when it enters the lookahead window", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const timestamps = [];
+      const id = scheduler.schedule(t => timestamps.push(t), 3000);
+
+      // Act
+      scheduler.reschedule(id, 1050);
+
+      // Assert
+      expect(timestamps).to.deep.equal([1050]);
+
+    });
+
+    it("should return false when the operation is not in the queue", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+
+      // Act
+      const result = scheduler.reschedule(123, 2000);
+
+      // Assert
+      expect(result).to.be.false;
+
+    });
+
+  });
+
+  describe("error event", function () {
+
+    it("should be emitted without preventing the other operations from executing", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const error = new Error("Failed");
+      const errors = [];
+      const timestamps = [];
+      scheduler.addListener("error", e => errors.push(e), {});
+      scheduler.schedule(() => { throw error; }, 2000);
+      scheduler.schedule(t => timestamps.push(t), 2000);
+
+      // Act
+      clock.tick(1000);
+
+      // Assert
+      expect(errors).to.have.lengthOf(1);
+      expect(errors[0].error).to.equal(error);
+      expect(errors[0].target).to.equal(scheduler);
+      expect(errors[0].type).to.equal("error");
+      expect(timestamps).to.deep.equal([2000]);
+
+    });
+
+    it("should be emitted when flushing the queue", function () {
+
+      // Arrange
+      const scheduler = new Scheduler();
+      const errors = [];
+      const callback = sinon.spy();
+      scheduler.addListener("error", e => errors.push(e), {});
+      scheduler.schedule(() => { throw new Error("Failed"); }, 2000);
+      scheduler.schedule(callback, 3000);
+
+      // Act
+      scheduler.flush();
+
+      // Assert
+      expect(errors).to.have.lengthOf(1);
+      expect(callback.calledOnce).to.be.true;
+
+    });
+
+  });
+
+});
+
+describe("Output Object (scheduling)", function() {
+
+  let clock, output, port;
+
+  beforeEach("Open a virtual output", async function () {
+    ({output, port} = await openVirtualOutput());
+    clock = sinon.useFakeTimers();
+    clock.tick(1000);
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  it("should only pass messages to the port when they enter the lookahead window", function () {
+
+    // Act
+    output.send([0x90, 60, 100], {time: 5000});
+    const before = port.sent.length;
+    clock.tick(3900);
+
+    // Assert
+    expect(before).to.equal(0);
+    expect(output.scheduler.pending).to.equal(0);
+    expect(port.sent.map(s => s.timestamp)).to.deep.equal([5000]);
+
+  });
+
+  it("should cancel held messages when cleared", function () {
+
+    // Arrange
+    output.send([0x90, 60, 100], {time: 5000});
+
+    // Act
+    output.clear();
+    clock.tick(5000);
+
+    // Assert
+    expect(port.sent).to.deep.equal([]);
+
+  });
+
+  it("should emit 'error' when a held message cannot be sent", function () {
+
+    // Arrange
+    const errors = [];
+    output.addListener("error", e => errors.push(e), {});
+    output.send([0x90, 60, 100], {time: 2000});
+    output.send([0x90, 62, 100], {time: 2000});
+    const send = sinon.stub(port, "send");
+    send.onFirstCall().throws(new Error("Failed"));
+
+    // Act
+    clock.tick(1000);
+
+    // Assert
+    expect(errors).to.have.lengthOf(1);
+    expect(errors[0].error.message).to.equal("Failed");
+    expect(errors[0].port).to.equal(output);
+    expect(errors[0].target).to.equal(output);
+    expect(send.callCount).to.equal(2);
+
+  });
+
+});
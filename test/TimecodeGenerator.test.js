@@ -0,0 +1,202 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {openVirtualLoopback, sentWithTimestamps} = require("./support/virtual.js");
+const {TimecodeGenerator} = require("../typescript/dist/TimecodeGenerator.js");
+
+describe("TimecodeGenerator Object", function() {
+
+  let clock, input, output, port;
+
+  beforeEach("Open a virtual loopback", async function () {
+    ({input, output, port} = await openVirtualLoopback({sysex: true}));
+    clock = sinon.useFakeTimers();
+    clock.tick(1000);
+  });
+
+  afterEach(function () {
+    clock.restore();
+  });
+
+  describe("constructor()", function () {
+
+    it("should throw when the output is not an 'Output'", function () {
+
+      // Act
+      const fn = () => new TimecodeGenerator({});
+
+      // Assert
+      expect(fn).to.throw(TypeError, "The output must be of type 'Output'.");
+
+    });
+
+    it("should throw when the frame rate is not supported", function () {
+
+      // Act
+      const fn = () => new TimecodeGenerator(output, {frameRate: 60});
+
+      // Assert
+      expect(fn).to.throw(RangeError, "The frame rate must be 24, 25, 29.97 or 30.");
+
+    });
+
+  });
+
+  describe("locate()", function () {
+
+    it("should send a full frame message", function () {
+
+      // Arrange
+      const generator = new TimecodeGenerator(output, {frameRate: 25});
+
+      // Act
+      generator.locate({hours: 1, minutes: 2, seconds: 3, frames: 4});
+
+      // Assert
+      expect(sentWithTimestamps(port).map(s => s[0])).to.deep.equal(
+        [[0xF0, 0x7F, 0x7F, 0x01, 0x01, (1 << 5) + 1, 2, 3, 4, 0xF7]]
+      );
+      expect(generator.position).to.deep.equal({
+        hours: 1, minutes: 2, seconds: 3, frames: 4, frameRate: 25, dropFrame: false
+      });
+
+    });
+
+    it("should accept a number of frames", function () {
+
+      // Arrange
+      const generator = new TimecodeGenerator(output, {frameRate: 24});
+
+      // Act
+      generator.locate(24 * 61 + 5);
+
+      // Assert
+      expect(generator.position).to.include({hours: 0, minutes: 1, seconds: 1, frames: 5});
+
+    });
+
+    it("should restart the quarter frames after the ones already sent when running", function () {
+
+      // Arrange
+      const generator = new TimecodeGenerator(output, {frameRate: 25, lookahead: 50});
+      generator.start();
+      port.clearSent();
+
+      // Act
+      generator.locate({hours: 0, minutes: 0, seconds: 10, frames: 0});
+      clock.tick(25);
+      generator.stop();
+
+      // Assert
+      expect(sentWithTimestamps(port).map(s => [s[0][0], s[1]])).to.deep.equal([
+        [0xF0, 1060], [0xF1, 1060], [0xF1, 1070]
+      ]);
+      expect(sentWithTimestamps(port)[1][0]).to.deep.equal([0xF1, 0x00]);
+      expect(generator.position).to.include({seconds: 10, frames: 0});
+
+    });
+
+  });
+
+  describe("start()", function () {
+
+    it("should send quarter frames within the lookahead window", function () {
+
+      // Arrange
+      const generator = new TimecodeGenerator(output, {frameRate: 25, lookahead: 50});
+
+      // Act
+      generator.start();
+
+      // Assert
+      expect(generator.running).to.be.true;
+      expect(sentWithTimestamps(port).map(s => s[1])).to.deep.equal([
+        1000, 1010, 1020, 1030, 1040, 1050
+      ]);
+      generator.stop();
+
+    });
+
+    it("should encode the position in the eight pieces of the sequence", function () {
+
+      // Arrange
+      const generator = new TimecodeGenerator(output, {frameRate: 30});
+      generator.locate({hours: 17, minutes: 35, seconds: 42, frames: 27});
+      port.clearSent();
+
+      // Act
+      generator.start();
+      clock.tick(100);
+      generator.stop();
+
+      // Assert
+      expect(sentWithTimestamps(port).slice(0, 8).map(s => s[0])).to.deep.equal([
+        [0xF1, 0x0B], [0xF1, 0x11],
+        [0xF1, 0x2A], [0xF1, 0x32],
+        [0xF1, 0x43], [0xF1, 0x52],
+        [0xF1, 0x61], [0xF1, 0x77]
+      ]);
+
+    });
+
+    it("should let an 'Input' assemble the position", function () {
+
+      // Arrange
+      const generator = new TimecodeGenerator(output, {frameRate: 25});
+      generator.locate({hours: 1, minutes: 0, seconds: 0, frames: 0});
+
+      // Act
+      generator.start();
+      clock.tick(950);
+      generator.stop();
+
+      // Assert
+      // The last sequence started on frame 22 and receivers compensate for its two-frame length
+      expect(input.timecodeLocked).to.be.true;
+      expect(input.timecode).to.deep.equal({
+        hours: 1, minutes: 0, seconds: 0, frames: 24, frameRate: 25, dropFrame: false
+      });
+
+    });
+
+  });
+
+  describe("stop()", function () {
+
+    it("should keep the position reached after the quarter frames already sent", function () {
+
+      // Arrange
+      const generator = new TimecodeGenerator(output, {frameRate: 25});
+      generator.start();
+      clock.tick(1000);
+
+      // Act
+      generator.stop();
+      clock.tick(1000);
+
+      // Assert
+      // Quarter frames were sent up to 50ms ahead, so the position is one frame further
+      expect(generator.running).to.be.false;
+      expect(generator.position).to.include({seconds: 1, frames: 1});
+
+    });
+
+    it("should restart after the quarter frames already sent", function () {
+
+      // Arrange
+      const generator = new TimecodeGenerator(output, {frameRate: 25, lookahead: 50});
+      generator.start().stop();
+      port.clearSent();
+
+      // Act
+      generator.start();
+      clock.tick(25);
+      generator.stop();
+
+      // Assert
+      expect(sentWithTimestamps(port)).to.deep.equal([[[0xF1, 0x01], 1060], [[0xF1, 0x10], 1070]]);
+
+    });
+
+  });
+
+});
@@ -0,0 +1,204 @@
+const expect = require("chai").expect;
+const sinon = require("sinon");
+const {WebMidi} = require("../typescript/dist/WebMidi.js");
+const {VirtualMIDIAccess} = require("../typescript/dist/VirtualMidi.js");
+
+describe("VirtualMIDIAccess Object", function() {
+
+  let access, wm;
+
+  beforeEach("Enable WebMidi.js with a virtual backend", async function () {
+    access = new VirtualMIDIAccess();
+    wm = new WebMidi();
+    access.createInput({id: "in-1", name: "Virtual Input", manufacturer: "Test"});
+    access.createOutput({id: "out-1", name: "Virtual Output"});
+    await wm.enable({requestMIDIAccessFunction: access.requestMIDIAccess, sysex: true});
+  });
+
+  describe("requestMIDIAccess()", function () {
+
+    it("should expose the virtual ports as 'Input' and 'Output' objects", function () {
+      expect(wm.inputs.length).to.equal(1);
+      expect(wm.outputs.length).to.equal(1);
+      expect(wm.getInputById("in-1").name).to.equal("Virtual Input");
+      expect(wm.getInputById("in-1").manufacturer).to.equal("Test");
+      expect(wm.getOutputById("out-1").name).to.equal("Virtual Output");
+    });
+
+    it("should record whether sysex was requested", function () {
+      expect(access.sysexEnabled).to.be.true;
+    });
+
+  });
+
+  describe("createLoopback()", function () {
+
+    let clock, input, output;
+
+    beforeEach(async function () {
+      const ports = access.createLoopback({id: "loop", name: "Loopback"});
+      input = await wm.getInputById(ports.input.id).open();
+      output = await wm.getOutputById(ports.output.id).open();
+      clock = sinon.useFakeTimers();
+      clock.tick(1000);
+    });
+
+    afterEach(function () {
+      clock.restore();
+    });
+
+    it("should create a pair of ports sharing the same name", function () {
+      expect(input.id).to.equal("loop-in");
+      expect(output.id).to.equal("loop-out");
+      expect(input.name).to.equal("Loopback");
+      expect(output.name).to.equal("Loopback");
+    });
+
+    it("should deliver sent messages to the paired 'Input'", function () {
+
+      const notes = [];
+      input.addListener("noteon", e => notes.push(e.note.number), {channels: 3});
+      output.channels[3].sendNoteOn(64, {});
+
+      expect(notes).to.have.ordered.members([64]);
+
+    });
+
+    it("should deliver scheduled messages at the specified time", function () {
+
+      const received = [];
+      input.addListener("midimessage", e => received.push(e.timestamp), {});
+      output.send([0x90, 60, 100], {time: "+50"});
+
+      clock.tick(49);
+      expect(received.length).to.equal(0);
+      clock.tick(1);
+      expect(received).to.have.ordered.members([1050]);
+
+    });
+
+    it("should cancel the scheduled messages when the output is cleared", function () {
+
+      const received = [];
+      input.addListener("midimessage", e => received.push(e), {});
+      output.send([0x90, 60, 100], {time: "+50"});
+      output.clear();
+      clock.tick(100);
+
+      expect(received.length).to.equal(0);
+      expect(access.outputs.get("loop-out").pending).to.equal(0);
+
+    });
+
+  });
+
+  describe("createInput()", function () {
+
+    it("should throw when the id is already used", function () {
+      expect(() => access.createInput({id: "in-1"})).to.throw(Error);
+    });
+
+    it("should trigger 'connected' and 'portschanged' events on WebMidi", function (done) {
+
+      const events = [];
+      wm.addListener("connected", e => events.push(e.type), {});
+      wm.addListener("portschanged", e => {
+        events.push(e.type);
+        expect(events).to.include("connected");
+        expect(wm.getInputById("in-2")).to.not.be.undefined;
+        done();
+      }, {});
+
+      access.createInput({id: "in-2"});
+
+    });
+
+  });
+
+  describe("VirtualMIDIInput.receive()", function () {
+
+    it("should deliver the message to the matching 'Input'", function () {
+
+      const received = [];
+      wm.getInputById("in-1").addListener("midimessage", e => received.push(e), {});
+
+      expect(access.inputs.get("in-1").receive([0x90, 60, 100], 1234)).to.be.true;
+      expect(received.length).to.equal(1);
+      expect(Array.from(received[0].message.rawData)).to.have.ordered.members([0x90, 60, 100]);
+      expect(received[0].timestamp).to.equal(1234);
+
+    });
+
+    it("should not deliver messages when the port is disconnected", function () {
+      const port = access.inputs.get("in-1");
+      port.disconnect();
+      expect(port.receive([0x90, 60, 100])).to.be.false;
+    });
+
+  });
+
+  describe("VirtualMIDIOutput.send()", function () {
+
+    it("should capture the messages sent through the 'Output'", function () {
+
+      const port = access.outputs.get("out-1");
+      wm.getOutputById("out-1").send([0x90, 60, 100], {time: 0});
+
+      expect(port.sent.length).to.equal(1);
+      expect(Array.from(port.sent[0].data)).to.have.ordered.members([0x90, 60, 100]);
+
+      port.clearSent();
+      expect(port.sent.length).to.equal(0);
+
+    });
+
+    it("should throw when the port is disconnected", function () {
+      const port = access.outputs.get("out-1");
+      port.disconnect();
+      expect(() => port.send([0x90, 60, 100])).to.throw(Error);
+    });
+
+  });
+
+  describe("VirtualMIDIPort.disconnect()", function () {
+
+    it("should dispatch state changes in the same order as browsers", function () {
+
+      const port = access.outputs.get("out-1");
+      const states = [];
+      port.onstatechange = e => states.push(e.port.state + "/" + e.port.connection);
+      access.addEventListener("statechange", e => states.push("access:" + e.port.state));
+
+      port.disconnect();
+      port.connect();
+
+      expect(states).to.have.ordered.members([
+        "disconnected/pending", "access:disconnected", "connected/open", "access:connected"
+      ]);
+
+    });
+
+    it("should remove the port from the 'MIDIAccess' maps", function () {
+      access.inputs.get("in-1").disconnect();
+      expect(access.inputs.has("in-1")).to.be.false;
+    });
+
+  });
+
+  describe("VirtualMIDIPort.destroy()", function () {
+
+    it("should close the port and prevent it from being reconnected", async function () {
+
+      const port = access.inputs.get("in-1");
+      await port.destroy();
+
+      expect(port.destroyed).to.be.true;
+      expect(port.state).to.equal("disconnected");
+      expect(port.connection).to.equal("closed");
+      expect(() => port.connect()).to.throw(Error);
+
+    });
+
+  });
+
+});
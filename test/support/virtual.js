@@ -0,0 +1,55 @@
+const {WebMidi} = require("../../typescript/dist/WebMidi.js");
+const {VirtualMIDIAccess} = require("../../typescript/dist/VirtualMidi.js");
+
+// Enables a new WebMidi object backed by a new VirtualMIDIAccess object holding an output (with
+// the "out" id) and an input (with the "in" id), and opens the output
+async function openVirtualOutput(options = {}) {
+  const access = new VirtualMIDIAccess();
+  const wm = new WebMidi();
+  const port = access.createOutput({id: "out", name: "Output"});
+  access.createInput({id: "in", name: "Input"});
+  await wm.enable({requestMIDIAccessFunction: access.requestMIDIAccess, sysex: !!options.sysex});
+  const output = await wm.getOutputById("out").open();
+  return {access, output, port, wm};
+}
+
+// Enables a new WebMidi object backed by a new VirtualMIDIAccess object holding an input (with
+// the "in" id), and opens the input
+async function openVirtualInput(options = {}) {
+  const access = new VirtualMIDIAccess();
+  const wm = new WebMidi();
+  const port = access.createInput({id: "in", name: "Input"});
+  await wm.enable({requestMIDIAccessFunction: access.requestMIDIAccess, sysex: !!options.sysex});
+  const input = await wm.getInputById("in").open();
+  return {access, input, port, wm};
+}
+
+// Enables a new WebMidi object backed by a new VirtualMIDIAccess object holding a loopback pair
+// (with the "loop" id prefix), and opens both ports. The returned port is the virtual output.
+async function openVirtualLoopback(options = {}) {
+  const access = new VirtualMIDIAccess();
+  const wm = new WebMidi();
+  const {output: port} = access.createLoopback({id: "loop", name: "Loopback"});
+  await wm.enable({requestMIDIAccessFunction: access.requestMIDIAccess, sysex: !!options.sysex});
+  const input = await wm.getInputById("loop-in").open();
+  const output = await wm.getOutputById("loop-out").open();
+  return {access, input, output, port, wm};
+}
+
+// Returns the bytes of each message sent to the virtual port
+function sent(port) {
+  return port.sent.map(s => Array.from(s.data));
+}
+
+// Returns the bytes and timestamp of each message sent to the virtual port
+function sentWithTimestamps(port) {
+  return port.sent.map(s => [Array.from(s.data), s.timestamp]);
+}
+
+module.exports = {
+  openVirtualInput,
+  openVirtualLoopback,
+  openVirtualOutput,
+  sent,
+  sentWithTimestamps
+};
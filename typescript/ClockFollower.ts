@@ -0,0 +1,370 @@
+import {Enumerations} from "./Enumerations";
+import {EventEmitter} from "./EventEmitter";
+import {Input} from "./Input";
+import {ClockFollowerEvent, MessageEvent} from "./Interfaces";
+import {Listener} from "./Listener";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * The `ClockFollower` class follows the MIDI clock received by an [`Input`](Input) (usually sent
+ * by a hardware sequencer or a DAW). It estimates the tempo, tracks the song position and emits
+ * events on each beat and bar.
+ *
+ * The tempo is estimated from the average duration of the last clock intervals (see
+ * [`window`](#window)). Intervals that deviate too much from the current estimate (see
+ * [`tolerance`](#tolerance)) are considered jitter and ignored, unless several of them are received
+ * in a row, in which case the tempo is considered to have changed abruptly.
+ *
+ * The song position is moved by **start**, **continue** and **song position** messages and
+ * advances with each clock message received while the transport is playing.
+ *
+ * ```javascript
+ * const follower = new ClockFollower(WebMidi.inputs[0], {beatsPerBar: 3});
+ * follower.addListener("beat", e => console.log(e.bar, e.beat, e.bpm));
+ * ```
+ *
+ * @fires ClockFollower#bar
+ * @fires ClockFollower#beat
+ * @fires ClockFollower#tempochange
+ * @fires ClockFollower#transport
+ *
+ * @extends EventEmitter
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class ClockFollower extends EventEmitter {
+
+  /**
+   * The number of beats (quarter notes) in a bar.
+   * @type {number}
+   */
+  beatsPerBar: number;
+
+  /**
+   * The [`Input`](Input) the clock is received from.
+   * @type {Input}
+   */
+  input: Input;
+
+  /**
+   * The minimum tempo variation (in beats per minute) that triggers a `tempochange` event.
+   * @type {number}
+   */
+  threshold: number;
+
+  /**
+   * The maximum relative deviation of a clock interval from the current estimate (`0.25` means
+   * 25%). Intervals deviating more are ignored as jitter.
+   * @type {number}
+   */
+  tolerance: number;
+
+  /**
+   * The number of clock intervals averaged to estimate the tempo. The default (`24`) spans a
+   * quarter note.
+   * @type {number}
+   */
+  window: number;
+
+  private _bpm: number = null;
+  private _intervals: number[] = [];
+  private _lastClock: number = null;
+  private _listener: Listener;
+  private _nextTick: number = 0;
+  private _outliers: number[] = [];
+  private _state: string = "stopped";
+  private _tick: number = 0;
+
+  /**
+   * Creates a `ClockFollower` object.
+   *
+   * @param {Input} input The [`Input`](Input) to follow the clock of.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.beatsPerBar=4] The number of beats (quarter notes) in a bar.
+   * @param {number} [options.threshold=0.5] The minimum tempo variation (in beats per minute) that
+   * triggers a `tempochange` event.
+   * @param {number} [options.tolerance=0.25] The maximum relative deviation of a clock interval
+   * from the current estimate. Intervals deviating more are ignored as jitter.
+   * @param {number} [options.window=24] The number of clock intervals averaged to estimate the
+   * tempo.
+   *
+   * @throws {TypeError} The input must be of type 'Input'.
+   */
+  constructor(input: Input, options: {
+    beatsPerBar?: number;
+    threshold?: number;
+    tolerance?: number;
+    window?: number;
+  } = {}) {
+
+    super();
+
+    if (WebMidi.validation && !(input instanceof Input)) {
+      throw new TypeError("The input must be of type 'Input'.");
+    }
+
+    this.input = input;
+    this.beatsPerBar = options.beatsPerBar || 4;
+    this.threshold = options.threshold === undefined ? 0.5 : options.threshold;
+    this.tolerance = options.tolerance || 0.25;
+    this.window = options.window || 24;
+
+    this._listener = <Listener>input.addListener(
+      "midimessage",
+      this._onMidiMessage.bind(this),
+      {duration: Infinity}
+    );
+
+  }
+
+  /**
+   * Emits an event carrying the follower's current state.
+   * @private
+   */
+  _emit(type: string, timestamp: number, action?: string): void {
+
+    const event: ClockFollowerEvent = {
+      bar: this.bar,
+      beat: this.beat,
+      bpm: this._bpm,
+      position: this.position,
+      state: this._state,
+      target: this,
+      timestamp,
+      type
+    };
+
+    if (action) event.action = action;
+    this.emit(type, event);
+
+  }
+
+  /**
+   * Handles a clock message: updates the tempo estimate and, if the transport is playing, advances
+   * the position.
+   * @private
+   */
+  _onClock(timestamp: number): void {
+
+    if (this._lastClock !== null) this._updateTempo(timestamp - this._lastClock, timestamp);
+    this._lastClock = timestamp;
+
+    if (this._state !== "playing") return;
+
+    // The first clock received after a start (or continue) marks the current position
+    this._tick = this._nextTick++;
+
+    if (this._tick % 24 === 0) {
+
+      if (this._tick % (24 * this.beatsPerBar) === 0) {
+
+        /**
+         * Event emitted when the first beat of a bar is reached.
+         *
+         * @event ClockFollower#bar
+         * @type {ClockFollowerEvent}
+         * @property {string} type `"bar"`
+         */
+        this._emit("bar", timestamp);
+
+      }
+
+      /**
+       * Event emitted when a beat (quarter note) is reached.
+       *
+       * @event ClockFollower#beat
+       * @type {ClockFollowerEvent}
+       * @property {string} type `"beat"`
+       */
+      this._emit("beat", timestamp);
+
+    }
+
+  }
+
+  /**
+   * Executed when a `"midimessage"` event is received on the input.
+   * @private
+   */
+  _onMidiMessage(e: MessageEvent): void {
+
+    const data = e.message.rawData;
+
+    switch (data[0]) {
+
+      case Enumerations.SYSTEM_MESSAGES.clock:
+        this._onClock(e.timestamp);
+        break;
+
+      case Enumerations.SYSTEM_MESSAGES.start:
+        this._tick = this._nextTick = 0;
+        this._setTransport("playing", "start", e.timestamp);
+        break;
+
+      case Enumerations.SYSTEM_MESSAGES.continue:
+        this._setTransport("playing", "continue", e.timestamp);
+        break;
+
+      case Enumerations.SYSTEM_MESSAGES.stop:
+        this._setTransport("stopped", "stop", e.timestamp);
+        break;
+
+      case Enumerations.SYSTEM_MESSAGES.songposition:
+        // The least significant byte comes first
+        this._tick = this._nextTick = (data[1] + (data[2] << 7)) * 6;
+        this._setTransport(this._state, "songposition", e.timestamp);
+        break;
+
+    }
+
+  }
+
+  /**
+   * Changes the transport state and emits a `transport` event.
+   * @private
+   */
+  _setTransport(state: string, action: string, timestamp: number): void {
+
+    this._state = state;
+
+    /**
+     * Event emitted when a **start**, **stop**, **continue** or **song position** message has been
+     * received.
+     *
+     * @event ClockFollower#transport
+     * @type {ClockFollowerEvent}
+     * @property {string} action The transport message that was received: `"start"`, `"stop"`,
+     * `"continue"` or `"songposition"`.
+     * @property {string} type `"transport"`
+     */
+    this._emit("transport", timestamp, action);
+
+  }
+
+  /**
+   * Adds a clock interval to the tempo estimate, filtering out jitter.
+   * @private
+   */
+  _updateTempo(interval: number, timestamp: number): void {
+
+    if (this._intervals.length > 0) {
+
+      const average = this._intervals.reduce((a, b) => a + b) / this._intervals.length;
+
+      if (Math.abs(interval - average) > average * this.tolerance) {
+
+        // A few consecutive outliers mean the tempo has really changed (or the clock has resumed
+        // after a pause), so the estimate starts over from them.
+        this._outliers.push(interval);
+        if (this._outliers.length < 3) return;
+        this._intervals = this._outliers.slice(1);
+        this._outliers = [];
+
+      } else {
+        this._outliers = [];
+        this._intervals.push(interval);
+      }
+
+    } else {
+      this._intervals.push(interval);
+    }
+
+    if (this._intervals.length > this.window) this._intervals.shift();
+
+    // Wait for the window to be full so alternating jitter does not bias the estimate
+    if (this._intervals.length < this.window) return;
+
+    const average = this._intervals.reduce((a, b) => a + b) / this._intervals.length;
+    const bpm = 60000 / (average * 24);
+
+    if (this._bpm === null || Math.abs(bpm - this._bpm) >= this.threshold) {
+
+      this._bpm = bpm;
+
+      /**
+       * Event emitted when the estimated tempo changes by at least the
+       * [`threshold`](#threshold).
+       *
+       * @event ClockFollower#tempochange
+       * @type {ClockFollowerEvent}
+       * @property {string} type `"tempochange"`
+       */
+      this._emit("tempochange", timestamp);
+
+    }
+
+  }
+
+  /**
+   * Stops following the clock of the input.
+   */
+  destroy(): void {
+    this._listener.remove();
+    this.reset();
+    this.removeListener();
+  }
+
+  /**
+   * Resets the tempo estimate, the position and the transport state.
+   *
+   * @returns {ClockFollower} Returns the `ClockFollower` object so methods can be chained.
+   */
+  reset(): ClockFollower {
+    this._bpm = null;
+    this._intervals = [];
+    this._lastClock = null;
+    this._outliers = [];
+    this._state = "stopped";
+    this._nextTick = 0;
+    this._tick = 0;
+    return this;
+  }
+
+  /**
+   * The index of the current bar (starting at `0`).
+   * @readonly
+   * @type {number}
+   */
+  get bar(): number {
+    return Math.floor(this._tick / (24 * this.beatsPerBar));
+  }
+
+  /**
+   * The index of the current beat within the bar (starting at `0`).
+   * @readonly
+   * @type {number}
+   */
+  get beat(): number {
+    return Math.floor(this._tick / 24) % this.beatsPerBar;
+  }
+
+  /**
+   * The estimated tempo (in beats per minute) or `null` if not enough clock messages have been
+   * received yet (see [`window`](#window)).
+   * @readonly
+   * @type {number}
+   */
+  get bpm(): number {
+    return this._bpm;
+  }
+
+  /**
+   * The song position in MIDI beats (16th notes).
+   * @readonly
+   * @type {number}
+   */
+  get position(): number {
+    return Math.floor(this._tick / 6);
+  }
+
+  /**
+   * The transport state: `"playing"` or `"stopped"`.
+   * @readonly
+   * @type {string}
+   */
+  get state(): string {
+    return this._state;
+  }
+
+}
@@ -0,0 +1,352 @@
+import {Output} from "./Output";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * The `ClockGenerator` class is a MIDI clock master. It sends MIDI clock messages (24 per quarter
+ * note) along with **start**, **stop**, **continue** and **song position** messages to one or more
+ * [`Output`](Output) objects.
+ *
+ * Clock messages are scheduled slightly ahead of time (see [`lookahead`](#lookahead)) using the
+ * `time` option of the `Output` methods. Their timestamps are calculated from a fixed reference
+ * point so that timing does not drift. The tempo can be changed at any time.
+ *
+ * Each output can be given an offset (in milliseconds) to compensate for the latency of the
+ * device connected to it. A negative offset sends the messages earlier.
+ *
+ * ```javascript
+ * const clock = new ClockGenerator(WebMidi.outputs[0], {bpm: 128});
+ * clock.addOutput(WebMidi.outputs[1], {offset: -15});
+ * clock.start();
+ * ```
+ *
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class ClockGenerator {
+
+  /**
+   * How far ahead (in milliseconds) clock messages are sent to the outputs.
+   * @type {number}
+   */
+  lookahead: number;
+
+  private _anchorTick: number = 0;
+  private _anchorTime: number = 0;
+  private _bpm: number;
+  private _outputs: { output: Output, offset: number }[] = [];
+  private _swing: number;
+  private _tick: number = 0;
+  private _timer: any = null;
+
+  /**
+   * Creates a `ClockGenerator` object.
+   *
+   * @param {Output|Output[]} [outputs=\[\]] An [`Output`](Output) object, or an array of such
+   * objects, to send the clock to.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.bpm=120] The tempo (in beats per minute).
+   * @param {number} [options.lookahead=100] How far ahead (in milliseconds) clock messages are sent
+   * to the outputs.
+   * @param {number} [options.swing=0.5] The swing amount (between `0.5` and `0.75`). See
+   * [`swing`](#swing).
+   *
+   * @throws {TypeError} Outputs must be of type 'Output'.
+   * @throws {RangeError} The tempo must be a number greater than 0.
+   * @throws {RangeError} The swing must be a number between 0.5 and 0.75.
+   */
+  constructor(outputs: Output | Output[] = [], options: {
+    bpm?: number;
+    lookahead?: number;
+    swing?: number;
+  } = {}) {
+
+    this.lookahead = options.lookahead || 100;
+    this.bpm = options.bpm === undefined ? 120 : options.bpm;
+    this.swing = options.swing === undefined ? 0.5 : options.swing;
+
+    if (!Array.isArray(outputs)) outputs = [outputs];
+    outputs.forEach(output => this.addOutput(output));
+
+  }
+
+  /**
+   * Returns the position (in milliseconds) of the specified tick, relative to the beginning of the
+   * song, at the current tempo and swing.
+   * @private
+   */
+  _getTickOffset(tick: number): number {
+
+    // Swing delays the second 16th note of each 8th note (made of 12 ticks)
+    const eighth = 30000 / this._bpm;
+    const index = tick % 12;
+
+    let offset = Math.floor(tick / 12) * eighth;
+
+    if (index < 6) {
+      offset += index / 6 * this._swing * eighth;
+    } else {
+      offset += this._swing * eighth + (index - 6) / 6 * (1 - this._swing) * eighth;
+    }
+
+    return offset;
+
+  }
+
+  /**
+   * Returns the timestamp at which the **stop** message must be sent: right after the clock
+   * messages already within the lookahead window.
+   * @private
+   */
+  _getStopTime(): number {
+    return Math.max(WebMidi.time, this._getTickTime(this._tick - 1));
+  }
+
+  /**
+   * Returns the timestamp of the specified tick.
+   * @private
+   */
+  _getTickTime(tick: number): number {
+    return this._anchorTime + this._getTickOffset(tick) - this._getTickOffset(this._anchorTick);
+  }
+
+  /**
+   * Anchors the timeline to the next tick to be sent, so it can be recalculated from there.
+   * @private
+   */
+  _reanchor(): void {
+    if (!this.running) return;
+    this._anchorTime = this._getTickTime(this._tick);
+    this._anchorTick = this._tick;
+  }
+
+  /**
+   * Sends all the clock messages falling within the lookahead window.
+   * @private
+   */
+  _schedule(): void {
+
+    const earliest = Math.min(0, ...this._outputs.map(o => o.offset));
+    const horizon = WebMidi.time + this.lookahead - earliest;
+
+    while (this._getTickTime(this._tick) <= horizon) {
+      const time = this._getTickTime(this._tick);
+      this._outputs.forEach(o => o.output.sendClock({time: Math.max(0, time + o.offset)}));
+      this._tick++;
+    }
+
+  }
+
+  /**
+   * Sends the specified transport message and starts sending clock messages from the current
+   * position, at the specified time.
+   * @private
+   */
+  _start(message: "sendStart" | "sendContinue", time: number = WebMidi.time): void {
+
+    this._anchorTime = time;
+    this._anchorTick = this._tick;
+
+    this._outputs.forEach(o => {
+      o.output[message]({time: Math.max(0, this._anchorTime + o.offset)});
+    });
+
+    this._schedule();
+    this._timer = setInterval(() => this._schedule(), Math.max(1, this.lookahead / 4));
+
+  }
+
+  /**
+   * Adds an output to send the clock to.
+   *
+   * @param {Output} output The [`Output`](Output) to add.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.offset=0] An offset (in milliseconds) applied to all messages sent to
+   * this output. A negative offset sends the messages earlier (to compensate for the latency of the
+   * device).
+   *
+   * @throws {TypeError} Outputs must be of type 'Output'.
+   *
+   * @returns {ClockGenerator} Returns the `ClockGenerator` object so methods can be chained.
+   */
+  addOutput(output: Output, options: { offset?: number } = {}): ClockGenerator {
+
+    if (WebMidi.validation && !(output instanceof Output)) {
+      throw new TypeError("Outputs must be of type 'Output'.");
+    }
+
+    this.removeOutput(output);
+    this._outputs.push({output, offset: options.offset || 0});
+    return this;
+
+  }
+
+  /**
+   * Sends a **continue** message and resumes sending clock messages from the current position.
+   *
+   * @returns {ClockGenerator} Returns the `ClockGenerator` object so methods can be chained.
+   */
+  continue(): ClockGenerator {
+    if (this.running) return this;
+    this._start("sendContinue");
+    return this;
+  }
+
+  /**
+   * Moves the song position and sends a **song position** message. Since song position messages
+   * must only be sent while the transport is stopped, the clock is stopped and continued if it was
+   * running. In this case, the **song position** message is sent along with the **stop** message
+   * (after the clock messages already within the lookahead window) and the **continue** message
+   * right after them.
+   *
+   * @param {number} position The new position in MIDI beats (16th notes), between `0` and
+   * `16383`.
+   *
+   * @throws {RangeError} The position must be an integer between 0 and 16383.
+   *
+   * @returns {ClockGenerator} Returns the `ClockGenerator` object so methods can be chained.
+   */
+  locate(position: number): ClockGenerator {
+
+    if (WebMidi.validation && !(Number.isInteger(position) && position >= 0 && position <= 16383)) {
+      throw new RangeError("The position must be an integer between 0 and 16383.");
+    }
+
+    if (!this.running) {
+      this._tick = position * 6;
+      this._outputs.forEach(o => o.output.sendSongPosition(position, {}));
+      return this;
+    }
+
+    const time = this._getStopTime();
+    this.stop();
+
+    this._tick = position * 6;
+    this._outputs.forEach(o => {
+      o.output.sendSongPosition(position, {time: Math.max(0, time + o.offset)});
+    });
+
+    this._start("sendContinue", time);
+    return this;
+
+  }
+
+  /**
+   * Removes an output.
+   *
+   * @param {Output} output The [`Output`](Output) to remove.
+   *
+   * @returns {ClockGenerator} Returns the `ClockGenerator` object so methods can be chained.
+   */
+  removeOutput(output: Output): ClockGenerator {
+    this._outputs = this._outputs.filter(o => o.output !== output);
+    return this;
+  }
+
+  /**
+   * Sends a **start** message and starts sending clock messages from the beginning of the song.
+   *
+   * @returns {ClockGenerator} Returns the `ClockGenerator` object so methods can be chained.
+   */
+  start(): ClockGenerator {
+    if (this.running) this.stop();
+    this._tick = 0;
+    this._start("sendStart");
+    return this;
+  }
+
+  /**
+   * Stops sending clock messages and sends a **stop** message. The position is kept so the clock
+   * can be resumed with [`continue()`](#continue). Clock messages already within the lookahead
+   * window will still be sent, so the **stop** message is scheduled right after them.
+   *
+   * @returns {ClockGenerator} Returns the `ClockGenerator` object so methods can be chained.
+   */
+  stop(): ClockGenerator {
+
+    if (!this.running) return this;
+
+    clearInterval(this._timer);
+    this._timer = null;
+
+    // Ticks already within the lookahead window are sent, so stop right after them
+    const time = this._getStopTime();
+    this._outputs.forEach(o => o.output.sendStop({time: Math.max(0, time + o.offset)}));
+    return this;
+
+  }
+
+  /**
+   * The tempo (in beats per minute). It can be changed while the clock is running.
+   *
+   * @throws {RangeError} The tempo must be a number greater than 0.
+   *
+   * @type {number}
+   */
+  get bpm(): number {
+    return this._bpm;
+  }
+  set bpm(value: number) {
+
+    if (WebMidi.validation && !(value > 0)) {
+      throw new RangeError("The tempo must be a number greater than 0.");
+    }
+
+    this._reanchor();
+    this._bpm = value;
+
+  }
+
+  /**
+   * An array of the [`Output`](Output) objects the clock is sent to.
+   * @readonly
+   * @type {Output[]}
+   */
+  get outputs(): Output[] {
+    return this._outputs.map(o => o.output);
+  }
+
+  /**
+   * The current song position in MIDI beats (16th notes), based on the clock messages that have
+   * been scheduled. Since clock messages are sent ahead of time (see [`lookahead`](#lookahead)),
+   * the position can be slightly ahead of what the devices have actually received.
+   * @readonly
+   * @type {number}
+   */
+  get position(): number {
+    return Math.floor(this._tick / 6);
+  }
+
+  /**
+   * Whether the clock is running.
+   * @readonly
+   * @type {boolean}
+   */
+  get running(): boolean {
+    return this._timer !== null;
+  }
+
+  /**
+   * The swing amount, between `0.5` (no swing) and `0.75`. It is the fraction of each 8th note at
+   * which the second 16th note starts. For example, a value of `0.66` produces a triplet feel.
+   *
+   * @throws {RangeError} The swing must be a number between 0.5 and 0.75.
+   *
+   * @type {number}
+   */
+  get swing(): number {
+    return this._swing;
+  }
+  set swing(value: number) {
+
+    if (WebMidi.validation && !(value >= 0.5 && value <= 0.75)) {
+      throw new RangeError("The swing must be a number between 0.5 and 0.75.");
+    }
+
+    this._reanchor();
+    this._swing = value;
+
+  }
+
+}
@@ -977,6 +977,68 @@ export class Enumerations {
     ];
   };
 
+  /**
+   * Enumeration of the MIDI Machine Control (MMC) commands and their matching numerical values.
+   * These commands are sent inside Universal Real-Time system exclusive messages
+   * (`F0 7F <device ID> 06 <command> F7`).
+   *
+   * | Command          | Hexadecimal |
+   * |------------------|-------------|
+   * | `stop`           | 0x01        |
+   * | `play`           | 0x02        |
+   * | `deferredplay`   | 0x03        |
+   * | `fastforward`    | 0x04        |
+   * | `rewind`         | 0x05        |
+   * | `recordstrobe`   | 0x06        |
+   * | `recordexit`     | 0x07        |
+   * | `recordpause`    | 0x08        |
+   * | `pause`          | 0x09        |
+   * | `eject`          | 0x0A        |
+   * | `chase`          | 0x0B        |
+   * | `reset`          | 0x0D        |
+   * | `write`          | 0x40        |
+   * | `locate`         | 0x44        |
+   *
+   * @enum {Object.<string, number>}
+   * @readonly
+   * @static
+   *
+   * @since 3.2.0
+   */
+  static get MMC_COMMANDS(): {
+    stop: number;
+    play: number;
+    deferredplay: number;
+    fastforward: number;
+    rewind: number;
+    recordstrobe: number;
+    recordexit: number;
+    recordpause: number;
+    pause: number;
+    eject: number;
+    chase: number;
+    reset: number;
+    write: number;
+    locate: number;
+  } {
+    return {
+      stop: 0x01,
+      play: 0x02,
+      deferredplay: 0x03,
+      fastforward: 0x04,
+      rewind: 0x05,
+      recordstrobe: 0x06,
+      recordexit: 0x07,
+      recordpause: 0x08,
+      pause: 0x09,
+      eject: 0x0A,
+      chase: 0x0B,
+      reset: 0x0D,
+      write: 0x40,
+      locate: 0x44
+    };
+  }
+
   /**
    * Enumeration of all MIDI registered parameters and their associated pair of numerical values.
    * MIDI registered parameters extend the original list of control change messages. Currently,
@@ -991,6 +1053,7 @@ export class Enumerations {
    * | `tuningprogram`              | [0x00, 0x03] |
    * | `tuningbank`                 | [0x00, 0x04] |
    * | `modulationrange`            | [0x00, 0x05] |
+   * | `mpeconfiguration`           | [0x00, 0x06] |
    * | `azimuthangle`               | [0x3D, 0x00] |
    * | `elevationangle`             | [0x3D, 0x01] |
    * | `gain`                       | [0x3D, 0x02] |
@@ -1012,6 +1075,7 @@ export class Enumerations {
     tuningprogram: number[];
     tuningbank: number[];
     modulationrange: number[];
+    mpeconfiguration: number[];
     azimuthangle: number[];
     elevationangle: number[];
     gain: number[];
@@ -1030,6 +1094,7 @@ export class Enumerations {
       tuningbank: [0x00, 0x04],
 
       modulationrange: [0x00, 0x05],
+      mpeconfiguration: [0x00, 0x06],
       azimuthangle: [0x3D, 0x00],
       elevationangle: [0x3D, 0x01],
       gain: [0x3D, 0x02],
@@ -1145,6 +1210,7 @@ export class Enumerations {
       // MIDI channel message events
       "noteoff",
       "controlchange",
+      "controlchange14",
       "noteon",
       "keyaftertouch",
       "programchange",
@@ -1159,6 +1225,11 @@ export class Enumerations {
       "omnimode",
       "resetallcontrollers",
 
+      // State tracking events
+      "notereleased",
+      "notesustained",
+      "statechange",
+
       // RPN/NRPN events
       "nrpn",
       "nrpn-dataentrycoarse",
@@ -474,7 +474,7 @@ export class EventEmitter {
    * @param {number} [options.duration=Infinity] The number of milliseconds to wait before the
    * promise is automatically rejected.
    */
-  /* async */ waitFor(event: string | Symbol, options?: {
+  async waitFor(event: string | Symbol, options?: {
     duration?: number;
   }): Promise<any> {
 
@@ -1,6 +1,8 @@
 import {Enumerations} from "./Enumerations";
+import {ForwarderTransform} from "./Interfaces";
 import { Message } from "./Message";
 import {Output} from "./Output";
+import {Utilities} from "./Utilities";
 import {WebMidi} from "./WebMidi";
 
 /**
@@ -11,6 +13,20 @@ import {WebMidi} from "./WebMidi";
  * If specific channels or message types have been defined in the [`channels`](#channels) or
  * [`types`](#types) properties, only messages matching the channels/types will be forwarded.
  *
+ * Messages can also be transformed before being forwarded. The functions listed in the
+ * [`transforms`](#transforms) property are applied one after the other, each one receiving the
+ * messages returned by the previous one. Common transforms can be added with the
+ * [`mapChannels()`](#mapChannels), [`transpose()`](#transpose),
+ * [`scaleVelocity()`](#scaleVelocity) and [`mapControlChange()`](#mapControlChange) methods:
+ *
+ * ```javascript
+ * WebMidi.inputs[0].addForwarder(WebMidi.outputs[0])
+ *   .mapChannels({1: 10})
+ *   .transpose(12, {min: 36, max: 96})
+ *   .scaleVelocity(0.5)
+ *   .mapControlChange("modulationwheelcoarse", "brightness", {min: 32, max: 96});
+ * ```
+ *
  * While it can be manually instantiated, you are more likely to come across a `Forwarder` object as
  * the return value of the [`Input.addForwarder()`](Input#addForwarder) method.
  *
@@ -35,10 +51,14 @@ export class Forwarder {
    * @param {number|number[]} [options.channels=[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]]
    * A MIDI channel number or an array of channel numbers that the message must match in order to be
    * forwarded. By default all MIDI channels are included (`1` to `16`).
+   * @param {ForwarderTransform|ForwarderTransform[]} [options.transforms] A function, or an array
+   * of functions, transforming the messages before they are forwarded. See
+   * [`addTransform()`](#addTransform).
    */
   constructor(destinations?: Output | Output[], options?: {
     types?: string | string[];
     channels?: number | number[];
+    transforms?: ForwarderTransform | ForwarderTransform[];
   }){
     /**
      * An array of [`Output`](Output) objects to forward the message to.
@@ -71,10 +91,20 @@ export class Forwarder {
      */
     this.suspended = false;
 
+    /**
+     * An array of functions transforming the messages before they are forwarded. They are applied
+     * in order, after the [`types`](#types) and [`channels`](#channels) filters.
+     * @type {ForwarderTransform[]}
+     */
+    this.transforms = [];
+
     // Make sure parameters are arrays
     if (!Array.isArray(destinations)) destinations = [destinations];
     if (options.types && !Array.isArray(options.types)) options.types = [options.types];
     if (options.channels && !Array.isArray(options.channels)) options.channels = [options.channels];
+    if (options.transforms && !Array.isArray(options.transforms)) {
+      options.transforms = [options.transforms];
+    }
 
     if (WebMidi.validation) {
 
@@ -114,6 +144,9 @@ export class Forwarder {
     this.destinations = destinations;
     if (options.types && Array.isArray(options.types)) this.types = options.types;
     if (options.channels && Array.isArray(options.channels)) this.channels = options.channels;
+    if (options.transforms) {
+      (<ForwarderTransform[]>options.transforms).forEach(t => this.addTransform(t));
+    }
   }
 
   /**
@@ -144,9 +177,270 @@ export class Forwarder {
    */
   suspended: boolean;
 
+  /**
+   * An array of functions transforming the messages before they are forwarded. They are applied
+   * in order, after the [`types`](#types) and [`channels`](#channels) filters.
+   * @type {ForwarderTransform[]}
+   */
+  transforms: ForwarderTransform[];
+
+  /**
+   * Returns a copy of the specified message with the specified bytes changed.
+   * @private
+   */
+  static _modify(message: Message, changes: { [index: number]: number }): Message {
+    const data = message.data.slice();
+    Object.keys(changes).forEach(index => data[index] = changes[index]);
+    return new Message(Uint8Array.from(data));
+  }
+
+  /**
+   * Adds a function transforming the messages before they are forwarded. The function receives a
+   * [`Message`](Message) and can return it unchanged, return a new `Message` (messages are
+   * read-only), return an array of messages (to send several messages) or return nothing (to drop
+   * the message).
+   *
+   * ```javascript
+   * // Double each note an octave above
+   * forwarder.addTransform(message => {
+   *   if (message.type !== "noteon" && message.type !== "noteoff") return message;
+   *   const data = message.data.slice();
+   *   data[1] = Math.min(data[1] + 12, 127);
+   *   return [message, new Message(Uint8Array.from(data))];
+   * });
+   * ```
+   *
+   * @param {ForwarderTransform} transform The function transforming the messages.
+   *
+   * @throws {TypeError} The transform must be a function.
+   *
+   * @returns {Forwarder} Returns the `Forwarder` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  addTransform(transform: ForwarderTransform): Forwarder {
+
+    if (WebMidi.validation && typeof transform !== "function") {
+      throw new TypeError("The transform must be a function.");
+    }
+
+    this.transforms.push(transform);
+    return this;
+
+  }
+
+  /**
+   * Adds a transform moving channel messages to other channels. Messages on channels that are not
+   * part of the mapping are left unchanged.
+   *
+   * @param {number|object} mapping A channel number (`1` - `16`) to send all channel messages on,
+   * or an object whose keys are the original channels and whose values are the new channels (e.g.
+   * `{1: 10, 2: 11}`).
+   *
+   * @throws {TypeError} MIDI channel must be between 1 and 16.
+   *
+   * @returns {Forwarder} Returns the `Forwarder` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  mapChannels(mapping: number | { [channel: number]: number }): Forwarder {
+
+    const map: { [channel: number]: number } = {};
+
+    Enumerations.CHANNEL_NUMBERS.forEach(channel => {
+      map[channel] = typeof mapping === "number" ? mapping : mapping[channel] || channel;
+    });
+
+    if (WebMidi.validation) {
+      Object.keys(map).forEach(channel => {
+        if (!Enumerations.CHANNEL_NUMBERS.includes(map[channel])) {
+          throw new TypeError("MIDI channel must be between 1 and 16.");
+        }
+      });
+    }
+
+    return this.addTransform(message => {
+      if (!message.isChannelMessage) return message;
+      const status = (message.statusByte & 0xF0) + map[message.channel] - 1;
+      return Forwarder._modify(message, {0: status});
+    });
+
+  }
+
+  /**
+   * Adds a transform changing the number and scaling the value of a controller. The value (`0` -
+   * `127`) is scaled to fit between `options.min` and `options.max`. Specifying a `min` greater
+   * than `max` inverts the controller. Other control change messages are left unchanged.
+   *
+   * @param {number|string} controller The number (`0` - `127`) or name of the controller to
+   * transform.
+   *
+   * @param {number|string} [target=controller] The number (`0` - `127`) or name of the controller
+   * to send instead.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.min=0] The value (`0` - `127`) to send when the original value is `0`.
+   * @param {number} [options.max=127] The value (`0` - `127`) to send when the original value is
+   * `127`.
+   *
+   * @throws {TypeError} The controller must be identified with a valid name or an integer between 0
+   * and 127.
+   * @throws {RangeError} The minimum and maximum values must be integers between 0 and 127.
+   *
+   * @returns {Forwarder} Returns the `Forwarder` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  mapControlChange(controller: number | string, target?: number | string, options: {
+    min?: number;
+    max?: number;
+  } = {}): Forwarder {
+
+    if (typeof controller === "string") controller = Utilities.getCcNumberByName(controller);
+    if (target === undefined) target = controller;
+    if (typeof target === "string") target = Utilities.getCcNumberByName(target);
+
+    const min = options.min === undefined ? 0 : options.min;
+    const max = options.max === undefined ? 127 : options.max;
+
+    if (WebMidi.validation) {
+
+      [controller, target].forEach(number => {
+        if (!Number.isInteger(number) || !(number >= 0 && number <= 127)) {
+          throw new TypeError(
+            "The controller must be identified with a valid name or an integer between 0 and 127."
+          );
+        }
+      });
+
+      [min, max].forEach(value => {
+        if (!Number.isInteger(value) || !(value >= 0 && value <= 127)) {
+          throw new RangeError(
+            "The minimum and maximum values must be integers between 0 and 127."
+          );
+        }
+      });
+
+    }
+
+    return this.addTransform(message => {
+      if (message.type !== "controlchange" || message.dataBytes[0] !== controller) return message;
+      const value = Math.round(min + message.dataBytes[1] / 127 * (max - min));
+      return Forwarder._modify(message, {1: <number>target, 2: value});
+    });
+
+  }
+
+  /**
+   * Adds a transform changing the attack velocity of **note on** messages. The velocity is
+   * normalized (`0` - `1`), passed through the curve, multiplied by `options.scale` and clamped
+   * between `options.min` and `options.max`. **Note on** messages with a velocity of `0` (which
+   * are **note off** messages) are left unchanged.
+   *
+   * @param {number|function} [curve=1] An exponent applied to the normalized velocity (`1` is
+   * linear, values below `1` make soft notes louder and values above `1` make them quieter) or a
+   * function receiving the normalized velocity and returning a new one.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.scale=1] A factor the velocity is multiplied by (after the curve).
+   * @param {number} [options.min=1] The lowest velocity (`1` - `127`) to send.
+   * @param {number} [options.max=127] The highest velocity (`1` - `127`) to send.
+   *
+   * @throws {TypeError} The curve must be a positive number or a function.
+   *
+   * @returns {Forwarder} Returns the `Forwarder` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  scaleVelocity(curve: number | ((velocity: number) => number) = 1, options: {
+    scale?: number;
+    min?: number;
+    max?: number;
+  } = {}): Forwarder {
+
+    if (WebMidi.validation && !(typeof curve === "function" || curve > 0)) {
+      throw new TypeError("The curve must be a positive number or a function.");
+    }
+
+    const scale = options.scale === undefined ? 1 : options.scale;
+    const min = options.min === undefined ? 1 : options.min;
+    const max = options.max === undefined ? 127 : options.max;
+
+    return this.addTransform(message => {
+
+      if (message.type !== "noteon" || message.dataBytes[1] === 0) return message;
+
+      const normalized = Utilities.from7bitToFloat(message.dataBytes[1]);
+      const curved = typeof curve === "function" ? curve(normalized) : Math.pow(normalized, curve);
+      const velocity = Math.min(Math.max(Math.round(curved * scale * 127), min), max);
+
+      return Forwarder._modify(message, {2: velocity});
+
+    });
+
+  }
+
+  /**
+   * Adds a transform shifting the pitch of **note on**, **note off** and **key aftertouch**
+   * messages. Notes falling outside of the range defined by `options.min` and `options.max` are
+   * either brought back to the nearest edge of the range (`"clamp"`) or dropped (`"drop"`).
+   *
+   * @param {number} semitones The number of semitones to transpose by (positive or negative).
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.min=0] The lowest note number (`0` - `127`) allowed.
+   * @param {number} [options.max=127] The highest note number (`0` - `127`) allowed.
+   * @param {string} [options.outOfRange="clamp"] What to do with notes outside of the range:
+   * `"clamp"` or `"drop"`.
+   *
+   * @throws {TypeError} The number of semitones must be an integer.
+   * @throws {RangeError} The minimum and maximum notes must be integers between 0 and 127.
+   *
+   * @returns {Forwarder} Returns the `Forwarder` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  transpose(semitones: number, options: {
+    min?: number;
+    max?: number;
+    outOfRange?: string;
+  } = {}): Forwarder {
+
+    const min = options.min === undefined ? 0 : options.min;
+    const max = options.max === undefined ? 127 : options.max;
+
+    if (WebMidi.validation) {
+
+      if (!Number.isInteger(semitones)) {
+        throw new TypeError("The number of semitones must be an integer.");
+      }
+
+      if (![min, max].every(note => Number.isInteger(note) && note >= 0 && note <= 127)) {
+        throw new RangeError("The minimum and maximum notes must be integers between 0 and 127.");
+      }
+
+    }
+
+    return this.addTransform(message => {
+
+      if (!["noteon", "noteoff", "keyaftertouch"].includes(message.type)) return message;
+
+      const note = message.dataBytes[0] + semitones;
+
+      if (note < min || note > max) {
+        if (options.outOfRange === "drop") return null;
+        return Forwarder._modify(message, {1: Math.min(Math.max(note, min), max)});
+      }
+
+      return Forwarder._modify(message, {1: note});
+
+    });
+
+  }
+
   /**
    * Sends the specified message to the forwarder's destination(s) if it matches the specified
-   * type(s) and channel(s).
+   * type(s) and channel(s). The [`transforms`](#transforms) are applied before sending.
    *
    * @param {Message} message The [`Message`](Message) object to forward.
    */
@@ -161,10 +455,17 @@ export class Forwarder {
     // Abort if this channel should not be forwarded
     if (message.channel && !this.channels.includes(message.channel)) return;
 
+    // Apply the transforms (each one can return zero, one or several messages)
+    let messages: Message[] = [message];
+
+    this.transforms.forEach(transform => {
+      messages = messages.reduce((result, m) => result.concat(transform(m) || []), []);
+    });
+
     // Forward
     this.destinations.forEach(destination => {
       if (WebMidi.validation && !(destination instanceof Output)) return;
-      destination.send(message);
+      messages.forEach(m => destination.send(m));
     });
   }
 }
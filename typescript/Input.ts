@@ -3,9 +3,20 @@ import {EventEmitter} from "./EventEmitter";
 import {Forwarder} from "./Forwarder";
 import {InputChannel} from "./InputChannel";
 import {Message} from "./Message";
+import {Note} from "./Note";
 import {Utilities} from "./Utilities";
 import {WebMidi} from "./WebMidi";
-import {InputEventMap, PortEvent, WebMidiApi} from "./Interfaces";
+import {
+  DeviceIdentity,
+  EventEmitterCallback,
+  ForwarderTransform,
+  InputEventMap,
+  MmcEvent,
+  MpeNoteEvent,
+  PortEvent,
+  Timecode,
+  WebMidiApi
+} from "./Interfaces";
 import { Output } from "./Output";
 import { Listener } from "./Listener";
 
@@ -45,6 +56,30 @@ import { Listener } from "./Listener";
  *
  * @fires Input#unknownmidimessage
  *
+ * @fires Input#identityreply
+ * @fires Input#mmcchase
+ * @fires Input#mmcdeferredplay
+ * @fires Input#mmceject
+ * @fires Input#mmcfastforward
+ * @fires Input#mmclocate
+ * @fires Input#mmcpause
+ * @fires Input#mmcplay
+ * @fires Input#mmcrecordexit
+ * @fires Input#mmcrecordpause
+ * @fires Input#mmcrecordstrobe
+ * @fires Input#mmcreset
+ * @fires Input#mmcrewind
+ * @fires Input#mmcstop
+ * @fires Input#mmctrackarm
+ * @fires Input#mmcwrite
+ * @fires Input#notebend
+ * @fires Input#notepressure
+ * @fires Input#notetimbre
+ * @fires Input#sysexprogress
+ * @fires Input#timecodelock
+ * @fires Input#timecodeposition
+ * @fires Input#error
+ *
  * @extends EventEmitter
  * @license Apache-2.0
  */
@@ -69,6 +104,118 @@ export class Input extends EventEmitter {
    */
   private _octaveOffset: number = 0;
 
+  /**
+   * Fragments of the system exclusive message currently being reassembled
+   * @type {number[]}
+   * @private
+   */
+  private _sysexBuffer: number[] = null;
+
+  /**
+   * @private
+   */
+  private _sysexTimer: any = null;
+
+  /**
+   * The maximum time (in milliseconds) to wait for the next fragment of a system exclusive message
+   * delivered in multiple parts. When it expires, the incomplete message is discarded and an
+   * [`error`](#event:error) event is emitted.
+   *
+   * @type {number}
+   * @since 3.2.0
+   */
+  public sysexTimeout: number = 1000;
+
+  /**
+   * The maximum time (in milliseconds) to wait for the next MIDI Time Code quarter frame. When it
+   * expires, the lock on the quarter frame stream is lost.
+   *
+   * @type {number}
+   * @since 3.2.0
+   */
+  public timecodeTimeout: number = 100;
+
+  /**
+   * @private
+   */
+  private _mtcCount: number = 0;
+
+  /**
+   * @private
+   */
+  private _mtcDirection: string = null;
+
+  /**
+   * @private
+   */
+  private _mtcLast: number = -1;
+
+  /**
+   * @private
+   */
+  private _mtcLocked: boolean = false;
+
+  /**
+   * The values of the eight quarter frame pieces
+   * @type {number[]}
+   * @private
+   */
+  private _mtcPieces: number[] = [0, 0, 0, 0, 0, 0, 0, 0];
+
+  /**
+   * @private
+   */
+  private _mtcPosition: Timecode = null;
+
+  /**
+   * @private
+   */
+  private _mtcTimer: any = null;
+
+  /**
+   * Whether MPE (MIDI Polyphonic Expression) mode is enabled. In MPE mode, the pitch bend, channel
+   * aftertouch and timbre (CC74) messages received on the member channel of an active note trigger
+   * [`notebend`](#event:notebend), [`notepressure`](#event:notepressure) and
+   * [`notetimbre`](#event:notetimbre) events carrying the matching [`Note`](Note). The last
+   * expression values received on a member channel before a note starts are applied to the note
+   * (the events are triggered when the note on message is received).
+   *
+   * Zones are configured by incoming MPE Configuration Messages (RPN 6). Until one is received, a
+   * lower zone with 15 member channels is assumed. See [`mpeZones`](#mpeZones).
+   *
+   * @type {boolean}
+   * @since 3.2.0
+   */
+  public mpe: boolean = false;
+
+  /**
+   * The last expression value received on each member channel, by event type
+   * @type {object[]}
+   * @private
+   */
+  private _mpeExpression: {
+    [type: string]: { message: Message, rawValue: number, value: number }
+  }[] = [];
+
+  /**
+   * The active notes of each member channel
+   * @type {{number: number, note: Note}[][]}
+   * @private
+   */
+  private _mpeNotes: { number: number, note: Note }[][] = [];
+
+  /**
+   * The registered parameter number selected on each manager channel
+   * @type {number[][]}
+   * @private
+   */
+  private _mpeRpn: number[][] = [];
+
+  /**
+   * @private
+   */
+  private _mpeZones: { lower: number, upper: number } = {lower: 15, upper: 0};
+
   /**
    * Array containing the 16 [`InputChannel`](InputChannel) objects available for this `Input`. The
    * channels are numbered 1 through 16.
@@ -104,6 +251,36 @@ export class Input extends EventEmitter {
    */
   private _onMidiMessage(e) {
 
+    // Some backends deliver long system exclusive messages in multiple fragments. Those are
+    // buffered until the terminating 0xF7 byte arrives. Real-time messages can be interleaved.
+    if (this._sysexBuffer && !(e.data.length === 1 && e.data[0] >= 0xF8)) {
+
+      // Continuation fragments start with a data byte (or the terminating 0xF7 byte)
+      if (e.data[0] < 0x80 || e.data[0] === 0xF7) {
+
+        // Fragments can be large, so they are not spread into push()
+        for (const byte of e.data) this._sysexBuffer.push(byte);
+
+        if (e.data[e.data.length - 1] !== 0xF7) {
+          this._onSysexFragment(e.timeStamp);
+          return;
+        }
+
+        e = {data: Uint8Array.from(this._sysexBuffer), timeStamp: e.timeStamp};
+        this._resetSysex();
+
+      } else {
+        this._abortSysex("interrupted by another message", e.timeStamp);
+      }
+
+    }
+
+    if (e.data[0] === 0xF0 && e.data[e.data.length - 1] !== 0xF7) {
+      this._sysexBuffer = Array.from(e.data);
+      this._onSysexFragment(e.timeStamp);
+      return;
+    }
+
     // Create Message object from MIDI data
     const message = new Message(e.data);
 
@@ -145,6 +322,7 @@ export class Input extends EventEmitter {
       this._parseEvent(event);
     } else if (message.isChannelMessage) {   // channel messages
       this.channels[message.channel]._processMidiMessageEvent(event);
+      if (this.mpe) this._parseMpe(event);
     }
 
     // Forward message if forwarders have been defined
@@ -152,6 +330,91 @@ export class Input extends EventEmitter {
 
   }
 
+  /**
+   * Discards the system exclusive message being reassembled and emits an `error` event.
+   * @private
+   */
+  private _abortSysex(reason: string, timestamp: number = WebMidi.time) {
+
+    const data = Uint8Array.from(this._sysexBuffer);
+    this._resetSysex();
+
+    /**
+     * Event emitted when an incomplete system exclusive message is discarded, either because the
+     * next fragment did not arrive within [`sysexTimeout`](#sysexTimeout) or because another
+     * message interrupted it.
+     *
+     * @event Input#error
+     *
+     * @type {object}
+     *
+     * @property {Uint8Array} data The bytes received before the message was discarded.
+     * @property {Error} error An `Error` object describing the problem.
+     * @property {Input} port The `Input` that triggered the event.
+     * @property {Input} target The object that dispatched the event.
+     * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+     * milliseconds since the navigation start of the document).
+     * @property {string} type `error`
+     *
+     * @since 3.2.0
+     */
+    this.emit("error", {
+      data,
+      error: new Error(`Incomplete system exclusive message discarded (${reason}).`),
+      port: this,
+      target: this,
+      timestamp,
+      type: "error"
+    });
+
+  }
+
+  /**
+   * Executed when a fragment of a system exclusive message has been buffered.
+   * @private
+   */
+  private _onSysexFragment(timestamp: number) {
+
+    clearTimeout(this._sysexTimer);
+    this._sysexTimer = setTimeout(() => this._abortSysex("timeout"), this.sysexTimeout);
+
+    /**
+     * Event emitted when a fragment of a system exclusive message delivered in multiple parts has
+     * been received. Once the message is complete, a regular [`sysex`](#event:sysex) event is
+     * emitted.
+     *
+     * @event Input#sysexprogress
+     *
+     * @type {object}
+     *
+     * @property {number} received The number of bytes received so far.
+     * @property {Input} port The `Input` that triggered the event.
+     * @property {Input} target The object that dispatched the event.
+     * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+     * milliseconds since the navigation start of the document).
+     * @property {string} type `sysexprogress`
+     *
+     * @since 3.2.0
+     */
+    this.emit("sysexprogress", {
+      received: this._sysexBuffer.length,
+      port: this,
+      target: this,
+      timestamp,
+      type: "sysexprogress"
+    });
+
+  }
+
+  /**
+   * @private
+   */
+  private _resetSysex() {
+    clearTimeout(this._sysexTimer);
+    this._sysexTimer = null;
+    this._sysexBuffer = null;
+  }
+
   /**
    * Executed when a `"statechange"` event occurs.
    *
@@ -253,6 +516,470 @@ export class Input extends EventEmitter {
     // Emit event
     this.emit(event.type, event);
 
+    // Assemble MIDI Time Code
+    if (event.type === "timecode") {
+      this._parseTimecodeQuarterFrame(event);
+    } else if (event.type === "sysex") {
+      this._parseTimecodeFullFrame(event);
+    }
+
+    // Add specific event for universal identity replies
+    if (event.type === "sysex") {
+
+      const identity = this._parseIdentityReply(event.message);
+
+      if (identity) {
+
+        /**
+         * Event emitted when a Universal Non-Real-Time **Identity Reply** message has been received
+         * (usually in response to [`Output.sendIdentityRequest()`](Output#sendIdentityRequest)).
+         *
+         * @event Input#identityreply
+         *
+         * @type {object}
+         *
+         * @property {DeviceIdentity} identity The identity of the device.
+         * @property {Message} message The system exclusive message.
+         * @property {Input} port The `Input` that triggered the event.
+         * @property {Input} target The object that dispatched the event.
+         * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+         * milliseconds since the navigation start of the document).
+         * @property {string} type `identityreply`
+         *
+         * @since 3.2.0
+         */
+        this.emit("identityreply", {
+          identity,
+          message: event.message,
+          port: this,
+          target: this,
+          timestamp: event.timestamp,
+          type: "identityreply"
+        });
+
+      }
+
+      this._parseMmc(event);
+
+    }
+
+  }
+
+  /**
+   * Emits a `timecodeposition` event for the current MIDI Time Code position.
+   * @private
+   */
+  private _emitTimecodePosition(e: any) {
+
+    /**
+     * Event emitted when a MIDI Time Code position has been assembled from eight consecutive
+     * quarter frame messages or received in a full frame message.
+     *
+     * Since eight quarter frames span two frames, the position assembled from quarter frames is
+     * compensated by two frames in the direction of playback so it matches the current frame.
+     *
+     * @event Input#timecodeposition
+     *
+     * @type {object}
+     *
+     * @property {string} direction The direction of playback: `"forward"`, `"reverse"` or `null`
+     * if unknown.
+     * @property {boolean} locked Whether the `Input` is locked to a running quarter frame stream.
+     * @property {Message} message The message that completed the position.
+     * @property {Input} port The `Input` that triggered the event.
+     * @property {Input} target The object that dispatched the event.
+     * @property {Timecode} timecode The position.
+     * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+     * milliseconds since the navigation start of the document).
+     * @property {string} type `timecodeposition`
+     *
+     * @since 3.2.0
+     */
+    this.emit("timecodeposition", {
+      direction: this._mtcDirection,
+      locked: this._mtcLocked,
+      message: e.message,
+      port: this,
+      target: this,
+      timecode: this.timecode,
+      timestamp: e.timestamp,
+      type: "timecodeposition"
+    });
+
+  }
+
+  /**
+   * Parses a MIDI Time Code full frame message (`F0 7F <device ID> 01 01 hh mm ss ff F7`).
+   * @private
+   */
+  private _parseTimecodeFullFrame(e: any) {
+
+    const data = e.message.dataBytes;
+    if (e.message.manufacturerId[0] !== 0x7F || data[1] !== 0x01 || data[2] !== 0x01) return;
+    if (data.length < 7) return;
+
+    // Full frames are sent when the transport is relocated: the quarter frame stream restarts
+    this._resetTimecode(e.timestamp);
+
+    this._mtcPosition = Input._toTimecode(
+      data[3] & 0x1F,
+      data[4],
+      data[5],
+      data[6],
+      (data[3] >> 5) & 0x03
+    );
+
+    this._emitTimecodePosition(e);
+
+  }
+
+  /**
+   * Parses a MIDI Time Code quarter frame message.
+   * @private
+   */
+  private _parseTimecodeQuarterFrame(e: any) {
+
+    const piece = e.message.dataBytes[0] >> 4;
+    const nibble = e.message.dataBytes[0] & 0x0F;
+
+    // Pieces are received in ascending order when playing forward and in descending order when
+    // playing in reverse.
+    let direction = null;
+    if (this._mtcLast >= 0 && piece === (this._mtcLast + 1) % 8) direction = "forward";
+    if (this._mtcLast >= 0 && piece === (this._mtcLast + 7) % 8) direction = "reverse";
+
+    // The sequence restarts if a piece is missing or if the direction has changed
+    if (!direction || (this._mtcDirection && direction !== this._mtcDirection)) {
+      this._mtcCount = 0;
+      this._setTimecodeLock(false, e.timestamp);
+    }
+
+    this._mtcDirection = direction;
+    this._mtcLast = piece;
+    this._mtcPieces[piece] = nibble;
+    this._mtcCount++;
+
+    clearTimeout(this._mtcTimer);
+    this._mtcTimer = setTimeout(() => this._resetTimecode(), this.timecodeTimeout);
+
+    // The position is complete once all eight pieces of the sequence have been received
+    if (this._mtcCount < 8 || piece !== (direction === "forward" ? 7 : 0)) return;
+
+    const p = this._mtcPieces;
+
+    const timecode = Input._toTimecode(
+      p[6] + ((p[7] & 0x01) << 4),
+      p[4] + ((p[5] & 0x03) << 4),
+      p[2] + ((p[3] & 0x03) << 4),
+      p[0] + ((p[1] & 0x01) << 4),
+      (p[7] >> 1) & 0x03
+    );
+
+    this._mtcPosition = Utilities.fromFramesToTimecode(
+      Utilities.fromTimecodeToFrames(timecode) + (direction === "forward" ? 2 : -2),
+      timecode.frameRate
+    );
+
+    this._setTimecodeLock(true, e.timestamp);
+    this._emitTimecodePosition(e);
+
+  }
+
+  /**
+   * Resets the state of the MIDI Time Code quarter frame stream.
+   * @private
+   */
+  private _resetTimecode(timestamp: number = WebMidi.time) {
+    clearTimeout(this._mtcTimer);
+    this._mtcTimer = null;
+    this._mtcCount = 0;
+    this._mtcDirection = null;
+    this._mtcLast = -1;
+    this._setTimecodeLock(false, timestamp);
+  }
+
+  /**
+   * Updates the MIDI Time Code lock state and emits a `timecodelock` event if it changed.
+   * @private
+   */
+  private _setTimecodeLock(locked: boolean, timestamp: number) {
+
+    if (this._mtcLocked === locked) return;
+    this._mtcLocked = locked;
+
+    /**
+     * Event emitted when the `Input` locks to a running MIDI Time Code quarter frame stream (after
+     * eight consecutive quarter frames) or loses it (missing piece, direction change, full frame
+     * message or no quarter frame received within [`timecodeTimeout`](#timecodeTimeout)).
+     *
+     * @event Input#timecodelock
+     *
+     * @type {object}
+     *
+     * @property {boolean} locked Whether the `Input` is now locked.
+     * @property {Input} port The `Input` that triggered the event.
+     * @property {Input} target The object that dispatched the event.
+     * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+     * milliseconds since the navigation start of the document).
+     * @property {string} type `timecodelock`
+     *
+     * @since 3.2.0
+     */
+    this.emit("timecodelock", {locked, port: this, target: this, timestamp, type: "timecodelock"});
+
+  }
+
+  /**
+   * Builds a `Timecode` object from the values found in MIDI Time Code messages.
+   * @private
+   */
+  static _toTimecode(
+    hours: number,
+    minutes: number,
+    seconds: number,
+    frames: number,
+    rate: number
+  ): Timecode {
+    return {
+      hours,
+      minutes,
+      seconds,
+      frames,
+      frameRate: [24, 25, 29.97, 30][rate],
+      dropFrame: rate === 2
+    };
+  }
+
+  /**
+   * Parses a Universal Non-Real-Time Identity Reply message. Returns `null` if the message is not
+   * an identity reply.
+   *
+   * @param {Message} message
+   * @returns {DeviceIdentity}
+   * @private
+   */
+  private _parseIdentityReply(message: Message): DeviceIdentity {
+
+    // F0 7E <device ID> 06 02 <manufacturer> <family> <model> <version> F7
+    const data = message.dataBytes;
+    if (message.manufacturerId[0] !== 0x7E || data[1] !== 0x06 || data[2] !== 0x02) return null;
+
+    // The manufacturer ID is 1 or 3 bytes long, just like in any manufacturer-specific message
+    const manufacturerId =
+      new Message(Uint8Array.from([0xF0, ...data.slice(3), 0xF7])).manufacturerId;
+    const offset = 3 + manufacturerId.length;
+    if (data.length < offset + 8) return null;
+
+    return {
+      deviceId: data[0],
+      family: data[offset] + (data[offset + 1] << 7),
+      manufacturerId,
+      model: data[offset + 2] + (data[offset + 3] << 7),
+      version: data.slice(offset + 4, offset + 8)
+    };
+
+  }
+
+  /**
+   * Parses a MIDI Machine Control (MMC) command message and emits an event for each of the
+   * commands it contains.
+   * @private
+   */
+  private _parseMmc(e: any) {
+
+    // F0 7F <device ID> 06 <command> [<byte count> <data>] ... F7
+    const data = e.message.dataBytes;
+    if (e.message.manufacturerId[0] !== 0x7F || data[1] !== 0x06) return;
+
+    const commands = Enumerations.MMC_COMMANDS;
+    let index = 2;
+
+    while (index < data.length) {
+
+      const number = data[index];
+
+      // Commands 0x40 to 0x77 are followed by a byte count and that many data bytes
+      const length = number >= 0x40 && number <= 0x77 ? data[index + 1] + 1 : 0;
+      const bytes = data.slice(index + 1, index + 1 + length);
+      index += 1 + length;
+
+      let command = Object.keys(commands).find(name => commands[name] === number);
+      if (!command) continue;
+
+      const event: MmcEvent = {
+        command,
+        data: bytes,
+        deviceId: data[0],
+        message: e.message,
+        port: this,
+        target: this,
+        timestamp: e.timestamp,
+        type: undefined
+      };
+
+      if (command === "locate") {
+
+        // Only the TARGET sub-command carries a position
+        if (bytes[1] !== 0x01 || bytes.length < 7) continue;
+
+        event.timecode = Input._toTimecode(
+          bytes[2] & 0x1F,
+          bytes[3],
+          bytes[4],
+          bytes[5],
+          (bytes[2] >> 5) & 0x03
+        );
+
+      } else if (command === "write" && bytes[1] === 0x4F) {
+
+        // Record ready field: track 1 is bit 5 of the first byte and each byte then holds 7 tracks
+        command = event.command = "trackarm";
+        event.tracks = [];
+
+        bytes.slice(3, 3 + bytes[2]).forEach((byte, i) => {
+          for (let bit = 0; bit < 7; bit++) {
+            const track = i * 7 + bit - 4;
+            if (track >= 1 && byte & (1 << bit)) event.tracks.push(track);
+          }
+        });
+
+      }
+
+      event.type = "mmc" + command;
+      this.emit(event.type, event);
+
+    }
+
+  }
+
+  /**
+   * Tracks the MPE zone configuration and the active notes of member channels, and emits per-note
+   * expression events.
+   * @private
+   */
+  private _parseMpe(e: any) {
+
+    const message = e.message;
+    const channel = message.channel;
+    const [data1, data2] = message.dataBytes;
+
+    // MPE Configuration Message (RPN 6) on a manager channel
+    if (message.type === "controlchange" && (channel === 1 || channel === 16)) {
+
+      const rpn = this._mpeRpn[channel] || [127, 127];
+      if (data1 === 101) rpn[0] = data2;
+      if (data1 === 100) rpn[1] = data2;
+      this._mpeRpn[channel] = rpn;
+
+      if (data1 === 6 && rpn[0] === 0 && rpn[1] === 6) {
+        const zone = channel === 1 ? "lower" : "upper";
+        const other = channel === 1 ? "upper" : "lower";
+        this._mpeZones[zone] = Math.min(data2, 15);
+        this._mpeZones[other] = Math.min(this._mpeZones[other], Math.max(0, 14 - data2));
+        this._mpeExpression = [];
+        this._mpeNotes = [];
+        return;
+      }
+
+      // Other control changes are only swallowed if the channel manages a zone. Otherwise, it can
+      // be a member channel of the other zone (e.g. channel 16 with a lower zone of 15 channels).
+      if (this._mpeZones[channel === 1 ? "lower" : "upper"] > 0) return;
+
+    }
+
+    // Only member channels carry per-note messages
+    const lower = this._mpeZones.lower;
+    const upper = this._mpeZones.upper;
+    let zone = null;
+    if (channel >= 2 && channel <= 1 + lower) zone = "lower";
+    if (channel <= 15 && channel >= 16 - upper) zone = "upper";
+    if (!zone) return;
+
+    const notes = this._mpeNotes[channel] || [];
+    this._mpeNotes[channel] = notes;
+
+    if (message.type === "noteon" && data2 > 0) {
+
+      const note = new Note(
+        Utilities.offsetNumber(
+          data1, this.channels[channel].octaveOffset + this.octaveOffset + WebMidi.octaveOffset
+        ),
+        {rawAttack: data2}
+      );
+
+      notes.push({number: data1, note});
+
+      // Expression sent before the note on (to set its initial bend, pressure or timbre) applies to
+      // the new note
+      const expression = this._mpeExpression[channel] || {};
+
+      Object.keys(expression).forEach(type => {
+        const {message, rawValue, value} = expression[type];
+        this._emitMpeNoteEvents(type, message, e.timestamp, zone, value, rawValue, [note]);
+      });
+
+    } else if (message.type === "noteon" || message.type === "noteoff") {
+      this._mpeNotes[channel] = notes.filter(n => n.number !== data1);
+    } else if (message.type === "pitchbend") {
+      const rawValue = (data2 << 7) + data1;
+      this._setMpeExpression("notebend", e, zone, (rawValue - 8192) / 8192, rawValue);
+    } else if (message.type === "channelaftertouch") {
+      this._setMpeExpression("notepressure", e, zone, Utilities.from7bitToFloat(data1), data1);
+    } else if (message.type === "controlchange" && data1 === 74) {
+      this._setMpeExpression("notetimbre", e, zone, Utilities.from7bitToFloat(data2), data2);
+    }
+
+  }
+
+  /**
+   * Keeps the last expression value of the message's channel (so it can be applied to the next
+   * note) and emits a per-note expression event for each note active on that channel.
+   * @private
+   */
+  private _setMpeExpression(type: string, e: any, zone: string, value: number, rawValue: number) {
+
+    const channel = e.message.channel;
+    const notes = (this._mpeNotes[channel] || []).map(active => active.note);
+
+    this._mpeExpression[channel] = this._mpeExpression[channel] || {};
+    this._mpeExpression[channel][type] = {message: e.message, rawValue, value};
+
+    this._emitMpeNoteEvents(type, e.message, e.timestamp, zone, value, rawValue, notes);
+
+  }
+
+  /**
+   * Emits a per-note expression event for each of the specified notes.
+   * @private
+   */
+  private _emitMpeNoteEvents(
+    type: string,
+    message: Message,
+    timestamp: number,
+    zone: string,
+    value: number,
+    rawValue: number,
+    notes: Note[]
+  ) {
+
+    const channel = message.channel;
+
+    notes.forEach(note => {
+      const event: MpeNoteEvent = {
+        channel,
+        message,
+        note,
+        port: this,
+        rawValue,
+        target: this,
+        timestamp,
+        type,
+        value,
+        zone
+      };
+      this.emit(type, event);
+    });
+
   }
 
 
@@ -273,6 +1000,9 @@ export class Input extends EventEmitter {
    * @param {number|number[]} [options.channels=[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]]
    * A MIDI channel number or an array of channel numbers that the message must match in order to be
    * forwarded. By default all MIDI channels are included (`1` to `16`).
+   * @param {ForwarderTransform|ForwarderTransform[]} [options.transforms] A function, or an array
+   * of functions, transforming the messages before they are forwarded. See
+   * [`Forwarder.addTransform()`](Forwarder#addTransform).
    *
    * @returns {Forwarder} The [`Forwarder`](Forwarder) object created to handle the forwarding. This
    * is useful if you wish to manipulate or remove the [`Forwarder`](Forwarder) later on.
@@ -280,6 +1010,7 @@ export class Input extends EventEmitter {
   addForwarder(output: Output | Output[], options?: {
     types?: string | string[];
     channels?: number | number[];
+    transforms?: ForwarderTransform | ForwarderTransform[];
   }): Forwarder {
 
     let forwarder: Forwarder;
@@ -456,6 +1187,18 @@ export class Input extends EventEmitter {
       "prepend"?: boolean;
       "remaining"?: number;
     }
+  ): Listener | Listener[];
+  addListener(
+    event: Symbol | string,
+    listener: EventEmitterCallback,
+    options?: {
+      "duration": number;
+      "arguments"?: any[];
+      "channels"?: number | number[];
+      "context"?: any;
+      "prepend"?: boolean;
+      "remaining"?: number;
+    }
   ): Listener | Listener[] {
 
     // Check if the event is channel-specific or input-wide
@@ -666,6 +1409,8 @@ export class Input extends EventEmitter {
     this.channels.forEach(ch => ch.destroy());
     this.channels = [];
     this._forwarders = [];
+    this._resetSysex();
+    clearTimeout(this._mtcTimer);
     if (this._midiInput) {
       this._midiInput.onstatechange = null;
       this._midiInput.onmidimessage = null;
@@ -710,6 +1455,13 @@ export class Input extends EventEmitter {
     options?: {
       "channels"?: number | number[];
     }
+  ): boolean;
+  hasListener(
+    event: Symbol | string,
+    listener: EventEmitterCallback,
+    options?: {
+      "channels"?: number | number[];
+    }
   ): boolean {
     if (WebMidi.validation) {
 
@@ -798,6 +1550,15 @@ export class Input extends EventEmitter {
       "context"?: any;
       "remaining"?: number;
     }
+  ): void;
+  removeListener(
+    event?: Symbol | string,
+    listener?: EventEmitterCallback,
+    options?: {
+      "channels"?: number | number[];
+      "context"?: any;
+      "remaining"?: number;
+    }
   ): void {
 
     if (options.channels === undefined) options.channels = Enumerations.CHANNEL_NUMBERS;
@@ -856,6 +1617,18 @@ export class Input extends EventEmitter {
     return this._midiInput.manufacturer;
   }
 
+  /**
+   * The number of member channels of each MPE zone (`0` means the zone is disabled), as configured
+   * by the last MPE Configuration Messages received. See [`mpe`](#mpe).
+   *
+   * @type {{lower: number, upper: number}}
+   * @readonly
+   * @since 3.2.0
+   */
+  get mpeZones(): { lower: number, upper: number } {
+    return Object.assign({}, this._mpeZones);
+  }
+
   /**
    * Name of the MIDI input.
    *
@@ -897,6 +1670,41 @@ export class Input extends EventEmitter {
     return this._midiInput.state;
   }
 
+  /**
+   * The last MIDI Time Code position received (from quarter frame or full frame messages) or
+   * `null` if no position has been received yet.
+   *
+   * @type {Timecode}
+   * @readonly
+   * @since 3.2.0
+   */
+  get timecode(): Timecode {
+    return this._mtcPosition ? Object.assign({}, this._mtcPosition) : null;
+  }
+
+  /**
+   * The direction of the incoming MIDI Time Code quarter frame stream: `"forward"`, `"reverse"` or
+   * `null` if unknown.
+   *
+   * @type {string}
+   * @readonly
+   * @since 3.2.0
+   */
+  get timecodeDirection(): string {
+    return this._mtcDirection;
+  }
+
+  /**
+   * Whether the `Input` is locked to a running MIDI Time Code quarter frame stream.
+   *
+   * @type {boolean}
+   * @readonly
+   * @since 3.2.0
+   */
+  get timecodeLocked(): boolean {
+    return this._mtcLocked;
+  }
+
   /**
    * The port type. In the case of the `Input` object, this is always: `input`.
    *
@@ -1136,4 +1944,202 @@ export class Input extends EventEmitter {
  * @since 2.1
  */
 
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **chase** command has been
+ * received.
+ *
+ * @event Input#mmcchase
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **deferred play** command has
+ * been received.
+ *
+ * @event Input#mmcdeferredplay
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **eject** command has been
+ * received.
+ *
+ * @event Input#mmceject
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **fast forward** command has
+ * been received.
+ *
+ * @event Input#mmcfastforward
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **locate** command (with a
+ * target position) has been received.
+ *
+ * @event Input#mmclocate
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **pause** command has been
+ * received.
+ *
+ * @event Input#mmcpause
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **play** command has been
+ * received.
+ *
+ * @event Input#mmcplay
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **record exit** command has
+ * been received.
+ *
+ * @event Input#mmcrecordexit
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **record pause** command has
+ * been received.
+ *
+ * @event Input#mmcrecordpause
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **record strobe** command has
+ * been received.
+ *
+ * @event Input#mmcrecordstrobe
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **reset** command has been
+ * received.
+ *
+ * @event Input#mmcreset
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **rewind** command has been
+ * received.
+ *
+ * @event Input#mmcrewind
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **stop** command has been
+ * received.
+ *
+ * @event Input#mmcstop
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **write** command targeting
+ * the **record ready** field (track arming) has been received.
+ *
+ * @event Input#mmctrackarm
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Input-wide (system) event emitted when a MIDI Machine Control (MMC) **write** command targeting
+ * any other field has been received.
+ *
+ * @event Input#mmcwrite
+ *
+ * @type {MmcEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Event emitted, in MPE mode, when a **pitch bend** message has been received on the member channel
+ * of an active note. See [`mpe`](#mpe).
+ *
+ * @event Input#notebend
+ *
+ * @type {MpeNoteEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Event emitted, in MPE mode, when a **channel aftertouch** (pressure) message has been received on
+ * the member channel of an active note. See [`mpe`](#mpe).
+ *
+ * @event Input#notepressure
+ *
+ * @type {MpeNoteEvent}
+ *
+ * @since 3.2.0
+ */
+
+/**
+ * Event emitted, in MPE mode, when a timbre message (**control change 74**) has been received on
+ * the member channel of an active note. See [`mpe`](#mpe).
+ *
+ * @event Input#notetimbre
+ *
+ * @type {MpeNoteEvent}
+ *
+ * @since 3.2.0
+ */
+
 /*END!Inputs,js-----------------------------------------------------------------------------------------------------------------------*/
@@ -4,7 +4,13 @@ import {Utilities} from "./Utilities";
 import {Note} from "./Note";
 import {Enumerations} from "./Enumerations";
 import { Input } from "./Input";
-import { InputChannelEventMap } from "./Interfaces";
+import {
+  ControlChange14MessageEvent,
+  InputChannelEventMap,
+  InputChannelState,
+  SoundingNoteEvent,
+  StateChangeEvent
+} from "./Interfaces";
 import { Listener } from "./Listener";
 
 /**
@@ -44,6 +50,7 @@ import { Listener } from "./Listener";
  * @fires InputChannel#event:rpn-datadecrement
  *
  * @fires InputChannel#controlchange
+ * @fires InputChannel#controlchange14
  * @fires InputChannel#event:controlchange-controllerxxx
  * @fires InputChannel#event:controlchange-bankselectcoarse
  * @fires InputChannel#event:controlchange-modulationwheelcoarse
@@ -114,6 +121,9 @@ import { Listener } from "./Listener";
  * @fires InputChannel#event:controlchange-monomodeon
  * @fires InputChannel#event:controlchange-polymodeon
  * @fires InputChannel#event:
+ * @fires InputChannel#notereleased
+ * @fires InputChannel#notesustained
+ * @fires InputChannel#statechange
  *
  * @extends EventEmitter
  * @license Apache-2.0
@@ -184,6 +194,108 @@ export class InputChannel extends EventEmitter {
      * @type {boolean[]}
      */
     this.notesState = new Array(128).fill(false);
+
+    this.resetState();
+  }
+
+  /**
+   * Dispatches a `controlchange14` event for the specified controller pair.
+   * @private
+   */
+  private _dispatchControlChange14Event(number: number, e: any) {
+
+    const msb = this._cc14Msb[number] || 0;
+    const lsb = this._cc14Lsb[number] || 0;
+
+    /**
+     * Event emitted when a 14-bit control change value has been assembled from a controller pair
+     * (see [`controlChange14EventsEnabled`](#controlChange14EventsEnabled)).
+     *
+     * @event InputChannel#controlchange14
+     *
+     * @type {object}
+     * @property {string} type `controlchange14`
+     *
+     * @property {InputChannel} target The object that dispatched the event.
+     * @property {Input} port The `Input` that triggered the event.
+     * @property {Message} message The last message of the pair.
+     * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+     * milliseconds since the navigation start of the document).
+     *
+     * @property {object} controller
+     * @property {object} controller.number The number of the MSB controller (0-31).
+     * @property {object} controller.name The usual name or function of the MSB controller.
+     * @property {object} controller.description A user-friendly representation of the
+     * controller's default function
+     * @property {number} value The value expressed as a float between 0 and 1.
+     * @property {number} rawValue The value expressed as a 14-bit integer (between 0 and 16383).
+     * @property {number} msb The most significant byte (between 0 and 127).
+     * @property {number} lsb The least significant byte (between 0 and 127).
+     *
+     * @since 3.2.0
+     */
+    const event: ControlChange14MessageEvent = {
+      channel: this._number,
+      controller: {
+        number,
+        name: Enumerations.CONTROL_CHANGE_MESSAGES[number].name,
+        description: Enumerations.CONTROL_CHANGE_MESSAGES[number].description
+      },
+      lsb,
+      message: e.message,
+      msb,
+      port: e.port,
+      rawValue: (msb << 7) + lsb,
+      target: this,
+      timestamp: e.timestamp,
+      type: "controlchange14",
+      value: Utilities.fromMsbLsbToFloat(msb, lsb)
+    };
+
+    this.emit(event.type, event);
+
+  }
+
+  /**
+   * Combines the MSB (0-31) and LSB (32-63) halves of 14-bit controller pairs.
+   * @private
+   */
+  private _parseControlChange14(e: any) {
+
+    const [controller, value] = e.message.dataBytes;
+    const number = controller % 32;
+
+    clearTimeout(this._cc14Timers[number]);
+    this._cc14Timers[number] = null;
+
+    // LSB
+    if (controller >= 32) {
+      this._cc14Lsb[number] = value;
+      if (!this.controlChange14LsbFirst) this._dispatchControlChange14Event(number, e);
+      return;
+    }
+
+    // MSB
+    this._cc14Msb[number] = value;
+
+    if (this.controlChange14LsbFirst) {
+      this._dispatchControlChange14Event(number, e);
+      this._cc14Lsb[number] = 0;
+      return;
+    }
+
+    // As per the MIDI specification, a new MSB resets the LSB
+    this._cc14Lsb[number] = 0;
+
+    if (this.controlChange14Timeout > 0) {
+      this._cc14Timers[number] = setTimeout(() => {
+        this._cc14Timers[number] = null;
+        this._dispatchControlChange14Event(number, e);
+      }, this.controlChange14Timeout);
+    } else {
+      this._dispatchControlChange14Event(number, e);
+    }
+
   }
 
   private _dispatchParameterNumberEvent(type, paramMsb, paramLsb, e) {
@@ -392,6 +504,8 @@ export class InputChannel extends EventEmitter {
       rawValue: e.message.dataBytes[1],
     };
 
+    this._updateParameterState(type, (paramMsb << 7) + paramLsb, e);
+
     // Identify the parameter (by name for RPN and by number for NRPN)
     if (type === "rpn") {
 
@@ -746,7 +860,10 @@ export class InputChannel extends EventEmitter {
 
     if ( event.type === "noteoff" || (event.type === "noteon" && data2 === 0) ) {
 
+      const keyDown = this.notesState[data1];
       this.notesState[data1] = false;
+      this._setState("notes", data1, null, e);
+      if (keyDown) this._releaseKey(data1, e);
       event.type = "noteoff"; // necessary for note on with 0 velocity
 
       /**
@@ -794,6 +911,8 @@ export class InputChannel extends EventEmitter {
     } else if (event.type === "noteon") {
 
       this.notesState[data1] = true;
+      this._setState("notes", data1, {rawAttack: data2, timestamp: e.timestamp}, e);
+      this._soundingNotes[data1] = data2;
 
       /**
        * Event emitted when a **note on** MIDI message has been received.
@@ -862,6 +981,7 @@ export class InputChannel extends EventEmitter {
       // Aftertouch value
       event.value = Utilities.from7bitToFloat(data2);
       event.rawValue = data2;
+      this._setState("keyAftertouch", data1, data2, e);
 
       // @deprecated
       event.identifier = event.note.identifier;
@@ -2704,6 +2824,8 @@ export class InputChannel extends EventEmitter {
        * @property {number} rawValue The value expressed as an integer (between 0 and 127).
        */
 
+      this._updateControllerState(data1, data2, e);
+
       const namedEvent = Object.assign({}, event);
       namedEvent.type = `${event.type}-` + Enumerations.CONTROL_CHANGE_MESSAGES[data1].name;
       delete namedEvent.subtype;
@@ -2725,6 +2847,9 @@ export class InputChannel extends EventEmitter {
         this._parseEventForParameterNumber(event);
       }
 
+      // Combine the MSB and LSB of 14-bit controller pairs
+      if (this.controlChange14EventsEnabled && data1 < 64) this._parseControlChange14(event);
+
     } else if (event.type === "programchange") {
 
       /**
@@ -2748,6 +2873,13 @@ export class InputChannel extends EventEmitter {
       event.value = data1;
       event.rawValue = event.value;
 
+      // The bank is the one selected when the program change is received
+      this._setState("program", null, {
+        number: data1,
+        bankMsb: this._state.controllers[0],
+        bankLsb: this._state.controllers[32]
+      }, e);
+
     } else if (event.type === "channelaftertouch") {
 
       /**
@@ -2770,6 +2902,7 @@ export class InputChannel extends EventEmitter {
        */
       event.value = Utilities.from7bitToFloat(data1);
       event.rawValue = data1;
+      this._setState("channelAftertouch", null, data1, e);
 
     } else if (event.type === "pitchbend") {
 
@@ -2794,6 +2927,7 @@ export class InputChannel extends EventEmitter {
        */
       event.value = ((data2 << 7) + data1 - 8192) / 8192;
       event.rawValue = (data2 << 7) + data1;
+      this._setState("pitchBend", null, event.rawValue, e);
 
     } else {
       event.type = "unknownmessage";
@@ -2836,6 +2970,315 @@ export class InputChannel extends EventEmitter {
   private _nrpnBuffer;
   private _rpnBuffer;
 
+  /**
+   * Returns the number of the specified note, factoring in the octave offsets for note identifiers
+   * and `Note` objects.
+   * @private
+   */
+  private _getNoteNumber(note: number | string | Note): number {
+    if (note instanceof Note) note = note.identifier;
+    return Number(Utilities.guessNoteNumber(
+      note,
+      WebMidi.octaveOffset + this.input.octaveOffset + this.octaveOffset
+    ));
+  }
+
+  /**
+   * Handles a key being released: the note stops sounding unless it is held by the sustain or
+   * sostenuto pedal.
+   * @private
+   */
+  private _releaseKey(number: number, e: any) {
+
+    if (this._soundingNotes[number] === null) return;
+
+    if (this.sustainPedal || this._sostenutoNotes[number]) {
+
+      /**
+       * Event emitted when the key of a note is released while the note is held by the sustain or
+       * sostenuto pedal. The note keeps sounding until a
+       * [`notereleased`](#event:notereleased) event is dispatched for it.
+       *
+       * @event InputChannel#notesustained
+       *
+       * @type {SoundingNoteEvent}
+       * @property {string} type `notesustained`
+       * @since 3.2.0
+       */
+      this._emitSoundingNoteEvent("notesustained", number, e);
+
+    } else {
+      this._releaseNote(number, e);
+    }
+
+  }
+
+  /**
+   * Releases the notes that are no longer held by a key or a pedal.
+   * @private
+   */
+  private _releaseHeldNotes(e: any) {
+
+    if (this.sustainPedal) return;
+
+    this._soundingNotes.forEach((attack, number) => {
+      if (attack === null || this.notesState[number] || this._sostenutoNotes[number]) return;
+      this._releaseNote(number, e);
+    });
+
+  }
+
+  /**
+   * Marks a note as no longer sounding and dispatches a `notereleased` event.
+   * @private
+   */
+  private _releaseNote(number: number, e: any) {
+
+    /**
+     * Event emitted when a note stops sounding: when its key is released (if no pedal holds it),
+     * when the pedal holding it is released or when an **all sound off** message is received.
+     *
+     * @event InputChannel#notereleased
+     *
+     * @type {SoundingNoteEvent}
+     * @property {string} type `notereleased`
+     * @since 3.2.0
+     */
+    this._emitSoundingNoteEvent("notereleased", number, e);
+    this._soundingNotes[number] = null;
+
+  }
+
+  /**
+   * Dispatches a `notesustained` or `notereleased` event for the specified note number.
+   * @private
+   */
+  private _emitSoundingNoteEvent(type: string, number: number, e: any) {
+
+    const note = new Note(
+      Utilities.offsetNumber(
+        number, this.octaveOffset + this.input.octaveOffset + WebMidi.octaveOffset
+      ),
+      {rawAttack: this._soundingNotes[number]}
+    );
+
+    const event: SoundingNoteEvent = {
+      channel: this.number,
+      message: e.message,
+      note,
+      port: this.input,
+      target: this,
+      timestamp: e.timestamp,
+      type
+    };
+
+    this.emit(event.type, event);
+
+  }
+
+  /**
+   * Changes a value of the state mirror and, if it is different, dispatches a `statechange` event.
+   * The `key` is the index (or map key) of the value for array and map properties and `null`
+   * otherwise.
+   * @private
+   */
+  private _setState(property: string, key: number, value: any, e: any) {
+
+    if (key === null) {
+      if (this._state[property] === value) return;
+      this._state[property] = value;
+    } else {
+      if (this._state[property][key] === value) return;
+      this._state[property][key] = value;
+    }
+
+    /**
+     * Event emitted when a value of the channel's [`state`](#state) has changed. Values that are
+     * received again without change do not trigger the event.
+     *
+     * @event InputChannel#statechange
+     *
+     * @type {StateChangeEvent}
+     * @property {string} type `statechange`
+     * @property {string} property The name of the [`InputChannelState`](InputChannelState)
+     * property that changed (`"controllers"`, `"notes"`, `"pitchBend"`, etc.).
+     * @property {number} key The controller, note or parameter number that changed, if the property
+     * is an array or a map (`null` otherwise).
+     * @property {*} value The new value.
+     * @since 3.2.0
+     */
+    const event: StateChangeEvent = {
+      channel: this.number,
+      key,
+      message: e.message,
+      port: this.input,
+      property,
+      target: this,
+      timestamp: e.timestamp,
+      type: "statechange",
+      value
+    };
+
+    this.emit(event.type, event);
+
+  }
+
+  /**
+   * Updates the state mirror after a control change message. Channel mode messages release the
+   * notes and **reset all controllers** resets the controllers listed in the MIDI Association's
+   * RP-015 recommended practice.
+   * @private
+   */
+  private _updateControllerState(controller: number, value: number, e: any) {
+
+    const wasDown = this._state.controllers[controller] >= 64;
+    this._setState("controllers", controller, value, e);
+
+    if (controller === 64 && wasDown && value < 64) {
+
+      this._releaseHeldNotes(e);
+
+    } else if (controller === 66 && !wasDown && value >= 64) {
+
+      // The sostenuto pedal only holds the notes whose keys are down when it is pressed
+      this._sostenutoNotes = this.notesState.slice();
+
+    } else if (controller === 66 && wasDown && value < 64) {
+
+      this._sostenutoNotes.fill(false);
+      this._releaseHeldNotes(e);
+
+    } else if (controller === 120 || controller >= 123) {
+
+      // All sound off silences the notes immediately while the other messages act as a note off
+      // for each key (so the pedals still hold them).
+      if (controller === 120) this._sostenutoNotes.fill(false);
+      const keysDown = this.notesState.slice();
+
+      this._state.notes.forEach((note, number) => {
+        this.notesState[number] = false;
+        this._setState("notes", number, null, e);
+      });
+
+      this._soundingNotes.forEach((attack, number) => {
+        if (controller === 120) {
+          if (attack !== null) this._releaseNote(number, e);
+        } else if (keysDown[number]) {
+          this._releaseKey(number, e);
+        }
+      });
+
+    } else if (controller === 121) {
+
+      this._setState("pitchBend", null, 8192, e);
+      this._setState("channelAftertouch", null, 0, e);
+      this._state.keyAftertouch.forEach((pressure, note) => {
+        this._setState("keyAftertouch", note, 0, e);
+      });
+
+      [1, 64, 65, 66, 67].forEach(number => this._updateControllerState(number, 0, e));
+      this._setState("controllers", 11, 127, e);
+      [98, 99, 100, 101].forEach(number => this._setState("controllers", number, 127, e));
+
+    }
+
+  }
+
+  /**
+   * Updates the value of a registered or non-registered parameter in the state mirror after a data
+   * entry, increment or decrement message.
+   * @private
+   */
+  private _updateParameterState(type: string, parameter: number, e: any) {
+
+    const [controller, data] = e.message.dataBytes;
+    let value = this._state[type + "s"][parameter] || 0;
+
+    if (controller === 6) {
+      value = data << 7;                                // coarse (resets the fine part)
+    } else if (controller === 38) {
+      value = (value & 0x3F80) + data;                  // fine
+    } else if (controller === 96) {
+      value = Math.min(value + 1, 16383);               // increment
+    } else {
+      value = Math.max(value - 1, 0);                   // decrement
+    }
+
+    this._setState(type + "s", parameter, value, e);
+
+  }
+
+  /**
+   * The last LSB received for each 14-bit controller pair (0-31)
+   * @private
+   */
+  private _cc14Lsb: number[] = [];
+
+  /**
+   * The last MSB received for each 14-bit controller pair (0-31)
+   * @private
+   */
+  private _cc14Msb: number[] = [];
+
+  /**
+   * The timers waiting for the LSB of each 14-bit controller pair (0-31)
+   * @private
+   */
+  private _cc14Timers: any[] = [];
+
+  /**
+   * The notes held by the sostenuto pedal (0-127)
+   * @private
+   */
+  private _sostenutoNotes: boolean[];
+
+  /**
+   * The attack velocity of each sounding note (0-127) or `null` for silent notes
+   * @private
+   */
+  private _soundingNotes: number[];
+
+  /**
+   * The state mirror of the channel
+   * @private
+   */
+  private _state: InputChannelState;
+
+  /**
+   * Indicates whether [`controlchange14`](#event:controlchange14) events should be dispatched. When
+   * enabled, the MSB (controllers 0-31) and LSB (controllers 32-63) of each controller pair are
+   * combined into a single high-resolution value. The regular `controlchange` events are still
+   * dispatched for each half.
+   *
+   * By default, the LSB is expected to follow the MSB (see
+   * [`controlChange14Timeout`](#controlChange14Timeout)). For devices that send the LSB first, set
+   * [`controlChange14LsbFirst`](#controlChange14LsbFirst) to `true`.
+   *
+   * @type {boolean}
+   * @since 3.2.0
+   */
+  controlChange14EventsEnabled: boolean = false;
+
+  /**
+   * Indicates whether the device sends the LSB before the MSB. When `true`, the LSB is kept until
+   * the matching MSB arrives and the event is dispatched when the MSB is received.
+   *
+   * @type {boolean}
+   * @since 3.2.0
+   */
+  controlChange14LsbFirst: boolean = false;
+
+  /**
+   * How long (in milliseconds) to wait for the LSB after an MSB has been received. If no LSB
+   * arrives in time (devices that only send the MSB), the event is dispatched with an LSB of `0`.
+   * When set to `0`, an event is dispatched immediately for the MSB (with an LSB of `0`) and
+   * another one when the LSB arrives.
+   *
+   * @type {number}
+   * @since 3.2.0
+   */
+  controlChange14Timeout: number = 10;
+
   /**
    * Contains the current playing state of all MIDI notes of this channel (0-127). The state is
    * `true` for a currently playing note and `false` otherwise.
@@ -3045,6 +3488,9 @@ export class InputChannel extends EventEmitter {
     this._nrpnBuffer = [];
     this.notesState = new Array(128).fill(false);
     this.parameterNumberEventsEnabled = false;
+    this._cc14Timers.forEach(timer => clearTimeout(timer));
+    this._cc14Timers = [];
+    this.resetState();
     this.removeListener();
   }
 
@@ -3075,6 +3521,103 @@ export class InputChannel extends EventEmitter {
 
   }
 
+  /**
+   * Returns the last value (between `0` and `127`) received for the specified controller, or
+   * `null` if no value has been received for it.
+   *
+   * @param {number|string} controller The controller number (`0` - `127`) or name (see
+   * [`OutputChannel.sendControlChange()`](OutputChannel#sendControlChange)).
+   * @returns {number}
+   * @since 3.2.0
+   */
+  getControllerValue(controller: number | string): number {
+    if (typeof controller === "string") controller = Utilities.getCcNumberByName(controller);
+    const value = this._state.controllers[controller];
+    return value === undefined ? null : value;
+  }
+
+  /**
+   * Returns the last pressure (between `0` and `127`) received for the specified key.
+   *
+   * @param {number|string|Note} note The note to get the pressure for. The
+   * [`octaveOffset`](#octaveOffset) (channel, input and global) will be factored in for note
+   * identifiers and [`Note`]{@link Note} objects.
+   * @returns {number}
+   * @since 3.2.0
+   */
+  getKeyAftertouch(note: number | string | Note): number {
+    return this._state.keyAftertouch[this._getNoteNumber(note)];
+  }
+
+  /**
+   * Returns the current value (between `0` and `16383`) of the specified non-registered parameter,
+   * or `null` if no value has been received for it. Values are only tracked when
+   * [`parameterNumberEventsEnabled`](#parameterNumberEventsEnabled) is `true`.
+   *
+   * @param {number|number[]} parameter The parameter number (`0` - `16383`) or a two-position
+   * array with its MSB and LSB.
+   * @returns {number}
+   * @since 3.2.0
+   */
+  getNrpnValue(parameter: number | number[]): number {
+    if (Array.isArray(parameter)) parameter = (parameter[0] << 7) + parameter[1];
+    const value = this._state.nrpns[parameter];
+    return value === undefined ? null : value;
+  }
+
+  /**
+   * Returns the attack velocity (between `0` and `127`) and the timestamp of the **note on**
+   * message of the specified note if it is currently playing, or `null` if it is not.
+   *
+   * @param {number|string|Note} note The note to look for. The [`octaveOffset`](#octaveOffset)
+   * (channel, input and global) will be factored in for note identifiers and [`Note`]{@link Note}
+   * objects.
+   * @returns {{rawAttack: number, timestamp: number}}
+   * @since 3.2.0
+   */
+  getPlayingNote(note: number | string | Note): { rawAttack: number, timestamp: number } {
+    const playing = this._state.notes[this._getNoteNumber(note)];
+    return playing ? Object.assign({}, playing) : null;
+  }
+
+  /**
+   * Returns the current value (between `0` and `16383`) of the specified registered parameter, or
+   * `null` if no value has been received for it. Values are only tracked when
+   * [`parameterNumberEventsEnabled`](#parameterNumberEventsEnabled) is `true`.
+   *
+   * Data entry coarse messages set the upper 7 bits (and clear the lower ones), data entry fine
+   * messages set the lower 7 bits and data increment and decrement messages add or remove `1`.
+   *
+   * @param {string|number[]} parameter The parameter name (see
+   * [`Enumerations.REGISTERED_PARAMETERS`](Enumerations#REGISTERED_PARAMETERS)) or a two-position
+   * array with its MSB and LSB.
+   * @returns {number}
+   * @since 3.2.0
+   */
+  getRpnValue(parameter: string | number[]): number {
+    const bytes: number[] = typeof parameter === "string" ?
+      Enumerations.REGISTERED_PARAMETERS[parameter] :
+      parameter;
+
+    if (!bytes) return null;
+    const value = this._state.rpns[(bytes[0] << 7) + bytes[1]];
+    return value === undefined ? null : value;
+  }
+
+  /**
+   * Returns whether the specified note is sounding: its key is down or it is held by the sustain or
+   * sostenuto pedal. Use [`getNoteState()`](#getNoteState) to know whether its key is down.
+   *
+   * @param {number|string|Note} note The note to get the state for. The
+   * [`octaveOffset`](#octaveOffset) (channel, input and global) will be factored in for note
+   * identifiers and [`Note`]{@link Note} objects.
+   * @returns {boolean}
+   * @since 3.2.0
+   */
+  isNoteSounding(note: number | string | Note): boolean {
+    return this._soundingNotes[this._getNoteNumber(note)] !== null;
+  }
+
   /**
    * Checks if the specified event type is already defined to trigger the specified callback
    * function.
@@ -3123,6 +3666,58 @@ export class InputChannel extends EventEmitter {
     super.removeListener(type,listener,options);
   };
 
+  /**
+   * Resets the state mirror of the channel (see [`state`](#state)) to its initial values. No
+   * `statechange` event is dispatched.
+   *
+   * @returns {InputChannel} Returns the `InputChannel` object so methods can be chained.
+   * @since 3.2.0
+   */
+  resetState(): InputChannel {
+
+    this._state = {
+      channelAftertouch: 0,
+      controllers: new Array(128).fill(null),
+      keyAftertouch: new Array(128).fill(0),
+      notes: new Array(128).fill(null),
+      nrpns: {},
+      pitchBend: 8192,
+      program: null,
+      rpns: {}
+    };
+
+    this._sostenutoNotes = new Array(128).fill(false);
+    this._soundingNotes = new Array(128).fill(null);
+
+    return this;
+
+  }
+
+  /**
+   * The last channel pressure (between `0` and `127`) received.
+   * @readonly
+   * @type {number}
+   * @since 3.2.0
+   */
+  get channelAftertouch(): number {
+    return this._state.channelAftertouch;
+  }
+
+  /**
+   * The numbers (`0` - `127`) of the notes whose keys are currently down, in ascending order. Notes
+   * held by a pedal after their key has been released are not included (see
+   * [`soundingNotes`](#soundingNotes)).
+   * @readonly
+   * @type {number[]}
+   * @since 3.2.0
+   */
+  get keysDown(): number[] {
+    return this.notesState.reduce((notes, down, number) => {
+      if (down) notes.push(number);
+      return notes;
+    }, []);
+  }
+
   /**
    * The [`Input`](Input) this channel belongs to.
    * @type {Input}
@@ -3165,6 +3760,99 @@ export class InputChannel extends EventEmitter {
     return this._octaveOffset;
   }
 
+  /**
+   * The last pitch bend (between `0` and `16383`, `8192` being the center) received.
+   * @readonly
+   * @type {number}
+   * @since 3.2.0
+   */
+  get pitchBend(): number {
+    return this._state.pitchBend;
+  }
+
+  /**
+   * The last program change received, with the `number` of the program and the `bankMsb` and
+   * `bankLsb` selected when it was received, or `null` if no program change has been received.
+   * @readonly
+   * @type {{number: number, bankMsb: number, bankLsb: number}}
+   * @since 3.2.0
+   */
+  get program(): { number: number, bankMsb: number, bankLsb: number } {
+    return this._state.program ? Object.assign({}, this._state.program) : null;
+  }
+
+  /**
+   * Whether the soft pedal (controller `67`) is down. The soft pedal only alters the timbre, so it
+   * does not affect the [`soundingNotes`](#soundingNotes).
+   * @readonly
+   * @type {boolean}
+   * @since 3.2.0
+   */
+  get softPedal(): boolean {
+    return this._state.controllers[67] >= 64;
+  }
+
+  /**
+   * Whether the sostenuto pedal (controller `66`) is down. While it is down, the notes whose keys
+   * were down when it was pressed keep sounding after their keys are released.
+   * @readonly
+   * @type {boolean}
+   * @since 3.2.0
+   */
+  get sostenutoPedal(): boolean {
+    return this._state.controllers[66] >= 64;
+  }
+
+  /**
+   * The numbers (`0` - `127`) of the notes currently sounding, in ascending order: the notes whose
+   * keys are down and the ones held by the sustain or sostenuto pedal.
+   * @readonly
+   * @type {number[]}
+   * @since 3.2.0
+   */
+  get soundingNotes(): number[] {
+    return this._soundingNotes.reduce((notes, attack, number) => {
+      if (attack !== null) notes.push(number);
+      return notes;
+    }, []);
+  }
+
+  /**
+   * A copy of the current state of the channel, as reconstructed from the messages received on it:
+   * the value of every controller, the program, the pitch bend, the channel and key pressures, the
+   * registered and non-registered parameter values and the notes currently playing. All values are
+   * raw MIDI values. See [`InputChannelState`](InputChannelState) for details.
+   *
+   * To be notified of changes, listen to the [`statechange`](#event:statechange) event.
+   *
+   * @readonly
+   * @type {InputChannelState}
+   * @since 3.2.0
+   */
+  get state(): InputChannelState {
+    return {
+      channelAftertouch: this._state.channelAftertouch,
+      controllers: this._state.controllers.slice(),
+      keyAftertouch: this._state.keyAftertouch.slice(),
+      notes: this._state.notes.map(note => note ? Object.assign({}, note) : null),
+      nrpns: Object.assign({}, this._state.nrpns),
+      pitchBend: this._state.pitchBend,
+      program: this.program,
+      rpns: Object.assign({}, this._state.rpns)
+    };
+  }
+
+  /**
+   * Whether the sustain (damper) pedal (controller `64`) is down. While it is down, notes keep
+   * sounding after their keys are released.
+   * @readonly
+   * @type {boolean}
+   * @since 3.2.0
+   */
+  get sustainPedal(): boolean {
+    return this._state.controllers[64] >= 64;
+  }
+
 
 }
 /*END!InputChannel,js-----------------------------------------------------------------------------------------------------------------------*/
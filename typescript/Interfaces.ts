@@ -1,8 +1,10 @@
+import { ClockFollower } from "./ClockFollower";
 import { Input } from "./Input";
 import { InputChannel } from "./InputChannel";
 import { Message } from "./Message";
 import { Note } from "./Note";
 import { Output } from "./Output";
+import { Player } from "./Player";
 import { WebMidi } from "./WebMidi";
 
 export interface Navigator {
@@ -242,6 +244,15 @@ export namespace WebMidiApi {
 
 export type EventEmitterCallback = (...args: any[]) => void;
 
+/**
+ * A function transforming a [`Message`](Message) before it is forwarded by a
+ * [`Forwarder`](Forwarder). It can return a single message (the same one, a modified copy or a
+ * different one), an array of messages or nothing (to drop the message).
+ *
+ * @since 3.2.0
+ */
+export type ForwarderTransform = (message: Message) => Message | Message[] | null | void;
+
 /**
  * The `Event` object is transmitted when state change events occur.
  *
@@ -337,6 +348,184 @@ export interface MessageEvent extends PortEvent {
   value?: number | boolean;
 }
 
+/**
+ * The `SysexProgressEvent` object is transmitted when a fragment of a system exclusive message
+ * delivered in multiple parts has been received.
+ *
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {number} received The number of bytes received so far.
+ * @property {Input} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `sysexprogress`
+ */
+export interface SysexProgressEvent extends PortEvent {
+  port: Input;
+  received: number;
+  target: Input;
+}
+
+/**
+ * The `DeviceIdentity` object describes a device, as reported in a Universal Non-Real-Time
+ * **Identity Reply** message.
+ *
+ * @property {number} deviceId The device ID (also known as the sysex channel) of the device.
+ * @property {number} family The device family code (14-bit).
+ * @property {number[]} manufacturerId An array of 1 or 3 bytes identifying the manufacturer.
+ * @property {number} model The device family member (model) code (14-bit).
+ * @property {number[]} version The 4 bytes of the software revision level (firmware version).
+ */
+export interface DeviceIdentity {
+  deviceId: number;
+  family: number;
+  manufacturerId: number[];
+  model: number;
+  version: number[];
+}
+
+/**
+ * The `IdentityReplyEvent` object is transmitted when a Universal Non-Real-Time **Identity Reply**
+ * message has been received.
+ *
+ * @property {DeviceIdentity} identity The identity of the device.
+ * @property {Message} message The system exclusive message.
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {Input} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `identityreply`
+ */
+export interface IdentityReplyEvent extends PortEvent {
+  identity: DeviceIdentity;
+  message: Message;
+  port: Input;
+  target: Input;
+}
+
+/**
+ * The `Timecode` object describes a SMPTE position, as transmitted by MIDI Time Code (MTC).
+ *
+ * @property {number} hours The hours (0-23).
+ * @property {number} minutes The minutes (0-59).
+ * @property {number} seconds The seconds (0-59).
+ * @property {number} frames The frames (0 to the frame rate minus 1).
+ * @property {number} frameRate The frame rate: `24`, `25`, `29.97` (drop-frame) or `30`.
+ * @property {boolean} dropFrame Whether drop-frame counting is used (only with `29.97`).
+ */
+export interface Timecode {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  frames: number;
+  frameRate: number;
+  dropFrame: boolean;
+}
+
+/**
+ * The `TimecodeEvent` object is transmitted when a new MIDI Time Code position has been assembled
+ * from quarter frame messages or received in a full frame message.
+ *
+ * @property {string} direction The direction of playback: `"forward"`, `"reverse"` or `null` if
+ * unknown (for example, after a full frame message).
+ * @property {boolean} locked Whether the `Input` is locked to a running quarter frame stream.
+ * @property {Message} message The message that completed the position.
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {Input} target The object that dispatched the event.
+ * @property {Timecode} timecode The position.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `timecodeposition`
+ */
+export interface TimecodeEvent extends PortEvent {
+  direction: string;
+  locked: boolean;
+  message: Message;
+  port: Input;
+  target: Input;
+  timecode: Timecode;
+}
+
+/**
+ * The `TimecodeLockEvent` object is transmitted when an `Input` locks to (or loses) a running MIDI
+ * Time Code quarter frame stream.
+ *
+ * @property {boolean} locked Whether the `Input` is now locked.
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {Input} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `timecodelock`
+ */
+export interface TimecodeLockEvent extends PortEvent {
+  locked: boolean;
+  port: Input;
+  target: Input;
+}
+
+/**
+ * The `MmcEvent` object is transmitted when a MIDI Machine Control (MMC) command has been
+ * received.
+ *
+ * @property {string} command The name of the command (as found in
+ * [`Enumerations.MMC_COMMANDS`](Enumerations#MMC_COMMANDS)) or `"trackarm"`.
+ * @property {number[]} data The data bytes following the command (including the byte count).
+ * @property {number} deviceId The device ID the command was sent to (`0x7F` means all devices).
+ * @property {Message} message The system exclusive message.
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {Input} target The object that dispatched the event.
+ * @property {Timecode} [timecode] The target position (only for `mmclocate` events).
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {number[]} [tracks] The armed track numbers (only for `mmctrackarm` events).
+ * @property {string} type The type of the event (`"mmc"` followed by the command name)
+ */
+export interface MmcEvent extends PortEvent {
+  command: string;
+  data: number[];
+  deviceId: number;
+  message: Message;
+  port: Input;
+  target: Input;
+  timecode?: Timecode;
+  tracks?: number[];
+}
+
+/**
+ * The `InputErrorEvent` object is transmitted when an incomplete system exclusive message is
+ * discarded by an `Input`.
+ *
+ * @property {Uint8Array} data The bytes received before the message was discarded.
+ * @property {Error} error An `Error` object describing the problem.
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {Input} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `error`
+ */
+export interface InputErrorEvent extends PortEvent {
+  data: Uint8Array;
+  error: Error;
+  port: Input;
+  target: Input;
+}
+
+/**
+ * The `OutputErrorEvent` object is transmitted when a message held by the scheduler of an
+ * `Output` could not be sent.
+ *
+ * @property {Error} error The error that occurred.
+ * @property {Output} port The `Output` that triggered the event.
+ * @property {Output} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `error`
+ */
+export interface OutputErrorEvent extends PortEvent {
+  error: Error;
+  port: Output;
+  target: Output;
+}
+
 /**
  * The `ControlChangeMessageEvent` object is transmitted when a control change MIDI message has been
  * received. There is a general `controlchange` event and a specific `controlchange-controllerxxx`
@@ -373,6 +562,43 @@ export interface ControlChangeMessageEvent extends MessageEvent {
   target: Input | InputChannel;
 }
 
+/**
+ * The `ControlChange14MessageEvent` object is transmitted when a 14-bit control change value has
+ * been assembled from the MSB (controllers 0-31) and LSB (controllers 32-63) of a controller pair.
+ *
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {Input | InputChannel} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `controlchange14`
+ *
+ * @property {Message} message The last message of the pair.
+ * @property {number} rawValue The 14-bit value (between 0 and 16383).
+ * @property {number} value The value as a float between 0 and 1.
+ * @property {number} msb The most significant byte (between 0 and 127).
+ * @property {number} lsb The least significant byte (between 0 and 127).
+ *
+ * @property {object} controller
+ * @property {string} controller.name The name of the MSB controller
+ * @property {number} controller.number The number of the MSB controller (between 0 and 31)
+ * @property {string} controller.description User-friendly representation of the MSB controller's
+ * default function.
+ */
+export interface ControlChange14MessageEvent extends MessageEvent {
+  channel: number;
+  controller: {
+    name: string;
+    number: number;
+    description: string;
+  };
+  lsb: number;
+  msb: number;
+  port: Input;
+  rawValue: number;
+  target: Input | InputChannel;
+  value: number;
+}
+
 /**
  * The `NoteMessageEvent` object is transmitted when a note-related MIDI message (`noteoff`,
  * `noteon` or `keyaftertouch`) is received on an input channel
@@ -396,6 +622,35 @@ export interface NoteMessageEvent extends MessageEvent {
   target: Input | InputChannel;
 }
 
+/**
+ * The `MpeNoteEvent` object is transmitted by an `Input` in MPE mode when a per-note expression
+ * message (`notebend`, `notepressure` or `notetimbre`) is received on the member channel of an
+ * active note.
+ *
+ * @property {number} channel The member channel the message was received on.
+ * @property {Message} message The MIDI message (pitch bend, channel aftertouch or control change
+ * 74).
+ * @property {Note} note The [`Note`](Note) the expression applies to.
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {number} rawValue The value as received (0-16383 for pitch bend and 0-127 otherwise).
+ * @property {Input} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type The type of the event
+ * @property {number} value The value as a float (between -1 and 1 for pitch bend and between 0 and
+ * 1 otherwise).
+ * @property {string} zone The MPE zone the note belongs to: `"lower"` or `"upper"`.
+ */
+export interface MpeNoteEvent extends MessageEvent {
+  channel: number;
+  note: Note;
+  port: Input;
+  rawValue: number;
+  target: Input;
+  value: number;
+  zone: string;
+}
+
 /**
  * The `ParameterNumberMessageEvent` object is transmitted when an RPN or NRPN message is received
  * on an input channel.
@@ -436,6 +691,125 @@ export interface ParameterNumberMessageEvent extends MessageEvent {
   target: Input | InputChannel;
 }
 
+/**
+ * The `InputChannelState` object holds the current state of an input channel, as reconstructed
+ * from the messages received on it. All values are raw MIDI values.
+ *
+ * @property {number} channelAftertouch The channel pressure (between 0 and 127).
+ * @property {number[]} controllers The value of each controller (between 0 and 127), indexed by
+ * controller number. The value is `null` for controllers that have not been received.
+ * @property {number[]} keyAftertouch The pressure of each key (between 0 and 127), indexed by note
+ * number.
+ * @property {object[]} notes The notes currently playing, indexed by note number. Each one is an
+ * object with a `rawAttack` (between 0 and 127) and a `timestamp` property. The value is `null` for
+ * notes that are not playing.
+ * @property {object} nrpns The value of each non-registered parameter (between 0 and 16383), keyed
+ * by parameter number (between 0 and 16383).
+ * @property {number} pitchBend The pitch bend (between 0 and 16383, `8192` being the center).
+ * @property {object} program The last program change, with the `number` of the program and the
+ * `bankMsb` and `bankLsb` selected when it was received (`null` if no bank was selected). The value
+ * is `null` if no program change has been received.
+ * @property {object} rpns The value of each registered parameter (between 0 and 16383), keyed by
+ * parameter number (between 0 and 16383).
+ *
+ * @since 3.2.0
+ */
+export interface InputChannelState {
+  channelAftertouch: number;
+  controllers: number[];
+  keyAftertouch: number[];
+  notes: { rawAttack: number, timestamp: number }[];
+  nrpns: { [parameter: number]: number };
+  pitchBend: number;
+  program: { number: number, bankMsb: number, bankLsb: number };
+  rpns: { [parameter: number]: number };
+}
+
+/**
+ * The `OutputChannelState` object holds the state of an output channel, as reconstructed from the
+ * messages sent to it. It is returned by
+ * [`OutputChannel.snapshot()`](OutputChannel#snapshot) and can be serialized to JSON. All values
+ * are raw MIDI values and `null` stands for a value that has never been sent.
+ *
+ * @property {number} channelAftertouch The channel pressure (between 0 and 127).
+ * @property {number[]} controllers The value of each controller (between 0 and 127), indexed by
+ * controller number.
+ * @property {number[]} keyAftertouch The pressure of each key (between 0 and 127), indexed by note
+ * number.
+ * @property {number[]} notes The attack velocity (between 0 and 127) of each active note, indexed
+ * by note number. The value is `null` for notes that are not playing.
+ * @property {object} nrpns The value of each non-registered parameter (between 0 and 16383), keyed
+ * by parameter number (between 0 and 16383).
+ * @property {number} pitchBend The pitch bend (between 0 and 16383, `8192` being the center).
+ * @property {object} program The last program change, with the `number` of the program and the
+ * `bankMsb` and `bankLsb` selected when it was sent.
+ * @property {object} rpns The value of each registered parameter (between 0 and 16383), keyed by
+ * parameter number (between 0 and 16383).
+ *
+ * @since 3.2.0
+ */
+export interface OutputChannelState {
+  channelAftertouch: number;
+  controllers: number[];
+  keyAftertouch: number[];
+  notes: number[];
+  nrpns: { [parameter: number]: number };
+  pitchBend: number;
+  program: { number: number, bankMsb: number, bankLsb: number };
+  rpns: { [parameter: number]: number };
+}
+
+/**
+ * The `SoundingNoteEvent` object is transmitted when the key of a note held by a pedal is released
+ * (`notesustained`) or when a note stops sounding (`notereleased`).
+ *
+ * @property {number} channel The channel the note was played on.
+ * @property {Message} message The MIDI message that caused the event (a note off or a control
+ * change).
+ * @property {Note} note The [`Note`](Note) (with its attack velocity).
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {Input | InputChannel} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `notesustained` or `notereleased`
+ *
+ * @since 3.2.0
+ */
+export interface SoundingNoteEvent extends MessageEvent {
+  channel: number;
+  note: Note;
+  port: Input;
+  target: Input | InputChannel;
+}
+
+/**
+ * The `StateChangeEvent` object is transmitted when a value of an input channel's
+ * [`state`](InputChannel#state) has changed.
+ *
+ * @property {number} channel The channel the message was received on.
+ * @property {number} key The controller number, note number or parameter number that changed, if
+ * the property is an array or a map (`null` otherwise).
+ * @property {Message} message The MIDI message that caused the change.
+ * @property {Input} port The `Input` that triggered the event.
+ * @property {string} property The name of the [`InputChannelState`](InputChannelState) property
+ * that changed.
+ * @property {Input | InputChannel} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type `statechange`
+ * @property {*} value The new value.
+ *
+ * @since 3.2.0
+ */
+export interface StateChangeEvent extends MessageEvent {
+  channel: number;
+  key: number;
+  port: Input;
+  property: string;
+  target: Input | InputChannel;
+  value: any;
+}
+
 /**
  * A map of all the events that can be passed to `InputChannel.addListener()`.
  */
@@ -449,11 +823,15 @@ export interface InputChannelEventMap {
   "keyaftertouch": (e: NoteMessageEvent) => void;
   "noteoff": (e: NoteMessageEvent) => void;
   "noteon": (e: NoteMessageEvent) => void;
+  "notereleased": (e: SoundingNoteEvent) => void;
+  "notesustained": (e: SoundingNoteEvent) => void;
   "pitchbend": (e: MessageEvent) => void;
   "programchange": (e: MessageEvent) => void;
 
   // Control Change
   "controlchange": (e: ControlChangeMessageEvent) => void;
+  "controlchange14": (e: ControlChange14MessageEvent) => void;
+  "statechange": (e: StateChangeEvent) => void;
 
   "controlchange-controller0": (e: ControlChangeMessageEvent) => void;
   "controlchange-controller1": (e: ControlChangeMessageEvent) => void;
@@ -632,6 +1010,26 @@ export interface InputEventMap extends PortEventMap {
   "start": (e: MessageEvent) => void;
   "stop": (e: MessageEvent) => void;
   "sysex": (e: MessageEvent) => void;
+  "sysexprogress": (e: SysexProgressEvent) => void;
+  "error": (e: InputErrorEvent) => void;
+  "identityreply": (e: IdentityReplyEvent) => void;
+  "mmcchase": (e: MmcEvent) => void;
+  "mmcdeferredplay": (e: MmcEvent) => void;
+  "mmceject": (e: MmcEvent) => void;
+  "mmcfastforward": (e: MmcEvent) => void;
+  "mmclocate": (e: MmcEvent) => void;
+  "mmcpause": (e: MmcEvent) => void;
+  "mmcplay": (e: MmcEvent) => void;
+  "mmcrecordexit": (e: MmcEvent) => void;
+  "mmcrecordpause": (e: MmcEvent) => void;
+  "mmcrecordstrobe": (e: MmcEvent) => void;
+  "mmcreset": (e: MmcEvent) => void;
+  "mmcrewind": (e: MmcEvent) => void;
+  "mmcstop": (e: MmcEvent) => void;
+  "mmctrackarm": (e: MmcEvent) => void;
+  "mmcwrite": (e: MmcEvent) => void;
+  "timecodelock": (e: TimecodeLockEvent) => void;
+  "timecodeposition": (e: TimecodeEvent) => void;
   "timecode": (e: MessageEvent) => void;
   "tunerequest": (e: MessageEvent) => void;
 
@@ -639,16 +1037,25 @@ export interface InputEventMap extends PortEventMap {
   "midimessage": (e: MessageEvent) => void;
   "unknownmessage": (e: MessageEvent) => void;
 
+  // MPE
+  "notebend": (e: MpeNoteEvent) => void;
+  "notepressure": (e: MpeNoteEvent) => void;
+  "notetimbre": (e: MpeNoteEvent) => void;
+
   // Channel Mode
   "channelaftertouch": (e: MessageEvent) => void;
   "keyaftertouch": (e: NoteMessageEvent) => void;
   "noteoff": (e: NoteMessageEvent) => void;
   "noteon": (e: NoteMessageEvent) => void;
+  "notereleased": (e: SoundingNoteEvent) => void;
+  "notesustained": (e: SoundingNoteEvent) => void;
   "pitchbend": (e: MessageEvent) => void;
   "programchange": (e: MessageEvent) => void;
 
   // Control Change
   "controlchange": (e: ControlChangeMessageEvent) => void;
+  "controlchange14": (e: ControlChange14MessageEvent) => void;
+  "statechange": (e: StateChangeEvent) => void;
   "controlchange-controller0": (e: ControlChangeMessageEvent) => void;
   "controlchange-controller1": (e: ControlChangeMessageEvent) => void;
   "controlchange-controller2": (e: ControlChangeMessageEvent) => void;
@@ -802,6 +1209,13 @@ export interface InputEventMap extends PortEventMap {
 
 }
 
+/**
+ * A map of all the events that can be passed to `Output.addListener()`.
+ */
+export interface OutputEventMap extends PortEventMap {
+  "error": (e: OutputErrorEvent) => void;
+}
+
 /**
  * A map of all the events that can be passed to `Output.addListener()`.
  */
@@ -814,3 +1228,183 @@ export interface WebMidiEventMap {
   "portschanged": (e: PortEvent) => void;
   "error": (e: ErrorEvent) => void;
 }
+
+/**
+ * The `MidiFileMetaEvent` object describes a meta event found in a Standard MIDI File. Depending on
+ * the `type` of meta event, some additional properties are defined.
+ *
+ * @property {string} type The type of meta event: `sequencenumber`, `text`, `copyright`,
+ * `trackname`, `instrumentname`, `lyrics`, `marker`, `cuepoint`, `channelprefix`, `port`,
+ * `endoftrack`, `tempo`, `smpteoffset`, `timesignature`, `keysignature`, `sequencerspecific` or
+ * `unknown`.
+ * @property {number} metaType The meta event's type byte (0-127).
+ * @property {Uint8Array} data The raw data of the meta event.
+ * @property {string} [text] The text of text-based meta events (`text`, `trackname`, `lyrics`,
+ * `marker`, etc.)
+ * @property {number} [tempo] The tempo in microseconds per quarter note (`tempo`).
+ * @property {number} [bpm] The tempo in beats per minute (`tempo`).
+ * @property {number} [numerator] The time signature's numerator (`timesignature`).
+ * @property {number} [denominator] The time signature's denominator (`timesignature`).
+ * @property {number} [clocksPerClick] The number of MIDI clocks per metronome click
+ * (`timesignature`).
+ * @property {number} [thirtySecondsPerQuarter] The number of 32nd notes per quarter note
+ * (`timesignature`).
+ * @property {number} [key] The number of sharps (positive) or flats (negative) of the key
+ * signature (`keysignature`).
+ * @property {string} [scale] The scale of the key signature: `major` or `minor` (`keysignature`).
+ * @property {number} [hours] The hours of the SMPTE offset (`smpteoffset`).
+ * @property {number} [minutes] The minutes of the SMPTE offset (`smpteoffset`).
+ * @property {number} [seconds] The seconds of the SMPTE offset (`smpteoffset`).
+ * @property {number} [frames] The frames of the SMPTE offset (`smpteoffset`).
+ * @property {number} [subframes] The fractional frames (1/100) of the SMPTE offset (`smpteoffset`).
+ * @property {number} [value] The numeric value of the `sequencenumber`, `channelprefix` and
+ * `port` meta events.
+ */
+export interface MidiFileMetaEvent {
+  type: string;
+  metaType: number;
+  data: Uint8Array;
+  text?: string;
+  tempo?: number;
+  bpm?: number;
+  numerator?: number;
+  denominator?: number;
+  clocksPerClick?: number;
+  thirtySecondsPerQuarter?: number;
+  key?: number;
+  scale?: string;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  frames?: number;
+  subframes?: number;
+  value?: number;
+}
+
+/**
+ * The `MidiFileEvent` object describes a timed event in a track of a Standard MIDI File. It either
+ * holds a MIDI message (channel messages, sysex, etc.) in its `message` property or a meta event in
+ * its `meta` property.
+ *
+ * @property {number} delta The number of ticks since the previous event of the track.
+ * @property {number} tick The position of the event (in ticks) from the beginning of the track.
+ * @property {number} time The position of the event (in milliseconds) from the beginning of the
+ * track, calculated from the file's time division and tempo map.
+ * @property {string} type The type of the event. For MIDI messages, this is the message type
+ * (`noteon`, `sysex`, etc.) and for meta events, this is the meta event type (`tempo`,
+ * `trackname`, etc.).
+ * @property {Message} [message] The MIDI message (if the event is not a meta event).
+ * @property {MidiFileMetaEvent} [meta] The meta event (if the event is a meta event).
+ */
+export interface MidiFileEvent {
+  delta: number;
+  tick: number;
+  time: number;
+  type: string;
+  message?: Message;
+  meta?: MidiFileMetaEvent;
+}
+
+/**
+ * The `MidiFileTrack` object describes a track of a Standard MIDI File.
+ *
+ * @property {string} [name] The name of the track (from its first `trackname` meta event).
+ * @property {MidiFileEvent[]} events The events of the track, in chronological order.
+ */
+export interface MidiFileTrack {
+  name?: string;
+  events: MidiFileEvent[];
+}
+
+/**
+ * The `RecorderEvent` object describes a MIDI message captured by a [`Recorder`](Recorder).
+ *
+ * @property {Input} input The `Input` the message was received on.
+ * @property {Message} message The captured MIDI message.
+ * @property {number} time The position of the message (in milliseconds) from the start of the
+ * recording session.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the message was received (in
+ * milliseconds since the navigation start of the document).
+ */
+export interface RecorderEvent {
+  input: Input;
+  message: Message;
+  time: number;
+  timestamp: number;
+}
+
+/**
+ * The `SequenceEvent` object describes a MIDI message to be played by a [`Player`](Player) at a
+ * specific time.
+ *
+ * @property {Message} message The MIDI message.
+ * @property {number} time The position of the message (in milliseconds) from the beginning of the
+ * sequence.
+ * @property {number} [track=0] The index of the track the message belongs to.
+ */
+export interface SequenceEvent {
+  message: Message;
+  time: number;
+  track?: number;
+}
+
+/**
+ * The `PlayerEvent` object is transmitted when the transport state of a [`Player`](Player)
+ * changes.
+ *
+ * Player
+ *  * end
+ *  * loop
+ *  * pause
+ *  * play
+ *  * seek
+ *  * stop
+ *
+ * @property {number} position The position of the player (in milliseconds) from the beginning of
+ * the sequence.
+ * @property {Player} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type The type of the event
+ */
+export interface PlayerEvent {
+  position: number;
+  target: Player;
+  timestamp: DOMHighResTimeStamp;
+  type: string;
+}
+
+/**
+ * The `ClockFollowerEvent` object is transmitted by a [`ClockFollower`](ClockFollower) when the
+ * incoming MIDI clock reaches a beat or a bar, when its tempo changes or when its transport state
+ * changes.
+ *
+ * ClockFollower
+ *  * bar
+ *  * beat
+ *  * tempochange
+ *  * transport
+ *
+ * @property {string} [action] The transport message that was received: `"start"`, `"stop"`,
+ * `"continue"` or `"songposition"` (only for `transport` events).
+ * @property {number} bar The index of the current bar (starting at `0`).
+ * @property {number} beat The index of the current beat within the bar (starting at `0`).
+ * @property {number} bpm The estimated tempo (in beats per minute) or `null` if it is unknown.
+ * @property {number} position The song position in MIDI beats (16th notes).
+ * @property {string} state The transport state: `"playing"` or `"stopped"`.
+ * @property {ClockFollower} target The object that dispatched the event.
+ * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+ * milliseconds since the navigation start of the document).
+ * @property {string} type The type of the event
+ */
+export interface ClockFollowerEvent {
+  action?: string;
+  bar: number;
+  beat: number;
+  bpm: number;
+  position: number;
+  state: string;
+  target: ClockFollower;
+  timestamp: DOMHighResTimeStamp;
+  type: string;
+}
@@ -0,0 +1,209 @@
+import {EventEmitter} from "./EventEmitter";
+import {Message} from "./Message";
+import {VirtualMIDIInput} from "./VirtualMidi";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * The `MessageParser` class turns a raw stream of MIDI bytes (coming from a serial port, a socket,
+ * a file, etc.) into complete [`Message`](Message) objects. The bytes can be passed in chunks of
+ * any size: messages split across chunk boundaries are reassembled.
+ *
+ * The parser handles running status, system real-time messages interleaved anywhere in the stream
+ * (including inside system exclusive messages) and system exclusive messages of any length.
+ *
+ * If a [`VirtualMIDIInput`](VirtualMIDIInput) is specified as the destination, each message is
+ * injected in it. This makes it possible to use the regular [`Input`](Input) and
+ * [`InputChannel`](InputChannel) events with non-Web MIDI sources:
+ *
+ * ```javascript
+ * const access = new VirtualMIDIAccess();
+ * const port = access.createInput({name: "Serial"});
+ * await WebMidi.enable({requestMIDIAccessFunction: access.requestMIDIAccess});
+ *
+ * const parser = new MessageParser({destination: port});
+ * serial.on("data", chunk => parser.parse(chunk));
+ *
+ * WebMidi.getInputById(port.id).addListener("noteon", e => console.log(e.note.identifier));
+ * ```
+ *
+ * @fires MessageParser#message
+ *
+ * @extends EventEmitter
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class MessageParser extends EventEmitter {
+
+  /**
+   * The [`VirtualMIDIInput`](VirtualMIDIInput) the parsed messages are injected in (if any).
+   * @type {VirtualMIDIInput}
+   */
+  destination: VirtualMIDIInput;
+
+  private _expected: number = 0;
+  private _message: number[] = [];
+  private _runningStatus: number = 0;
+  private _sysex: number[] = null;
+
+  /**
+   * Creates a `MessageParser` object.
+   *
+   * @param {object} [options={}]
+   * @param {VirtualMIDIInput} [options.destination] A [`VirtualMIDIInput`](VirtualMIDIInput) to
+   * inject the parsed messages in.
+   *
+   * @throws {TypeError} The destination must be of type 'VirtualMIDIInput'.
+   */
+  constructor(options: { destination?: VirtualMIDIInput } = {}) {
+
+    super();
+
+    if (
+      WebMidi.validation &&
+      options.destination !== undefined &&
+      !(options.destination instanceof VirtualMIDIInput)
+    ) {
+      throw new TypeError("The destination must be of type 'VirtualMIDIInput'.");
+    }
+
+    this.destination = options.destination || null;
+
+  }
+
+  /**
+   * Returns the number of data bytes that follow the specified status byte.
+   * @private
+   */
+  static _getDataLength(status: number): number {
+    if (status < 0xF0) return (status & 0xF0) === 0xC0 || (status & 0xF0) === 0xD0 ? 1 : 2;
+    if (status === 0xF1 || status === 0xF3) return 1;
+    if (status === 0xF2) return 2;
+    return 0;
+  }
+
+  /**
+   * Emits a complete message.
+   * @private
+   */
+  _dispatch(data: number[], timestamp: number, messages: Message[]): void {
+
+    const message = new Message(Uint8Array.from(data));
+    messages.push(message);
+
+    /**
+     * Event emitted when a complete message has been parsed.
+     *
+     * @event MessageParser#message
+     * @type {object}
+     * @property {Message} message The parsed [`Message`](Message).
+     * @property {MessageParser} target The object that dispatched the event.
+     * @property {number} timestamp The timestamp that was passed to [`parse()`](#parse).
+     * @property {string} type `"message"`
+     */
+    this.emit("message", {message, target: this, timestamp, type: "message"});
+
+    if (this.destination) this.destination.receive(message.rawData, timestamp);
+
+  }
+
+  /**
+   * Parses a chunk of bytes. Complete messages are emitted (and injected in the
+   * [`destination`](#destination), if any) while an incomplete message at the end of the chunk is
+   * kept until the next call.
+   *
+   * A system exclusive message interrupted by another status byte (other than a real-time one) is
+   * considered terminated, as per the MIDI specification. Data bytes received without a status
+   * byte (or running status) are ignored.
+   *
+   * @param {number[]|Uint8Array|ArrayBuffer} chunk The bytes to parse.
+   * @param {number} [timestamp=(now)] The timestamp to assign to the messages completed by this
+   * chunk.
+   *
+   * @returns {Message[]} An array of the messages completed by this chunk.
+   */
+  parse(chunk: number[] | Uint8Array | ArrayBuffer, timestamp: number = WebMidi.time): Message[] {
+
+    const bytes = chunk instanceof ArrayBuffer ? new Uint8Array(chunk) : chunk;
+    const messages: Message[] = [];
+
+    for (let i = 0; i < bytes.length; i++) {
+
+      const byte = bytes[i];
+
+      // System real-time messages can appear anywhere and do not affect the parser's state
+      if (byte >= 0xF8) {
+        this._dispatch([byte], timestamp, messages);
+        continue;
+      }
+
+      // Data byte
+      if (byte < 0x80) {
+
+        if (this._sysex) {
+          this._sysex.push(byte);
+          continue;
+        }
+
+        if (this._message.length === 0) {
+          if (!this._runningStatus) continue;
+          this._message.push(this._runningStatus);
+        }
+
+        this._message.push(byte);
+
+        if (this._message.length > this._expected) {
+          this._dispatch(this._message, timestamp, messages);
+          this._message = [];
+        }
+
+        continue;
+
+      }
+
+      // Any other status byte terminates a pending system exclusive message
+      if (this._sysex) {
+        this._sysex.push(0xF7);
+        this._dispatch(this._sysex, timestamp, messages);
+        this._sysex = null;
+        if (byte === 0xF7) continue;
+      }
+
+      // A status byte also discards a pending incomplete message
+      this._message = [];
+
+      if (byte === 0xF0) {
+        this._runningStatus = 0;
+        this._sysex = [byte];
+      } else if (byte === 0xF7) {
+        // End of exclusive without a matching start: ignored
+        this._runningStatus = 0;
+      } else {
+        this._runningStatus = byte < 0xF0 ? byte : 0;
+        this._expected = MessageParser._getDataLength(byte);
+        this._message = [byte];
+        if (this._expected === 0) {
+          this._dispatch(this._message, timestamp, messages);
+          this._message = [];
+        }
+      }
+
+    }
+
+    return messages;
+
+  }
+
+  /**
+   * Discards any incomplete message and clears the running status.
+   *
+   * @returns {MessageParser} Returns the `MessageParser` object so methods can be chained.
+   */
+  reset(): MessageParser {
+    this._expected = 0;
+    this._message = [];
+    this._runningStatus = 0;
+    this._sysex = null;
+    return this;
+  }
+
+}
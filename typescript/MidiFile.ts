@@ -0,0 +1,690 @@
+import {Message} from "./Message";
+import {MidiFileEvent, MidiFileMetaEvent, MidiFileTrack} from "./Interfaces";
+
+/**
+ * Sequential reader used to parse the binary content of Standard MIDI Files.
+ *
+ * @private
+ */
+class MidiFileReader {
+
+  data: Uint8Array;
+  position: number = 0;
+  end: number;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+    this.end = data.length;
+  }
+
+  private _check(length: number): void {
+    if (this.position + length > this.end) {
+      throw new RangeError(
+        `Truncated MIDI file: unexpected end of data at byte ${this.position} ` +
+        `(${length} byte(s) needed, ${this.end - this.position} available).`
+      );
+    }
+  }
+
+  peekUint8(): number {
+    this._check(1);
+    return this.data[this.position];
+  }
+
+  readUint8(): number {
+    this._check(1);
+    return this.data[this.position++];
+  }
+
+  readUint16(): number {
+    this._check(2);
+    const value = (this.data[this.position] << 8) + this.data[this.position + 1];
+    this.position += 2;
+    return value;
+  }
+
+  readUint32(): number {
+    this._check(4);
+    const value = (
+      this.data[this.position] * 0x1000000 +
+      (this.data[this.position + 1] << 16) +
+      (this.data[this.position + 2] << 8) +
+      this.data[this.position + 3]
+    );
+    this.position += 4;
+    return value;
+  }
+
+  readBytes(length: number): Uint8Array {
+    this._check(length);
+    const bytes = this.data.slice(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+
+  readString(length: number): string {
+    return Array.from(this.readBytes(length), byte => String.fromCharCode(byte)).join("");
+  }
+
+  readVariableLength(): number {
+
+    let value = 0;
+
+    // A variable-length quantity is at most 4 bytes long
+    for (let i = 0; i < 4; i++) {
+      const byte = this.readUint8();
+      value = (value * 128) + (byte & 0x7F);
+      if (!(byte & 0x80)) return value;
+    }
+
+    throw new TypeError(
+      `Invalid MIDI file: variable-length quantity longer than 4 bytes at byte ${this.position}.`
+    );
+
+  }
+
+}
+
+/**
+ * The `MidiFile` class represents the content of a Standard MIDI File (SMF). Use the static
+ * [`parse()`](#parse) method to read a `.mid` file (format 0, 1 or 2). The result is a list of
+ * tracks, each containing timed [`Message`](Message) objects and meta events (tempo, time
+ * signature, key signature, track name, lyrics, markers, etc.).
+ *
+ * Each event has a position expressed in ticks and in milliseconds. The conversion takes into
+ * account the file's tempo map (for metrical time divisions) or the SMPTE frame rate (for
+ * timecode-based time divisions).
+ *
+ * ```js
+ * const file = MidiFile.parse(fs.readFileSync("song.mid"));
+ * file.tracks[1].events
+ *   .filter(e => e.type === "noteon")
+ *   .forEach(e => console.log(e.time, e.message.dataBytes));
+ * ```
+ *
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class MidiFile {
+
+  private _tempoMaps: { tick: number, tempo: number, time: number }[][] = [];
+
+  /**
+   * The format of the file: `0` (single track), `1` (multiple simultaneous tracks) or `2`
+   * (multiple independent tracks).
+   *
+   * @type {number}
+   */
+  format: number;
+
+  /**
+   * When the file uses timecode-based time division, this object contains the number of frames
+   * per second (`24`, `25`, `29.97` or `30`) and the number of ticks per frame. Otherwise, it is
+   * `null`.
+   *
+   * @type {{framesPerSecond: number, ticksPerFrame: number}|null}
+   */
+  smpte: { framesPerSecond: number, ticksPerFrame: number };
+
+  /**
+   * The number of ticks per quarter note (PPQ) when the file uses metrical time division.
+   * Otherwise, it is `undefined`.
+   *
+   * @type {number}
+   */
+  ticksPerQuarterNote: number;
+
+  /**
+   * The tracks of the file.
+   *
+   * @type {MidiFileTrack[]}
+   */
+  tracks: MidiFileTrack[] = [];
+
+  /**
+   * Creates an empty `MidiFile` object. To read an actual file, use [`parse()`](#parse) instead.
+   *
+   * @param {number} [format=1] The format of the file (`0`, `1` or `2`).
+   * @param {number} [ticksPerQuarterNote=480] The number of ticks per quarter note (PPQ).
+   */
+  constructor(format: number = 1, ticksPerQuarterNote: number = 480) {
+    this.format = format;
+    this.ticksPerQuarterNote = ticksPerQuarterNote;
+    this.smpte = null;
+  }
+
+  /**
+   * Parses the content of a Standard MIDI File.
+   *
+   * @param {Uint8Array|ArrayBuffer|number[]} data The binary content of the file.
+   *
+   * @throws {TypeError} Invalid MIDI file: the 'MThd' header chunk is missing.
+   * @throws {TypeError} Unsupported MIDI file format.
+   * @throws {TypeError} Invalid running status.
+   * @throws {RangeError} Truncated MIDI file.
+   *
+   * @returns {MidiFile}
+   */
+  static parse(data: Uint8Array | ArrayBuffer | number[]): MidiFile {
+
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data as ArrayBuffer);
+    const reader = new MidiFileReader(bytes);
+
+    // Header chunk
+    if (bytes.length < 4 || reader.readString(4) !== "MThd") {
+      throw new TypeError("Invalid MIDI file: the 'MThd' header chunk is missing.");
+    }
+
+    const headerLength = reader.readUint32();
+    if (headerLength < 6) {
+      throw new TypeError(`Invalid MIDI file: the 'MThd' chunk is too short (${headerLength}).`);
+    }
+    MidiFile._checkChunkLength(reader, "MThd", headerLength);
+
+    const headerEnd = reader.position + headerLength;
+    const format = reader.readUint16();
+    const trackCount = reader.readUint16();
+    const division = reader.readUint16();
+    reader.position = headerEnd;
+
+    if (format > 2) throw new TypeError(`Unsupported MIDI file format (${format}).`);
+
+    const file = new MidiFile(format);
+
+    if (division & 0x8000) {
+      const fps = 256 - (division >> 8); // the high byte is a negative two's complement value
+      if (![24, 25, 29, 30].includes(fps)) {
+        throw new TypeError(`Invalid MIDI file: unsupported SMPTE frame rate (${fps}).`);
+      }
+      file.ticksPerQuarterNote = undefined;
+      file.smpte = {
+        framesPerSecond: fps === 29 ? 29.97 : fps,
+        ticksPerFrame: division & 0xFF
+      };
+    } else {
+      file.ticksPerQuarterNote = division;
+    }
+
+    // Track chunks (unknown chunk types must be ignored as per the specification)
+    while (file.tracks.length < trackCount) {
+
+      if (reader.position >= bytes.length) {
+        throw new RangeError(
+          `Truncated MIDI file: ${trackCount} tracks declared but only ${file.tracks.length} found.`
+        );
+      }
+
+      const type = reader.readString(4);
+      const length = reader.readUint32();
+      MidiFile._checkChunkLength(reader, type, length);
+
+      if (type === "MTrk") {
+        file.tracks.push(MidiFile._parseTrack(reader, length, file.tracks.length));
+      } else {
+        reader.position += length;
+      }
+
+    }
+
+    file._updateTiming();
+    return file;
+
+  }
+
+  /**
+   * @private
+   */
+  private static _checkChunkLength(reader: MidiFileReader, type: string, length: number): void {
+    const available = reader.end - reader.position;
+    if (length > available) {
+      throw new RangeError(
+        `Truncated MIDI file: the '${type}' chunk at byte ${reader.position - 8} declares ` +
+        `${length} bytes but only ${available} are available.`
+      );
+    }
+  }
+
+  /**
+   * @private
+   */
+  private static _parseTrack(reader: MidiFileReader, length: number, index: number): MidiFileTrack {
+
+    const track: MidiFileTrack = {events: []};
+    const trackEnd = reader.position + length;
+    const fileEnd = reader.end;
+
+    // Reads are restricted to the chunk so truncated tracks are reported as such
+    reader.end = trackEnd;
+
+    let tick = 0;
+    let runningStatus: number = null;
+    let sysex: { delta: number, tick: number, data: number[] } = null;
+
+    try {
+
+      while (reader.position < trackEnd) {
+
+        const delta = reader.readVariableLength();
+        tick += delta;
+
+        let status = reader.peekUint8();
+
+        if (status < 0x80) {
+          if (runningStatus === null) {
+            throw new TypeError(
+              `Invalid running status in track ${index} at byte ${reader.position}: data byte ` +
+              `found without a preceding status byte.`
+            );
+          }
+          status = runningStatus;
+        } else {
+          reader.position++;
+        }
+
+        // Meta events
+        if (status === 0xFF) {
+
+          runningStatus = null;
+          const metaType = reader.readUint8();
+          const data = reader.readBytes(reader.readVariableLength());
+          const meta = MidiFile._parseMetaEvent(metaType, data);
+
+          if (meta.type === "trackname" && track.name === undefined) track.name = meta.text;
+          track.events.push({delta, tick, time: 0, type: meta.type, meta});
+
+          if (meta.type === "endoftrack") break;
+
+        // Sysex events (F0) and sysex continuation or escape sequences (F7)
+        } else if (status === 0xF0 || status === 0xF7) {
+
+          runningStatus = null;
+          const data = Array.from(reader.readBytes(reader.readVariableLength()));
+
+          if (status === 0xF0) {
+            sysex = {delta, tick, data: [0xF0]};
+            MidiFile._append(sysex.data, data);
+          } else if (sysex) {
+            MidiFile._append(sysex.data, data);
+          } else if (data.length > 0) {
+            // Escape sequence: the bytes are to be sent as is
+            const message = new Message(new Uint8Array(data));
+            track.events.push({delta, tick, time: 0, type: message.type, message});
+          }
+
+          if (sysex && sysex.data[sysex.data.length - 1] === 0xF7) {
+            const message = new Message(new Uint8Array(sysex.data));
+            track.events.push({
+              delta: sysex.delta, tick: sysex.tick, time: 0, type: message.type, message
+            });
+            sysex = null;
+          }
+
+        // Channel messages
+        } else if (status >= 0x80 && status < 0xF0) {
+
+          runningStatus = status;
+          const command = status >> 4;
+          const data = [status];
+          const dataLength = (command === 0xC || command === 0xD) ? 1 : 2;
+
+          for (let i = 0; i < dataLength; i++) {
+            const byte = reader.readUint8();
+            if (byte > 0x7F) {
+              throw new TypeError(
+                `Invalid running status in track ${index} at byte ${reader.position - 1}: ` +
+                `status byte 0x${byte.toString(16).toUpperCase()} found where a data byte was ` +
+                `expected.`
+              );
+            }
+            data.push(byte);
+          }
+
+          const message = new Message(new Uint8Array(data));
+          track.events.push({delta, tick, time: 0, type: message.type, message});
+
+        } else {
+          throw new TypeError(
+            `Invalid MIDI file: unexpected status byte 0x${status.toString(16).toUpperCase()} ` +
+            `in track ${index} at byte ${reader.position - 1}.`
+          );
+        }
+
+      }
+
+    } catch (err) {
+      if (err instanceof RangeError) {
+        throw new RangeError(
+          `Truncated MIDI file: track ${index} ends unexpectedly at byte ${reader.position}.`
+        );
+      }
+      throw err;
+    }
+
+    // A sysex message that was never terminated is kept as is
+    if (sysex) {
+      const message = new Message(new Uint8Array(sysex.data));
+      track.events.push({
+        delta: sysex.delta, tick: sysex.tick, time: 0, type: message.type, message
+      });
+    }
+
+    reader.position = trackEnd;
+    reader.end = fileEnd;
+    return track;
+
+  }
+
+  /**
+   * Appends the bytes of `source` to `target`. Spreading a large array in a `push()` call would
+   * overflow the call stack.
+   *
+   * @private
+   */
+  static _append(target: number[], source: ArrayLike<number>): void {
+    for (let i = 0; i < source.length; i++) target.push(source[i]);
+  }
+
+  /**
+   * @private
+   */
+  static _parseMetaEvent(metaType: number, data: Uint8Array): MidiFileMetaEvent {
+
+    const types = {
+      0x00: "sequencenumber",
+      0x01: "text",
+      0x02: "copyright",
+      0x03: "trackname",
+      0x04: "instrumentname",
+      0x05: "lyrics",
+      0x06: "marker",
+      0x07: "cuepoint",
+      0x20: "channelprefix",
+      0x21: "port",
+      0x2F: "endoftrack",
+      0x51: "tempo",
+      0x54: "smpteoffset",
+      0x58: "timesignature",
+      0x59: "keysignature",
+      0x7F: "sequencerspecific"
+    };
+
+    const meta: MidiFileMetaEvent = {type: types[metaType] || "unknown", metaType, data};
+
+    if (metaType >= 0x01 && metaType <= 0x0F) {
+      meta.text = Array.from(data, byte => String.fromCharCode(byte)).join("");
+    } else if (meta.type === "sequencenumber" && data.length >= 2) {
+      meta.value = (data[0] << 8) + data[1];
+    } else if ((meta.type === "channelprefix" || meta.type === "port") && data.length >= 1) {
+      meta.value = data[0];
+    } else if (meta.type === "tempo" && data.length >= 3) {
+      meta.tempo = (data[0] << 16) + (data[1] << 8) + data[2];
+      meta.bpm = 60000000 / meta.tempo;
+    } else if (meta.type === "smpteoffset" && data.length >= 5) {
+      meta.hours = data[0] & 0x1F;
+      meta.minutes = data[1];
+      meta.seconds = data[2];
+      meta.frames = data[3];
+      meta.subframes = data[4];
+    } else if (meta.type === "timesignature" && data.length >= 4) {
+      meta.numerator = data[0];
+      meta.denominator = Math.pow(2, data[1]);
+      meta.clocksPerClick = data[2];
+      meta.thirtySecondsPerQuarter = data[3];
+    } else if (meta.type === "keysignature" && data.length >= 2) {
+      meta.key = data[0] > 127 ? data[0] - 256 : data[0];
+      meta.scale = data[1] ? "minor" : "major";
+    }
+
+    return meta;
+
+  }
+
+  /**
+   * Rebuilds the tempo map(s) and recalculates the time (in milliseconds) of all events. This
+   * must be called if events are added to or removed from the tracks manually.
+   *
+   * @private
+   */
+  _updateTiming(): void {
+
+    const ppq = this.ticksPerQuarterNote;
+    this._tempoMaps = [];
+
+    // With format 2, each track is independent and has its own tempo map. Otherwise, tempo events
+    // from all tracks (usually only the first one) apply to the whole file.
+    const sources = this.format === 2 ? this.tracks.map(track => [track]) : [this.tracks];
+
+    sources.forEach(tracks => {
+
+      const changes = [];
+      tracks.forEach(track => {
+        track.events.forEach(e => {
+          if (e.meta && e.meta.type === "tempo" && e.meta.tempo > 0) changes.push(e);
+        });
+      });
+      changes.sort((a, b) => a.tick - b.tick);
+
+      const map = [{tick: 0, tempo: 500000, time: 0}];
+
+      changes.forEach(e => {
+        const previous = map[map.length - 1];
+        if (e.tick === previous.tick) {
+          previous.tempo = e.meta.tempo;
+        } else {
+          map.push({
+            tick: e.tick,
+            tempo: e.meta.tempo,
+            time: previous.time + (e.tick - previous.tick) * previous.tempo / ppq / 1000
+          });
+        }
+      });
+
+      this._tempoMaps.push(map);
+
+    });
+
+    this.tracks.forEach((track, index) => {
+      track.events.forEach(e => e.time = this.ticksToMilliseconds(e.tick, index));
+    });
+
+  }
+
+  /**
+   * Returns the tempo map of the file (or of the specified track for format 2 files). Each entry
+   * contains the position (`tick` and `time` in milliseconds) where a tempo change occurs and the
+   * new `tempo` (in microseconds per quarter note). The first entry is always at tick `0`.
+   *
+   * @param {number} [track=0] The track index (only relevant for format 2 files).
+   *
+   * @returns {Array<{tick: number, tempo: number, time: number}>}
+   */
+  getTempoMap(track: number = 0): { tick: number, tempo: number, time: number }[] {
+    const map = this._tempoMaps[this.format === 2 ? track : 0] ||
+      [{tick: 0, tempo: 500000, time: 0}];
+    return map.map(entry => Object.assign({}, entry));
+  }
+
+  /**
+   * Converts a position in milliseconds to a position in ticks, taking into account the tempo map
+   * or the SMPTE time division.
+   *
+   * @param {number} time The position in milliseconds.
+   * @param {number} [track=0] The track index (only relevant for format 2 files).
+   *
+   * @returns {number} The position in ticks (not rounded).
+   */
+  millisecondsToTicks(time: number, track: number = 0): number {
+
+    if (this.smpte) {
+      return time / 1000 * this._smpteFrameRate * this.smpte.ticksPerFrame;
+    }
+
+    const map = this.getTempoMap(track);
+    let entry = map[0];
+    for (let i = 1; i < map.length && map[i].time <= time; i++) entry = map[i];
+    return entry.tick + (time - entry.time) * 1000 * this.ticksPerQuarterNote / entry.tempo;
+
+  }
+
+  /**
+   * Serializes the file to the Standard MIDI File binary format. If the file's format is `0` and it
+   * contains more than one track, the tracks are merged into a single one. An end-of-track meta
+   * event is added to tracks that do not end with one.
+   *
+   * @returns {Uint8Array}
+   */
+  toUint8Array(): Uint8Array {
+
+    let tracks = this.tracks;
+
+    if (this.format === 0 && tracks.length > 1) {
+      const events = [];
+      tracks.forEach(track => {
+        track.events.forEach(e => {
+          if (!e.meta || e.meta.type !== "endoftrack") events.push(e);
+        });
+      });
+      tracks = [{name: tracks[0].name, events: MidiFile._sortEvents(events)}];
+    }
+
+    const bytes = [];
+    const pushUint16 = value => bytes.push((value >> 8) & 0xFF, value & 0xFF);
+    const pushUint32 = value => {
+      bytes.push((value >>> 24) & 0xFF, (value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF);
+    };
+
+    // Header chunk
+    bytes.push(0x4D, 0x54, 0x68, 0x64); // MThd
+    pushUint32(6);
+    pushUint16(this.format);
+    pushUint16(tracks.length);
+
+    if (this.smpte) {
+      const fps = Math.floor(this.smpte.framesPerSecond);
+      pushUint16((((256 - fps) & 0xFF) << 8) + (this.smpte.ticksPerFrame & 0xFF));
+    } else {
+      pushUint16(this.ticksPerQuarterNote & 0x7FFF);
+    }
+
+    // Track chunks
+    tracks.forEach(track => {
+
+      const data = [];
+      let tick = 0;
+      let ended = false;
+
+      MidiFile._sortEvents(track.events).forEach(e => {
+
+        if (ended) return;
+
+        const eventTick = Math.max(Math.round(e.tick), tick);
+        MidiFile._append(data, MidiFile._toVariableLength(eventTick - tick));
+        tick = eventTick;
+
+        if (e.meta) {
+          data.push(0xFF, e.meta.metaType & 0x7F);
+          MidiFile._append(data, MidiFile._toVariableLength(e.meta.data.length));
+          MidiFile._append(data, e.meta.data);
+          if (e.meta.type === "endoftrack") ended = true;
+        } else if (e.message.statusByte === 0xF0) {
+          const sysex = e.message.data.slice(1);
+          data.push(0xF0);
+          MidiFile._append(data, MidiFile._toVariableLength(sysex.length));
+          MidiFile._append(data, sysex);
+        } else if (e.message.isSystemMessage) {
+          // Other system messages must be escaped
+          data.push(0xF7);
+          MidiFile._append(data, MidiFile._toVariableLength(e.message.data.length));
+          MidiFile._append(data, e.message.data);
+        } else {
+          MidiFile._append(data, e.message.data);
+        }
+
+      });
+
+      if (!ended) data.push(0x00, 0xFF, 0x2F, 0x00);
+
+      bytes.push(0x4D, 0x54, 0x72, 0x6B); // MTrk
+      pushUint32(data.length);
+      MidiFile._append(bytes, data);
+
+    });
+
+    return new Uint8Array(bytes);
+
+  }
+
+  /**
+   * Returns a copy of the events sorted by tick. Events sharing the same tick keep their relative
+   * order.
+   *
+   * @private
+   */
+  static _sortEvents(events: MidiFileEvent[]): MidiFileEvent[] {
+    return events
+      .map((e, index) => ({e, index}))
+      .sort((a, b) => (a.e.tick - b.e.tick) || (a.index - b.index))
+      .map(item => item.e);
+  }
+
+  /**
+   * @private
+   */
+  static _toVariableLength(value: number): number[] {
+
+    value = Math.max(Math.round(value), 0);
+    const bytes = [value & 0x7F];
+
+    while (value > 0x7F) {
+      value = Math.floor(value / 128);
+      bytes.unshift((value & 0x7F) | 0x80);
+    }
+
+    return bytes;
+
+  }
+
+  /**
+   * Converts a position in ticks to a position in milliseconds, taking into account the tempo map
+   * or the SMPTE time division.
+   *
+   * @param {number} tick The position in ticks.
+   * @param {number} [track=0] The track index (only relevant for format 2 files).
+   *
+   * @returns {number} The position in milliseconds.
+   */
+  ticksToMilliseconds(tick: number, track: number = 0): number {
+
+    if (this.smpte) {
+      return tick / (this._smpteFrameRate * this.smpte.ticksPerFrame) * 1000;
+    }
+
+    const map = this._tempoMaps[this.format === 2 ? track : 0] ||
+      [{tick: 0, tempo: 500000, time: 0}];
+    let entry = map[0];
+    for (let i = 1; i < map.length && map[i].tick <= tick; i++) entry = map[i];
+    return entry.time + (tick - entry.tick) * entry.tempo / this.ticksPerQuarterNote / 1000;
+
+  }
+
+  /**
+   * @private
+   */
+  private get _smpteFrameRate(): number {
+    return this.smpte.framesPerSecond === 29.97 ? 30000 / 1001 : this.smpte.framesPerSecond;
+  }
+
+  /**
+   * The duration of the file in milliseconds (the time of the last event of the longest track).
+   *
+   * @type {number}
+   * @readonly
+   */
+  get duration(): number {
+    return this.tracks.reduce((duration, track) => {
+      const last = track.events[track.events.length - 1];
+      return last ? Math.max(duration, last.time) : duration;
+    }, 0);
+  }
+
+}
@@ -0,0 +1,538 @@
+import {Message} from "./Message";
+import {MidiFile} from "./MidiFile";
+import {MidiFileEvent, WebMidiApi} from "./Interfaces";
+import {Note} from "./Note";
+import {Output} from "./Output";
+import {OutputChannel} from "./OutputChannel";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * In-memory `MIDIOutput` used by [`MidiFileWriterTrack`](MidiFileWriterTrack) objects. Instead of
+ * transmitting messages, it records them with their tick position.
+ *
+ * @private
+ */
+class MidiFileWriterPort implements WebMidiApi.MIDIOutput {
+
+  connection: WebMidiApi.MIDIPortConnectionState = "open";
+  id: string;
+  manufacturer: string = "";
+  name: string;
+  onstatechange: (e: WebMidiApi.MIDIConnectionEvent) => void = null;
+  state: WebMidiApi.MIDIPortDeviceState = "connected";
+  type: "output" = "output";
+  version: string = "";
+
+  events: MidiFileEvent[] = [];
+  track: MidiFileWriterTrack;
+
+  constructor(id: string, name: string) {
+    this.id = id;
+    this.name = name;
+  }
+
+  addEventListener(): void {}
+
+  clear(): void {}
+
+  async close(): Promise<MidiFileWriterPort> {
+    return this;
+  }
+
+  dispatchEvent(): boolean {
+    return true;
+  }
+
+  async open(): Promise<MidiFileWriterPort> {
+    return this;
+  }
+
+  removeEventListener(): void {}
+
+  send(data: number[] | Uint8Array, timestamp?: number | false): void {
+    const tick = typeof timestamp === "number" ? timestamp : this.track.position;
+    const message = new Message(Uint8Array.from(data));
+    this.events.push({delta: 0, tick, time: 0, type: message.type, message});
+  }
+
+}
+
+/**
+ * The `MidiFileWriterChannel` class is the [`OutputChannel`](OutputChannel) used by
+ * [`MidiFileWriterTrack`](MidiFileWriterTrack) objects. It only differs from its parent class in
+ * that the `duration` option of [`playNote()`](#playNote) is expressed in ticks.
+ *
+ * @extends OutputChannel
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class MidiFileWriterChannel extends OutputChannel {
+
+  /**
+   * Records a **note on** message and, if a `duration` is specified, a matching **note off**
+   * message `duration` ticks later. All options are the same as with
+   * [`OutputChannel.playNote()`](OutputChannel#playNote) except that `time` and `duration` are
+   * expressed in ticks.
+   *
+   * @param note {number|string|Note|number[]|string[]|Note[]} The note(s) to play.
+   * @param {object} [options={}]
+   * @param {number} [options.time=(track position)] The position (in ticks) of the note on.
+   * @param {number} [options.duration] The duration of the note (in ticks).
+   *
+   * @returns {MidiFileWriterChannel} Returns the channel so methods can be chained.
+   */
+  playNote(note: number | string | Note | number[] | string[] | Note[], options: {
+    duration?: number;
+    attack?: number;
+    rawAttack?: number;
+    release?: number;
+    rawRelease?: number;
+    time?: number | string;
+  } = {}): MidiFileWriterChannel {
+
+    const time = (this.output as MidiFileWriterTrack)._resolveTime(options.time);
+
+    this.sendNoteOn(note, Object.assign({}, options, {time}));
+
+    const notes: any[] = Array.isArray(note) ? note : [note];
+
+    notes.forEach(item => {
+
+      let noteOffOptions;
+
+      if (item instanceof Note && Number(item.duration) > 0) {
+        noteOffOptions = {
+          time: time + Math.floor(Number(item.duration)),
+          release: item.release,
+          rawRelease: item.rawRelease
+        };
+      } else if (Number(options.duration) > 0) {
+        noteOffOptions = {
+          time: time + Math.floor(Number(options.duration)),
+          release: options.release,
+          rawRelease: options.rawRelease
+        };
+      }
+
+      if (noteOffOptions) this.sendNoteOff(item, noteOffOptions);
+
+    });
+
+    return this;
+
+  }
+
+}
+
+/**
+ * The `MidiFileWriterTrack` class represents a track of a [`MidiFileWriter`](MidiFileWriter). It
+ * extends [`Output`](Output) so it offers the exact same methods (`sendNoteOn()`,
+ * `sendControlChange()`, `sendPitchBend()`, `sendSysex()`, `sendRpnValue()`, `sendNrpnValue()`,
+ * etc.) and the same validation, both globally and through its [`channels`](Output#channels).
+ * However, instead of being transmitted, messages are recorded at a position expressed in ticks.
+ *
+ * The `time` option of all methods is an absolute position in ticks. When it is omitted, the
+ * track's current [`position`](#position) is used. Relative times (strings prefixed with `"+"`)
+ * are not supported: use [`advance()`](#advance) to move the position forward instead.
+ *
+ * ```js
+ * const writer = new MidiFileWriter({ticksPerQuarterNote: 480});
+ * const track = writer.addTrack("Piano");
+ * track.setTempo(100);
+ * track.channels[1].sendProgramChange(0);
+ * track.channels[1].playNote("C4", {duration: 480});
+ * track.advance(480).channels[1].playNote(["E4", "G4"], {duration: 960});
+ * fs.writeFileSync("song.mid", writer.toUint8Array());
+ * ```
+ *
+ * @extends Output
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class MidiFileWriterTrack extends Output {
+
+  private _port: MidiFileWriterPort;
+
+  /**
+   * The current position (in ticks) of the track. Messages and meta events recorded without an
+   * explicit `time` option are placed at this position.
+   *
+   * @type {number}
+   */
+  position: number = 0;
+
+  /**
+   * Creates a `MidiFileWriterTrack` object. You should use
+   * [`MidiFileWriter.addTrack()`](MidiFileWriter#addTrack) instead.
+   *
+   * @param {string} [name] The name of the track.
+   */
+  constructor(name?: string) {
+
+    super(new MidiFileWriterPort(`track-${MidiFileWriter._trackCount++}`, name || ""));
+
+    this._port = <MidiFileWriterPort>this._midiOutput;
+    this._port.track = this;
+
+    // Channels are replaced so the `duration` of notes is expressed in ticks
+    for (let i = 1; i <= 16; i++) this.channels[i] = new MidiFileWriterChannel(this, i);
+
+    // Positions are expressed in ticks so messages must never be held by the scheduler
+    this.scheduler.lookahead = Infinity;
+
+    if (name) this.setTrackName(name);
+
+  }
+
+  /**
+   * @private
+   */
+  _addMetaEvent(metaType: number, data: number[], time?: number | string): MidiFileWriterTrack {
+    const meta = MidiFile._parseMetaEvent(metaType, Uint8Array.from(data));
+    const tick = this._resolveTime(time);
+    this._port.events.push({delta: 0, tick, time: 0, type: meta.type, meta});
+    return this;
+  }
+
+  /**
+   * Returns the position (in ticks) matching the specified `time` option.
+   *
+   * @private
+   */
+  _resolveTime(time?: number | string | false): number {
+    const value = typeof time === "string" ? parseFloat(time) : time;
+    return typeof value === "number" && value >= 0 ? value : this.position;
+  }
+
+  /**
+   * Moves the track's [`position`](#position) forward by the specified number of ticks.
+   *
+   * @param ticks {number} The number of ticks to move forward by.
+   *
+   * @throws {RangeError} The number of ticks must be a positive number.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  advance(ticks: number): MidiFileWriterTrack {
+
+    if (WebMidi.validation) {
+      if (!(ticks >= 0)) throw new RangeError("The number of ticks must be a positive number.");
+    }
+
+    this.position += ticks;
+    return this;
+
+  }
+
+  /**
+   * Adds a **lyrics** meta event.
+   *
+   * @param text {string} The lyrics.
+   * @param {object} [options={}]
+   * @param {number} [options.time=(track position)] The position (in ticks) of the event.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  addLyrics(text: string, options: { time?: number } = {}): MidiFileWriterTrack {
+    return this._addMetaEvent(0x05, MidiFileWriterTrack._textToBytes(text), options.time);
+  }
+
+  /**
+   * Adds a **marker** meta event.
+   *
+   * @param text {string} The name of the marker.
+   * @param {object} [options={}]
+   * @param {number} [options.time=(track position)] The position (in ticks) of the event.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  addMarker(text: string, options: { time?: number } = {}): MidiFileWriterTrack {
+    return this._addMetaEvent(0x06, MidiFileWriterTrack._textToBytes(text), options.time);
+  }
+
+  /**
+   * Adds a **text** meta event.
+   *
+   * @param text {string} The text.
+   * @param {object} [options={}]
+   * @param {number} [options.time=(track position)] The position (in ticks) of the event.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  addText(text: string, options: { time?: number } = {}): MidiFileWriterTrack {
+    return this._addMetaEvent(0x01, MidiFileWriterTrack._textToBytes(text), options.time);
+  }
+
+  /**
+   * Records a MIDI message. This works just like [`Output.send()`](Output#send) except that the
+   * `time` option is a position in ticks (the track's [`position`](#position) by default).
+   *
+   * @param message {number[]|Uint8Array|Message} The message to record.
+   * @param {object} [options={}]
+   * @param {number} [options.time=(track position)] The position (in ticks) of the message.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  send(message: number[] | Uint8Array | Message, options: {
+    time?: number | string;
+  } = {}): MidiFileWriterTrack {
+    super.send(message, {time: this._resolveTime(options.time)});
+    return this;
+  }
+
+  /**
+   * Adds a **key signature** meta event.
+   *
+   * @param key {number} The number of sharps (positive integer) or flats (negative integer)
+   * between -7 and 7.
+   * @param {string} [scale="major"] The scale: `"major"` or `"minor"`.
+   * @param {object} [options={}]
+   * @param {number} [options.time=(track position)] The position (in ticks) of the event.
+   *
+   * @throws {RangeError} The key must be an integer between -7 and 7.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  setKeySignature(key: number, scale: string = "major", options: {
+    time?: number;
+  } = {}): MidiFileWriterTrack {
+
+    if (WebMidi.validation) {
+      if (!Number.isInteger(key) || !(key >= -7 && key <= 7)) {
+        throw new RangeError("The key must be an integer between -7 and 7.");
+      }
+    }
+
+    return this._addMetaEvent(0x59, [key & 0xFF, scale === "minor" ? 1 : 0], options.time);
+
+  }
+
+  /**
+   * Adds a **tempo** meta event. In format 1 files, tempo events should be added to the first
+   * track.
+   *
+   * @param bpm {number} The tempo in beats (quarter notes) per minute.
+   * @param {object} [options={}]
+   * @param {number} [options.time=(track position)] The position (in ticks) of the event.
+   *
+   * @throws {RangeError} The tempo must be a positive number.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  setTempo(bpm: number, options: { time?: number } = {}): MidiFileWriterTrack {
+
+    if (WebMidi.validation) {
+      if (!(bpm > 0)) throw new RangeError("The tempo must be a positive number.");
+    }
+
+    const tempo = Math.min(Math.round(60000000 / bpm), 0xFFFFFF);
+    return this._addMetaEvent(
+      0x51, [(tempo >> 16) & 0xFF, (tempo >> 8) & 0xFF, tempo & 0xFF], options.time
+    );
+
+  }
+
+  /**
+   * Adds a **time signature** meta event.
+   *
+   * @param numerator {number} The number of beats per bar.
+   * @param denominator {number} The beat unit (a power of 2: `1`, `2`, `4`, `8`, etc.).
+   * @param {object} [options={}]
+   * @param {number} [options.time=(track position)] The position (in ticks) of the event.
+   * @param {number} [options.clocksPerClick=24] The number of MIDI clocks per metronome click.
+   * @param {number} [options.thirtySecondsPerQuarter=8] The number of 32nd notes per quarter note.
+   *
+   * @throws {RangeError} The numerator must be an integer between 1 and 255.
+   * @throws {RangeError} The denominator must be a power of 2.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  setTimeSignature(numerator: number, denominator: number, options: {
+    time?: number;
+    clocksPerClick?: number;
+    thirtySecondsPerQuarter?: number;
+  } = {}): MidiFileWriterTrack {
+
+    const power = Math.log2(denominator);
+
+    if (WebMidi.validation) {
+      if (!Number.isInteger(numerator) || !(numerator >= 1 && numerator <= 255)) {
+        throw new RangeError("The numerator must be an integer between 1 and 255.");
+      }
+      if (!Number.isInteger(power) || power < 0) {
+        throw new RangeError("The denominator must be a power of 2.");
+      }
+    }
+
+    return this._addMetaEvent(
+      0x58,
+      [numerator, power, options.clocksPerClick || 24, options.thirtySecondsPerQuarter || 8],
+      options.time
+    );
+
+  }
+
+  /**
+   * Adds a **track name** meta event. This is automatically done when a name is specified while
+   * creating the track.
+   *
+   * @param name {string} The name of the track.
+   * @param {object} [options={}]
+   * @param {number} [options.time=0] The position (in ticks) of the event.
+   *
+   * @returns {MidiFileWriterTrack} Returns the track so methods can be chained.
+   */
+  setTrackName(name: string, options: { time?: number } = {}): MidiFileWriterTrack {
+    this._port.name = name;
+    return this._addMetaEvent(0x03, MidiFileWriterTrack._textToBytes(name), options.time || 0);
+  }
+
+  /**
+   * @private
+   */
+  static _textToBytes(text: string): number[] {
+    return Array.from(String(text)).map(character => character.charCodeAt(0) & 0xFF);
+  }
+
+  /**
+   * The events recorded in the track, sorted by tick.
+   *
+   * @type {MidiFileEvent[]}
+   * @readonly
+   */
+  get events(): MidiFileEvent[] {
+    return MidiFile._sortEvents(this._port.events);
+  }
+
+}
+
+/**
+ * The `MidiFileWriter` class lets you create Standard MIDI Files (format 0 or 1) by using the same
+ * methods you would use to send MIDI messages to an [`Output`](Output). Each track created with
+ * [`addTrack()`](#addTrack) is a [`MidiFileWriterTrack`](MidiFileWriterTrack) that records
+ * messages at tick positions instead of transmitting them. When done, call
+ * [`toUint8Array()`](#toUint8Array) to get the binary content of the file.
+ *
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class MidiFileWriter {
+
+  /**
+   * @private
+   */
+  static _trackCount: number = 0;
+
+  /**
+   * The format of the file: `0` (all tracks are merged into a single one) or `1` (multiple
+   * simultaneous tracks).
+   *
+   * @type {number}
+   */
+  format: number;
+
+  /**
+   * The number of ticks per quarter note (PPQ).
+   *
+   * @type {number}
+   */
+  ticksPerQuarterNote: number;
+
+  /**
+   * The tracks of the file.
+   *
+   * @type {MidiFileWriterTrack[]}
+   */
+  tracks: MidiFileWriterTrack[] = [];
+
+  /**
+   * Creates a `MidiFileWriter` object.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.format=1] The format of the file (`0` or `1`).
+   * @param {number} [options.ticksPerQuarterNote=480] The number of ticks per quarter note (PPQ),
+   * between 1 and 32767.
+   *
+   * @throws {RangeError} The format must be 0 or 1.
+   * @throws {RangeError} The number of ticks per quarter note must be an integer between 1 and
+   * 32767.
+   */
+  constructor(options: {
+    format?: number;
+    ticksPerQuarterNote?: number;
+  } = {}) {
+
+    this.format = options.format === undefined ? 1 : options.format;
+    this.ticksPerQuarterNote = options.ticksPerQuarterNote || 480;
+
+    if (WebMidi.validation) {
+
+      if (this.format !== 0 && this.format !== 1) {
+        throw new RangeError("The format must be 0 or 1.");
+      }
+
+      if (
+        !Number.isInteger(this.ticksPerQuarterNote) ||
+        !(this.ticksPerQuarterNote >= 1 && this.ticksPerQuarterNote <= 32767)
+      ) {
+        throw new RangeError(
+          "The number of ticks per quarter note must be an integer between 1 and 32767."
+        );
+      }
+
+    }
+
+  }
+
+  /**
+   * Creates a new track and adds it to the file.
+   *
+   * @param {string} [name] The name of the track.
+   *
+   * @returns {MidiFileWriterTrack}
+   */
+  addTrack(name?: string): MidiFileWriterTrack {
+    const track = new MidiFileWriterTrack(name);
+    this.tracks.push(track);
+    return track;
+  }
+
+  /**
+   * Returns a [`MidiFile`](MidiFile) object containing all the recorded events. The time (in
+   * milliseconds) of each event is calculated from the tempo events.
+   *
+   * @returns {MidiFile}
+   */
+  toMidiFile(): MidiFile {
+
+    const file = new MidiFile(this.format, this.ticksPerQuarterNote);
+
+    file.tracks = this.tracks.map(track => {
+
+      let tick = 0;
+
+      const events = track.events.map(e => {
+        const event = Object.assign({}, e, {delta: e.tick - tick});
+        tick = e.tick;
+        return event;
+      });
+
+      return {name: track.name || undefined, events};
+
+    });
+
+    file._updateTiming();
+    return file;
+
+  }
+
+  /**
+   * Returns the binary content of the Standard MIDI File.
+   *
+   * @returns {Uint8Array}
+   */
+  toUint8Array(): Uint8Array {
+    return this.toMidiFile().toUint8Array();
+  }
+
+}
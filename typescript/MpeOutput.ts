@@ -0,0 +1,412 @@
+import {Note} from "./Note";
+import {Output} from "./Output";
+import {OutputChannel} from "./OutputChannel";
+import {Utilities} from "./Utilities";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * The `MpeOutput` class sends MIDI Polyphonic Expression (MPE) to an [`Output`](Output). It
+ * configures the lower and/or upper zones with the MPE Configuration Message (RPN 6) and takes
+ * care of the channel juggling: each note is played on its own member channel so it can receive
+ * its own pitch bend, pressure (channel aftertouch) and timbre (CC74) messages.
+ *
+ * When all member channels of a zone are busy, a new note steals the channel of the oldest note
+ * (see [`voiceStealing`](#voiceStealing)). Freed channels are reused in the order they were
+ * released so release tails are not cut short.
+ *
+ * ```javascript
+ * const mpe = new MpeOutput(WebMidi.outputs[0]);
+ * mpe.setZone("lower", 15);
+ * mpe.sendNoteOn("C4", {attack: 0.8, timbre: 0.2});
+ * mpe.sendNoteBend("C4", 0.5).sendNotePressure("C4", 0.7);
+ * mpe.sendNoteOff("C4");
+ * ```
+ *
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class MpeOutput {
+
+  /**
+   * The [`Output`](Output) MPE messages are sent to.
+   * @type {Output}
+   */
+  output: Output;
+
+  /**
+   * What to do when a note is played while all the member channels of its zone are busy:
+   * `"oldest"` releases the oldest note and reuses its channel, `"none"` ignores the new note.
+   * @type {string}
+   */
+  voiceStealing: string;
+
+  private _free: { lower: number[], upper: number[] } = {lower: [], upper: []};
+  private _notes: { channel: number, number: number, zone: string }[] = [];
+  private _zones: { lower: number, upper: number } = {lower: 0, upper: 0};
+
+  /**
+   * Creates an `MpeOutput` object. No zone is configured until [`setZone()`](#setZone) is called.
+   *
+   * @param {Output} output The [`Output`](Output) to send MPE messages to.
+   *
+   * @param {object} [options={}]
+   * @param {string} [options.voiceStealing="oldest"] What to do when a note is played while all
+   * the member channels of its zone are busy: `"oldest"` or `"none"`.
+   *
+   * @throws {TypeError} The output must be of type 'Output'.
+   * @throws {TypeError} The voice stealing mode must be 'oldest' or 'none'.
+   */
+  constructor(output: Output, options: { voiceStealing?: string } = {}) {
+
+    const voiceStealing = options.voiceStealing || "oldest";
+
+    if (WebMidi.validation) {
+
+      if (!(output instanceof Output)) {
+        throw new TypeError("The output must be of type 'Output'.");
+      }
+
+      if (!["oldest", "none"].includes(voiceStealing)) {
+        throw new TypeError("The voice stealing mode must be 'oldest' or 'none'.");
+      }
+
+    }
+
+    this.output = output;
+    this.voiceStealing = voiceStealing;
+
+  }
+
+  /**
+   * Returns the active note matching the specified note, if any.
+   * @private
+   */
+  _find(note: number | string | Note, zone: string): {
+    channel: number,
+    number: number,
+    zone: string
+  } {
+    const number = Utilities.buildNote(note, {}).number;
+    return this._notes.find(n => n.number === number && n.zone === zone);
+  }
+
+  /**
+   * Releases the member channel used by a note so it can be allocated again.
+   * @private
+   */
+  _release(active: { channel: number, number: number, zone: string }): void {
+    this._notes.splice(this._notes.indexOf(active), 1);
+    if (this.getMemberChannels(active.zone).includes(active.channel)) {
+      this._free[active.zone].push(active.channel);
+    }
+  }
+
+  /**
+   * Returns the manager channel of the specified zone (channel 1 for the lower zone and channel 16
+   * for the upper zone). Messages sent on this channel apply to all the notes of the zone.
+   *
+   * @param {string} [zone="lower"] The zone: `"lower"` or `"upper"`.
+   *
+   * @returns {OutputChannel}
+   */
+  getManagerChannel(zone: string = "lower"): OutputChannel {
+    return this.output.channels[zone === "upper" ? 16 : 1];
+  }
+
+  /**
+   * Returns the member channel numbers of the specified zone. Member channels of the lower zone
+   * start at channel 2 and go up, while the ones of the upper zone start at channel 15 and go down.
+   *
+   * @param {string} [zone="lower"] The zone: `"lower"` or `"upper"`.
+   *
+   * @returns {number[]} An array of channel numbers (empty if the zone is not configured).
+   */
+  getMemberChannels(zone: string = "lower"): number[] {
+    const channels = [];
+    for (let i = 1; i <= this._zones[zone]; i++) channels.push(zone === "upper" ? 16 - i : 1 + i);
+    return channels;
+  }
+
+  /**
+   * Sends a **pitch bend** message on the channel of an active note.
+   *
+   * @param {number|string|Note} note The note (as a number, an identifier or a [`Note`](Note)).
+   * @param {number} value The intensity of the bend (between -1.0 and 1.0), relative to the
+   * member channels' pitch bend range.
+   *
+   * @param {object} [options={}]
+   * @param {number|string} [options.time=(now)] The moment when the message should be sent.
+   * @param {string} [options.zone="lower"] The zone the note belongs to.
+   *
+   * @returns {MpeOutput} Returns the `MpeOutput` object so methods can be chained.
+   */
+  sendNoteBend(note: number | string | Note, value: number, options: {
+    time?: number | string;
+    zone?: string;
+  } = {}): MpeOutput {
+
+    const active = this._find(note, options.zone || "lower");
+
+    if (active) {
+      this.output.channels[active.channel].sendPitchBend(value, {time: options.time});
+    }
+
+    return this;
+
+  }
+
+  /**
+   * Sends a **note off** message for an active note and frees its member channel.
+   *
+   * @param {number|string|Note} note The note (as a number, an identifier or a [`Note`](Note)).
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.release=0.5] The release velocity (between `0` and `1`).
+   * @param {number|string} [options.time=(now)] The moment when the message should be sent.
+   * @param {string} [options.zone="lower"] The zone the note belongs to.
+   *
+   * @returns {MpeOutput} Returns the `MpeOutput` object so methods can be chained.
+   */
+  sendNoteOff(note: number | string | Note, options: {
+    release?: number;
+    time?: number | string;
+    zone?: string;
+  } = {}): MpeOutput {
+
+    const active = this._find(note, options.zone || "lower");
+    if (!active) return this;
+
+    this.output.channels[active.channel].sendNoteOff(
+      active.number,
+      {release: options.release, time: options.time}
+    );
+
+    this._release(active);
+    return this;
+
+  }
+
+  /**
+   * Allocates a member channel and sends a **note on** message on it. The initial expression
+   * values are sent on the channel before the note on message, as recommended by the MPE
+   * specification. The values that are not specified are reset to their default (centered pitch
+   * bend, timbre of `64` and no pressure).
+   *
+   * If the same note is already active in the zone, it is released first. If all member channels
+   * are busy, the oldest note is released and its channel reused, unless
+   * [`voiceStealing`](#voiceStealing) is `"none"`, in which case the note is ignored.
+   *
+   * @param {number|string|Note} note The note (as a number, an identifier or a [`Note`](Note)).
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.attack=0.5] The attack velocity (between `0` and `1`).
+   * @param {number} [options.bend=0] The initial pitch bend (between `-1` and `1`).
+   * @param {number} [options.pressure=0] The initial pressure (between `0` and `1`).
+   * @param {number|string} [options.time=(now)] The moment when the message should be sent.
+   * @param {number} [options.timbre=0.5] The initial timbre (CC74), between `0` and `1`.
+   * @param {string} [options.zone="lower"] The zone to play the note in.
+   *
+   * @throws {Error} The zone is not configured.
+   *
+   * @returns {MpeOutput} Returns the `MpeOutput` object so methods can be chained.
+   */
+  sendNoteOn(note: number | string | Note, options: {
+    attack?: number;
+    bend?: number;
+    pressure?: number;
+    time?: number | string;
+    timbre?: number;
+    zone?: string;
+  } = {}): MpeOutput {
+
+    const zone = options.zone || "lower";
+
+    if (WebMidi.validation && this._zones[zone] < 1) {
+      throw new Error("The zone is not configured.");
+    }
+
+    const number = Utilities.buildNote(note, {}).number;
+
+    const previous = this._find(number, zone);
+    if (previous) this.sendNoteOff(number, {time: options.time, zone});
+
+    if (this._free[zone].length < 1) {
+      if (this.voiceStealing === "none") return this;
+      const oldest = this._notes.find(n => n.zone === zone);
+      this.sendNoteOff(oldest.number, {time: options.time, zone});
+    }
+
+    const channel = this._free[zone].shift();
+    const outputChannel = this.output.channels[channel];
+    this._notes.push({channel, number, zone});
+
+    // The channel's expression is always reset so the note does not inherit the pitch bend,
+    // timbre or pressure of the previous note played on the same channel
+    const bend = options.bend === undefined ? 0 : options.bend;
+    const timbre = options.timbre === undefined ? 0.5 : options.timbre;
+    const pressure = options.pressure === undefined ? 0 : options.pressure;
+
+    outputChannel.sendPitchBend(bend, {time: options.time});
+    this.sendNoteTimbre(number, timbre, {time: options.time, zone});
+    outputChannel.sendChannelAftertouch(pressure, {time: options.time});
+
+    outputChannel.sendNoteOn(number, {attack: options.attack, time: options.time});
+    return this;
+
+  }
+
+  /**
+   * Sends a **channel aftertouch** (pressure) message on the channel of an active note.
+   *
+   * @param {number|string|Note} note The note (as a number, an identifier or a [`Note`](Note)).
+   * @param {number} value The pressure (between `0` and `1`).
+   *
+   * @param {object} [options={}]
+   * @param {number|string} [options.time=(now)] The moment when the message should be sent.
+   * @param {string} [options.zone="lower"] The zone the note belongs to.
+   *
+   * @returns {MpeOutput} Returns the `MpeOutput` object so methods can be chained.
+   */
+  sendNotePressure(note: number | string | Note, value: number, options: {
+    time?: number | string;
+    zone?: string;
+  } = {}): MpeOutput {
+
+    const active = this._find(note, options.zone || "lower");
+
+    if (active) {
+      this.output.channels[active.channel].sendChannelAftertouch(value, {time: options.time});
+    }
+
+    return this;
+
+  }
+
+  /**
+   * Sends a timbre message (control change 74) on the channel of an active note.
+   *
+   * @param {number|string|Note} note The note (as a number, an identifier or a [`Note`](Note)).
+   * @param {number} value The timbre (between `0` and `1`).
+   *
+   * @param {object} [options={}]
+   * @param {number|string} [options.time=(now)] The moment when the message should be sent.
+   * @param {string} [options.zone="lower"] The zone the note belongs to.
+   *
+   * @throws {RangeError} The timbre value must be a float between 0 and 1.
+   *
+   * @returns {MpeOutput} Returns the `MpeOutput` object so methods can be chained.
+   */
+  sendNoteTimbre(note: number | string | Note, value: number, options: {
+    time?: number | string;
+    zone?: string;
+  } = {}): MpeOutput {
+
+    if (WebMidi.validation && !(value >= 0 && value <= 1)) {
+      throw new RangeError("The timbre value must be a float between 0 and 1.");
+    }
+
+    const active = this._find(note, options.zone || "lower");
+
+    if (active) {
+      this.output.channels[active.channel].sendControlChange(
+        74,
+        Math.round(value * 127),
+        {time: options.time}
+      );
+    }
+
+    return this;
+
+  }
+
+  /**
+   * Configures a zone by sending the MPE Configuration Message (RPN 6) on its manager channel,
+   * followed by the pitch bend range of the manager and member channels.
+   *
+   * The lower and upper zones share the 14 channels between the two manager channels. If the new
+   * zone overlaps the other one, the other one is shrunk accordingly (and disabled if no member
+   * channel is left). Setting the number of member channels to `0` disables the zone. Active notes
+   * of the affected zones are released.
+   *
+   * @param {string} zone The zone: `"lower"` or `"upper"`.
+   * @param {number} channels The number of member channels (between `0` and `15`).
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.managerPitchBendRange=2] The pitch bend range (in semitones) of the
+   * manager channel.
+   * @param {number} [options.memberPitchBendRange=48] The pitch bend range (in semitones) of the
+   * member channels.
+   * @param {number|string} [options.time=(now)] The moment when the messages should be sent.
+   *
+   * @throws {TypeError} The zone must be 'lower' or 'upper'.
+   * @throws {RangeError} The number of member channels must be an integer between 0 and 15.
+   *
+   * @returns {MpeOutput} Returns the `MpeOutput` object so methods can be chained.
+   */
+  setZone(zone: string, channels: number, options: {
+    managerPitchBendRange?: number;
+    memberPitchBendRange?: number;
+    time?: number | string;
+  } = {}): MpeOutput {
+
+    if (WebMidi.validation) {
+
+      if (!["lower", "upper"].includes(zone)) {
+        throw new TypeError("The zone must be 'lower' or 'upper'.");
+      }
+
+      if (!(Number.isInteger(channels) && channels >= 0 && channels <= 15)) {
+        throw new RangeError("The number of member channels must be an integer between 0 and 15.");
+      }
+
+    }
+
+    const other = zone === "lower" ? "upper" : "lower";
+    const time = options.time;
+
+    // Release the notes of the zones being reconfigured
+    this._notes.slice().forEach(n => {
+      if (n.zone === zone || this._zones[other] > 14 - channels) {
+        this.sendNoteOff(n.number, {time, zone: n.zone});
+      }
+    });
+
+    this._zones[zone] = channels;
+    this._zones[other] = Math.min(this._zones[other], Math.max(0, 14 - channels));
+
+    const busy = this._notes.map(n => n.channel);
+    this._free.lower = this.getMemberChannels("lower").filter(c => !busy.includes(c));
+    this._free.upper = this.getMemberChannels("upper").filter(c => !busy.includes(c));
+
+    const manager = this.getManagerChannel(zone);
+    manager.sendRpnValue("mpeconfiguration", [channels, 0], {time});
+    if (channels < 1) return this;
+
+    const managerRange = options.managerPitchBendRange === undefined ?
+      2 :
+      options.managerPitchBendRange;
+
+    const memberRange = options.memberPitchBendRange === undefined ?
+      48 :
+      options.memberPitchBendRange;
+
+    manager.sendPitchBendRange(managerRange, 0, {time});
+
+    this.getMemberChannels(zone).forEach(channel => {
+      this.output.channels[channel].sendPitchBendRange(memberRange, 0, {time});
+    });
+
+    return this;
+
+  }
+
+  /**
+   * The number of member channels of each zone (`0` means the zone is disabled).
+   * @readonly
+   * @type {{lower: number, upper: number}}
+   */
+  get zones(): { lower: number, upper: number } {
+    return Object.assign({}, this._zones);
+  }
+
+}
@@ -4,9 +4,11 @@ import {Enumerations} from "./Enumerations";
 import {Message} from "./Message";
 import {WebMidi} from "./WebMidi";
 import {Utilities} from "./Utilities.js";
-import {WebMidiApi, Event, PortEventMap } from "./Interfaces";
+import {DeviceIdentity, Timecode, WebMidiApi, Event, OutputEventMap } from "./Interfaces";
+import { Input } from "./Input";
 import { Listener } from "./Listener";
 import { Note } from "./Note";
+import { Scheduler } from "./Scheduler";
 
 /**
  * The `Output` class represents a single MIDI output port (not to be confused with a MIDI channel).
@@ -25,6 +27,7 @@ import { Note } from "./Note";
  * @fires Output#opened
  * @fires Output#disconnected
  * @fires Output#closed
+ * @fires Output#error
  *
  * @extends EventEmitter
  * @license Apache-2.0
@@ -36,7 +39,7 @@ export class Output extends EventEmitter {
    * @type {MIDIOutput}
    * @private
    */
-  private _midiOutput: WebMidiApi.MIDIOutput;
+  protected _midiOutput: WebMidiApi.MIDIOutput;
 
   /**
    * @type {number}
@@ -65,10 +68,46 @@ export class Output extends EventEmitter {
     this.channels = [];
     for (let i = 1; i <= 16; i++) this.channels[i] = new OutputChannel(this, i);
 
+    this.scheduler = new Scheduler();
+    this.scheduler.addListener("error", this._onSchedulerError.bind(this), {duration: Infinity});
+
     this._midiOutput.onstatechange = this._onStateChange.bind(this);
 
   }
 
+  /**
+   * Executed when a scheduled message could not be sent.
+   * @private
+   */
+  private _onSchedulerError(e: any) {
+
+    /**
+     * Event emitted when a message held by the [`scheduler`](#scheduler) could not be sent when it
+     * was released (for example, because the port has been disconnected in the meantime).
+     *
+     * @event Output#error
+     *
+     * @type {object}
+     *
+     * @property {Error} error The error that occurred.
+     * @property {Output} port The `Output` that triggered the event.
+     * @property {Output} target The object that dispatched the event.
+     * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+     * milliseconds since the navigation start of the document).
+     * @property {string} type `error`
+     *
+     * @since 3.2.0
+     */
+    this.emit("error", {
+      error: e.error,
+      port: this,
+      target: this,
+      timestamp: e.timestamp,
+      type: "error"
+    });
+
+  }
+
   private _onStateChange(e: Event) {
 
     let event = {
@@ -156,6 +195,15 @@ export class Output extends EventEmitter {
    */
   channels: OutputChannel[];
 
+  /**
+   * The [`Scheduler`](Scheduler) through which all messages are sent. Messages scheduled beyond
+   * its [`lookahead`](Scheduler#lookahead) window are held in its queue instead of being passed to
+   * the MIDI subsystem right away.
+   *
+   * @type {Scheduler}
+   */
+  scheduler: Scheduler;
+
   /**
    * Adds an event listener that will trigger a function callback when the specified event is
    * dispatched.
@@ -187,9 +235,9 @@ export class Output extends EventEmitter {
    *
    * @returns {Listener} The listener object that was created
    */
-  addListener<T extends keyof PortEventMap>(
+  addListener<T extends keyof OutputEventMap>(
     e: Symbol | T,
-    listener: PortEventMap[T],
+    listener: OutputEventMap[T],
     options?: {
       "arguments"?: any[];
       "context"?: any;
@@ -229,9 +277,9 @@ export class Output extends EventEmitter {
    *
    * @returns {Listener} The listener object that was created
    */
-  addOneTimeListener<T extends keyof PortEventMap>(
+  addOneTimeListener<T extends keyof OutputEventMap>(
     e: Symbol | T,
-    listener: PortEventMap[T],
+    listener: OutputEventMap[T],
     options?: {
       "arguments"?: any[];
       "context"?: any;
@@ -245,8 +293,9 @@ export class Output extends EventEmitter {
   /**
    * Clears all messages that have been queued but not yet delivered.
    *
-   * **Warning**: this method has been defined in the specification but has not been implemented
-   * yet. As soon as browsers implement it, it will work.
+   * Messages waiting in the output's [`scheduler`](#scheduler) are always cleared. Messages that
+   * have already been passed to the MIDI subsystem (the ones within the scheduler's lookahead
+   * window) are only cleared in environments that implement `MIDIOutput.clear()`.
    *
    * You can check out the current status of this feature for Chromium (Chrome) here:
    * https://bugs.chromium.org/p/chromium/issues/detail?id=471798
@@ -255,19 +304,9 @@ export class Output extends EventEmitter {
    */
   clear(): Output {
 
-    if (this._midiOutput.clear) {
-
-      this._midiOutput.clear();
-
-    } else {
-
-      if (WebMidi.validation) {
-        console.warn(
-          "The 'clear()' method has not yet been implemented in your environment."
-        );
-      }
+    this.scheduler.clear();
 
-    }
+    if (this._midiOutput.clear) this._midiOutput.clear();
 
     return this;
   }
@@ -277,9 +316,20 @@ export class Output extends EventEmitter {
    * until the output is opened again by calling [`open()`]{@link #open}. You can check
    * the connection status by looking at the [`connection`]{@link #connection} property.
    *
+   * Before the port is closed, the notes that would otherwise be left hanging on the device are
+   * silenced (see [`panic()`](#panic)).
+   *
    * @returns {Promise<void>}
    */
-  /* async */ close(): Promise<void> {
+  async close(): Promise<void> {
+    // Pending messages must not reopen the port
+    this.scheduler.clear();
+
+    // Silence the device while the port is still open
+    if (this._midiOutput && this.connection === "open" && this.state === "connected") {
+      this.panic();
+    }
+
     // We close the port. This triggers a 'statechange' event which we listen to to re-trigger the
     // 'closed' event.
     if (this._midiOutput) {
@@ -294,12 +344,12 @@ export class Output extends EventEmitter {
    * subsystem is unlinked.
    * @returns {Promise<void>}
    */
-  /* async */ destroy(): Promise<void> {
+  async destroy(): Promise<void> {
     this.removeListener();
-    this.channels.forEach(ch => ch.destroy());
-    this.channels = [];
     if (this._midiOutput) this._midiOutput.onstatechange = null;
     await this.close();
+    this.channels.forEach(ch => ch.destroy());
+    this.channels = [];
     this._midiOutput = null;
   }
 
@@ -316,9 +366,9 @@ export class Output extends EventEmitter {
    * @returns {boolean} Boolean value indicating whether or not the `Input` or `InputChannel`
    * already has this listener defined.
    */
-  hasListener<T extends keyof PortEventMap>(
+  hasListener<T extends keyof OutputEventMap>(
     e: Symbol | T,
-    listener: PortEventMap[T]
+    listener: OutputEventMap[T]
   ): boolean;
 
   /**
@@ -327,7 +377,7 @@ export class Output extends EventEmitter {
    *
    * @returns {Promise<Output>} The promise is fulfilled with the `Output` object.
    */
-  /* async */ open(): Promise<Output> {
+  async open(): Promise<Output> {
 
     // Explicitly opens the port for usage. This is not mandatory. When the port is not explicitly
     // opened, it is implicitly opened (asynchronously) when calling `send()` on the `MIDIOutput`.
@@ -341,6 +391,28 @@ export class Output extends EventEmitter {
     }
   }
 
+  /**
+   * Silences the device connected to this output. The messages waiting in the
+   * [`scheduler`](#scheduler) are cleared (so they cannot start new notes) and
+   * [`OutputChannel.panic()`](OutputChannel#panic) is called on each channel that has been used:
+   * the hanging notes are explicitly stopped and **all sound off**, **all notes off** and **reset
+   * all controllers** messages are sent.
+   *
+   * This is done automatically when the output is closed, when WebMidi.js is disabled and when the
+   * page is closed.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  panic(): Output {
+    this.clear();
+    this.channels.forEach(channel => {
+      if (channel.used) channel.panic();
+    });
+    return this;
+  }
+
   /**
    * Plays a note or an array of notes on one or more channels of this output. If you intend to play
    * notes on a single channel, you should probably use
@@ -469,15 +541,81 @@ export class Output extends EventEmitter {
    * @param {number} [options.remaining] Only remove the listener if it has exactly that many
    * remaining times to be executed.
    */
-  removeListener<T extends keyof PortEventMap>(
+  removeListener<T extends keyof OutputEventMap>(
     type?: Symbol | T,
-    listener?: PortEventMap[T],
+    listener?: OutputEventMap[T],
     options?: {
       "context"?: any;
       "remaining"?: number;
     }
   ): void;
 
+  /**
+   * Sends a Universal Non-Real-Time **Identity Request** on this output and waits for the matching
+   * **Identity Reply** on the specified [`Input`](Input). This is typically used to detect which
+   * device is connected before sending model-specific system exclusive messages.
+   *
+   * ```js
+   * const identity = await WebMidi.outputs[0].requestIdentity(WebMidi.inputs[0]);
+   * console.log(identity.manufacturerId, identity.family, identity.model);
+   * ```
+   *
+   * @param {Input} input The [`Input`](Input) on which the reply is expected.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID (sysex channel) of the targeted device.
+   * The default value (`0x7F`) targets all devices. When another value is used, only replies from
+   * that device are considered.
+   *
+   * @param {number} [options.timeout=1000] The time (in milliseconds) to wait for the reply.
+   *
+   * @throws {TypeError} The input must be of type 'Input'.
+   *
+   * @returns {Promise<DeviceIdentity>} A promise that is fulfilled with the identity of the device
+   * or rejected if no reply was received in time (or if the request could not be sent).
+   *
+   * @since 3.2.0
+   */
+  requestIdentity(input: Input, options: {
+    deviceId?: number;
+    timeout?: number;
+  } = {}): Promise<DeviceIdentity> {
+
+    if (WebMidi.validation && !(input instanceof Input)) {
+      throw new TypeError("The input must be of type 'Input'.");
+    }
+
+    const deviceId = options.deviceId === undefined ? 0x7F : options.deviceId;
+
+    return new Promise((resolve, reject) => {
+
+      let timer;
+
+      const listener = <Listener>input.addListener("identityreply", e => {
+        if (deviceId !== 0x7F && e.identity.deviceId !== deviceId) return;
+        clearTimeout(timer);
+        listener.remove();
+        resolve(e.identity);
+      }, {duration: Infinity});
+
+      timer = setTimeout(() => {
+        listener.remove();
+        reject(new Error("No identity reply was received in time."));
+      }, options.timeout || 1000);
+
+      try {
+        this.sendIdentityRequest({deviceId});
+      } catch (err) {
+        clearTimeout(timer);
+        listener.remove();
+        reject(err);
+      }
+
+    });
+
+  }
+
   /**
    * Sends a MIDI message on the MIDI output port. If no time is specified, the message will be
    * sent immediately. The message should be an array of 8 bit unsigned integers (0-225), a
@@ -552,8 +690,22 @@ export class Output extends EventEmitter {
 
     }
 
-    // Send message and return `Output` for chaining
-    this._midiOutput.send(message, Utilities.toTimestamp(options.time));
+    // Channel whose state mirror must be kept up to date once the message is sent
+    const channel = message[0] >= 0x80 && message[0] <= 0xEF ?
+      this.channels[(message[0] & 0x0F) + 1] :
+      null;
+
+    // Send message (through the scheduler) and return `Output` for chaining
+    this.scheduler.schedule(
+      timestamp => {
+        this._midiOutput.send(message, timestamp);
+        if (channel) {
+          channel._updateState(message);
+          channel._onMessageSent(message);
+        }
+      },
+      Utilities.toTimestamp(options.time)
+    );
     return this;
 
   }
@@ -689,6 +841,545 @@ export class Output extends EventEmitter {
 
   };
 
+  /**
+   * Sends one or more complete system exclusive messages (such as a firmware or patch-bank dump)
+   * in paced packets. This is useful with older hardware whose receive buffer would overflow if the
+   * whole payload was sent at once.
+   *
+   * The data is first split at each `0xF7` (end of exclusive) byte so each message is sent
+   * separately. If `packetSize` is specified, messages longer than that are further split into
+   * packets of that many bytes. A delay is observed between packets.
+   *
+   * ```js
+   * const controller = new AbortController();
+   * await WebMidi.outputs[0].sendSysexDump(bytes, {
+   *   delay: 50,
+   *   progress: e => console.log(`${e.sent} / ${e.total}`),
+   *   signal: controller.signal
+   * });
+   * ```
+   *
+   * **Note**: browsers only accept complete system exclusive messages. In that environment, you
+   * should not use the `packetSize` option.
+   *
+   * @param {number[]|Uint8Array} data The bytes of one or more complete system exclusive messages
+   * (each starting with `0xF0` and ending with `0xF7`).
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.delay=20] The time (in milliseconds) to wait between two packets.
+   *
+   * @param {number} [options.packetSize=Infinity] The maximum number of bytes per packet.
+   *
+   * @param {function} [options.progress] A function called after each packet has been sent. It
+   * receives an object with the following properties: `packet` (number of packets sent), `packets`
+   * (total number of packets), `sent` (number of bytes sent) and `total` (total number of bytes).
+   *
+   * @param {AbortSignal} [options.signal] A signal that can be used to cancel the transmission.
+   *
+   * @throws {TypeError} The data must be one or more complete system exclusive messages.
+   * @throws {RangeError} The packet size must be a positive integer.
+   *
+   * @returns {Promise<void>} A promise that is fulfilled once all packets have been sent or
+   * rejected if the transmission has been cancelled.
+   *
+   * @since 3.2.0
+   */
+  async sendSysexDump(data: number[] | Uint8Array, options: {
+    delay?: number;
+    packetSize?: number;
+    progress?: (e: { packet: number, packets: number, sent: number, total: number }) => void;
+    signal?: AbortSignal;
+  } = {}): Promise<void> {
+
+    const bytes = Array.from(data);
+    const delay = options.delay >= 0 ? options.delay : 20;
+    const packetSize = options.packetSize === undefined ? Infinity : options.packetSize;
+
+    // Split the data in individual messages
+    const messages: number[][] = [];
+    let start = 0;
+    bytes.forEach((byte, index) => {
+      if (byte !== Enumerations.SYSTEM_MESSAGES.sysexend) return;
+      messages.push(bytes.slice(start, index + 1));
+      start = index + 1;
+    });
+
+    if (WebMidi.validation) {
+
+      if (
+        messages.length < 1 ||
+        start !== bytes.length ||
+        messages.some(m => m[0] !== Enumerations.SYSTEM_MESSAGES.sysex)
+      ) {
+        throw new TypeError("The data must be one or more complete system exclusive messages.");
+      }
+
+      if (packetSize !== Infinity && !(Number.isInteger(packetSize) && packetSize > 0)) {
+        throw new RangeError("The packet size must be a positive integer.");
+      }
+
+    }
+
+    // Split the messages in packets
+    const packets: number[][] = [];
+    messages.forEach(message => {
+      for (let i = 0; i < message.length; i += packetSize) {
+        packets.push(message.slice(i, i + packetSize));
+      }
+    });
+
+    let sent = 0;
+
+    for (let i = 0; i < packets.length; i++) {
+
+      if (i > 0 && delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+
+      if (options.signal && options.signal.aborted) {
+        throw new Error("The system exclusive transmission has been cancelled.");
+      }
+
+      // Packets are sent directly because continuation packets do not start with a status byte
+      const packet = Utilities.isNode ? packets[i] : Uint8Array.from(packets[i]);
+      this._midiOutput.send(packet);
+      sent += packets[i].length;
+
+      if (options.progress) {
+        options.progress({packet: i + 1, packets: packets.length, sent, total: bytes.length});
+      }
+
+    }
+
+  }
+
+  /**
+   * Sends a Universal Non-Real-Time **Identity Request** (`F0 7E <device ID> 06 01 F7`). Devices
+   * answer with an **Identity Reply** which triggers the
+   * [`identityreply`](Input#event:identityreply) event of the [`Input`](Input) they are connected
+   * to. To send the request and wait for the reply, use [`requestIdentity()`](#requestIdentity).
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID (sysex channel) of the targeted device.
+   * The default value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @throws {RangeError} The device ID must be an integer between 0 and 127.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendIdentityRequest(options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+
+    const deviceId = options.deviceId === undefined ? 0x7F : options.deviceId;
+
+    if (WebMidi.validation && !(Number.isInteger(deviceId) && deviceId >= 0 && deviceId <= 127)) {
+      throw new RangeError("The device ID must be an integer between 0 and 127.");
+    }
+
+    this.sendSysex(0x7E, [deviceId, 0x06, 0x01], {time: options.time});
+    return this;
+
+  }
+
+  /**
+   * Sends a MIDI Machine Control (MMC) command (`F0 7F <device ID> 06 <command> <data> F7`). MMC
+   * is used to control the transport of recorders, DAWs, etc. For the most common commands, you
+   * can also use the dedicated methods ([`sendMmcPlay()`](#sendMmcPlay),
+   * [`sendMmcLocate()`](#sendMmcLocate), etc.).
+   *
+   * @param {number|string} command The command's name (as found in
+   * [`Enumerations.MMC_COMMANDS`](Enumerations#MMC_COMMANDS)) or number (between 1 and 127).
+   *
+   * @param {number[]} [data=[]] The data bytes following the command (for commands that take
+   * parameters, this includes the byte count).
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @throws {TypeError} The command must be a valid MMC command name or number.
+   * @throws {RangeError} The device ID must be an integer between 0 and 127.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmc(command: number | string, data: number[] = [], options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+
+    const number = typeof command === "string" ? Enumerations.MMC_COMMANDS[command] : command;
+    const deviceId = options.deviceId === undefined ? 0x7F : options.deviceId;
+
+    if (WebMidi.validation) {
+
+      if (!(Number.isInteger(number) && number >= 1 && number <= 127)) {
+        throw new TypeError("The command must be a valid MMC command name or number.");
+      }
+
+      if (!(Number.isInteger(deviceId) && deviceId >= 0 && deviceId <= 127)) {
+        throw new RangeError("The device ID must be an integer between 0 and 127.");
+      }
+
+    }
+
+    this.sendSysex(0x7F, [deviceId, 0x06, number, ...data], {time: options.time});
+    return this;
+
+  }
+
+  /**
+   * Sends a MIDI Machine Control (MMC) **deferred play** command. Unlike **play**, the device
+   * waits for any pending locate operation to complete before starting playback.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmcDeferredPlay(options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+    return this.sendMmc("deferredplay", [], options);
+  }
+
+  /**
+   * Sends a MIDI Machine Control (MMC) **locate** command so the device moves its transport to the
+   * specified position.
+   *
+   * @param {Timecode} timecode The target position. Its `frameRate` property must be `24`, `25`,
+   * `29.97` or `30`.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @throws {RangeError} The frame rate must be 24, 25, 29.97 or 30.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmcLocate(timecode: Timecode, options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+
+    const rate = [24, 25, 29.97, 30].indexOf(timecode.frameRate);
+
+    if (WebMidi.validation && rate < 0) {
+      throw new RangeError("The frame rate must be 24, 25, 29.97 or 30.");
+    }
+
+    // 06 <byte count>, 01 <TARGET sub-command>, hr mn sc fr ff (sub-frames are not used)
+    const data = [
+      0x06,
+      0x01,
+      (rate << 5) + timecode.hours,
+      timecode.minutes,
+      timecode.seconds,
+      timecode.frames,
+      0x00
+    ];
+
+    return this.sendMmc("locate", data, options);
+
+  }
+
+  /**
+   * Sends a MIDI Machine Control (MMC) **pause** command.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmcPause(options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+    return this.sendMmc("pause", [], options);
+  }
+
+  /**
+   * Sends a MIDI Machine Control (MMC) **play** command.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmcPlay(options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+    return this.sendMmc("play", [], options);
+  }
+
+  /**
+   * Sends a MIDI Machine Control (MMC) **record exit** command so the device stops recording
+   * (punch out) while the transport keeps running.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmcRecordExit(options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+    return this.sendMmc("recordexit", [], options);
+  }
+
+  /**
+   * Sends a MIDI Machine Control (MMC) **record strobe** command. If the transport is playing, the
+   * device starts recording on its armed tracks (punch in). If it is stopped, it starts playing
+   * and recording.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmcRecordStrobe(options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+    return this.sendMmc("recordstrobe", [], options);
+  }
+
+  /**
+   * Sends a MIDI Machine Control (MMC) **stop** command.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmcStop(options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+    return this.sendMmc("stop", [], options);
+  }
+
+  /**
+   * Arms the specified tracks for recording by sending a MIDI Machine Control (MMC) **write**
+   * command to the **record ready** field. Since the whole field is written, all other tracks are
+   * disarmed. Passing an empty array disarms all tracks.
+   *
+   * @param {number|number[]} tracks A track number or an array of track numbers (starting at 1).
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID of the targeted device. The default
+   * value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @throws {RangeError} Track numbers must be positive integers.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendMmcTrackArm(tracks: number | number[], options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+
+    if (!Array.isArray(tracks)) tracks = [tracks];
+
+    if (WebMidi.validation) {
+      tracks.forEach(track => {
+        if (!(Number.isInteger(track) && track >= 1)) {
+          throw new RangeError("Track numbers must be positive integers.");
+        }
+      });
+    }
+
+    // In the standard track bitmap, bits 0 to 4 of the first byte are reserved for video, time
+    // code, etc. Track 1 is bit 5 and each byte then holds 7 tracks.
+    const bitmap = [0];
+
+    tracks.forEach(track => {
+      const index = Math.floor((track + 4) / 7);
+      while (bitmap.length <= index) bitmap.push(0);
+      bitmap[index] |= 1 << ((track + 4) % 7);
+    });
+
+    // <byte count> 4F <record ready field> <byte count> <bitmap>
+    return this.sendMmc("write", [bitmap.length + 2, 0x4F, bitmap.length, ...bitmap], options);
+
+  }
+
+  /**
+   * Sends a MIDI Time Code **full frame** message (`F0 7F <device ID> 01 01 hh mm ss ff F7`). This
+   * message is used to tell receivers about a new position when the transport is relocated. To
+   * send a running quarter frame stream, use a [`TimecodeGenerator`](TimecodeGenerator).
+   *
+   * @param {Timecode} timecode The position. Its `frameRate` property must be `24`, `25`, `29.97`
+   * or `30`.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number} [options.deviceId=0x7F] The device ID (sysex channel) of the targeted device.
+   * The default value (`0x7F`) targets all devices.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @throws {RangeError} The frame rate must be 24, 25, 29.97 or 30.
+   *
+   * @returns {Output} Returns the `Output` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendTimecodeFullFrame(timecode: Timecode, options: {
+    deviceId?: number;
+    time?: number | string;
+  } = {}): Output {
+
+    const rate = [24, 25, 29.97, 30].indexOf(timecode.frameRate);
+
+    if (WebMidi.validation && rate < 0) {
+      throw new RangeError("The frame rate must be 24, 25, 29.97 or 30.");
+    }
+
+    this.sendSysex(
+      0x7F,
+      [
+        options.deviceId === undefined ? 0x7F : options.deviceId,
+        0x01,
+        0x01,
+        (rate << 5) + timecode.hours,
+        timecode.minutes,
+        timecode.seconds,
+        timecode.frames
+      ],
+      {time: options.time}
+    );
+
+    return this;
+
+  }
+
   /**
    * Sends a MIDI **timecode quarter frame** message. Please note that no processing is being done
    * on the data. It is up to the developer to format the data according to the
@@ -762,11 +1453,12 @@ export class Output extends EventEmitter {
     var msb = (value >> 7) & 0x7F;
     var lsb = value & 0x7F;
 
+    // The least significant byte comes first
     this.send(
       [
         Enumerations.SYSTEM_MESSAGES.songposition,
-        msb,
-        lsb
+        lsb,
+        msb
       ],
       {time: options.time}
     );
@@ -1282,6 +1974,7 @@ export class Output extends EventEmitter {
    * | (0x00, 0x03) | `tuningprogram`          |
    * | (0x00, 0x04) | `tuningbank`             |
    * | (0x00, 0x05) | `modulationrange`        |
+   * | (0x00, 0x06) | `mpeconfiguration`       |
    * | (0x3D, 0x00) | `azimuthangle`           |
    * | (0x3D, 0x01) | `elevationangle`         |
    * | (0x3D, 0x02) | `gain`                   |
@@ -2130,6 +2823,7 @@ export class Output extends EventEmitter {
    *  * Tuning Program (0x00, 0x03): `"tuningprogram"`
    *  * Tuning Bank (0x00, 0x04): `"tuningbank"`
    *  * Modulation Range (0x00, 0x05): `"modulationrange"`
+   *  * MPE Configuration (0x00, 0x06): `"mpeconfiguration"`
    *  * Azimuth Angle (0x3D, 0x00): `"azimuthangle"`
    *  * Elevation Angle (0x3D, 0x01): `"elevationangle"`
    *  * Gain (0x3D, 0x02): `"gain"`
@@ -2185,6 +2879,7 @@ export class Output extends EventEmitter {
    *  * Tuning Program (0x00, 0x03): `"tuningprogram"`
    *  * Tuning Bank (0x00, 0x04): `"tuningbank"`
    *  * Modulation Range (0x00, 0x05): `"modulationrange"`
+   *  * MPE Configuration (0x00, 0x06): `"mpeconfiguration"`
    *  * Azimuth Angle (0x3D, 0x00): `"azimuthangle"`
    *  * Elevation Angle (0x3D, 0x01): `"elevationangle"`
    *  * Gain (0x3D, 0x02): `"gain"`
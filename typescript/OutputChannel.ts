@@ -2,6 +2,7 @@ import {EventEmitter} from "./EventEmitter";
 import {WebMidi} from "./WebMidi";
 import {Utilities} from "./Utilities";
 import {Enumerations} from "./Enumerations";
+import {OutputChannelState} from "./Interfaces";
 
 /**
  * The `OutputChannel` class represents a single output MIDI channel. `OutputChannel` objects are
@@ -49,12 +50,44 @@ export class OutputChannel extends EventEmitter {
      */
     this._octaveOffset = 0;
 
+    /**
+     * The notes that have been sent (as opposed to scheduled) without a matching note off.
+     * @type {boolean[]}
+     * @private
+     */
+    this._hangingNotes = new Array(128).fill(false);
+
+    /**
+     * Whether a message has already been sent on this channel.
+     * @type {boolean}
+     * @private
+     */
+    this._used = false;
+
+    /**
+     * The type of the parameter currently selected for data entry (`"rpn"` or `"nrpn"`), if any.
+     * @type {string}
+     * @private
+     */
+    this._parameterType = null;
+
+    /**
+     * The state mirror of the channel, updated with each message sent to it.
+     * @type {OutputChannelState}
+     * @private
+     */
+    this.resetState();
+
   }
 
 
+  private _hangingNotes;
   private _output;
   private _number;
   private _octaveOffset;
+  private _parameterType;
+  private _state: OutputChannelState;
+  private _used;
   /**
    * Unlinks the MIDI subsystem, removes all listeners attached to the channel and nulls the channel
    * number. This method is mostly for internal use. It has not been prefixed with an underscore
@@ -66,9 +99,140 @@ export class OutputChannel extends EventEmitter {
     this._output = null;
     this._number = null;
     this._octaveOffset = 0;
+    this.resetState();
     this.removeListener();
   }
 
+  /**
+   * Updates the state mirror after a control change message has been sent.
+   *
+   * @private
+   */
+  private _updateControllerState(controller: number, value: number) {
+
+    const controllers = this._state.controllers;
+    controllers[controller] = value;
+
+    if (controller === 98 || controller === 99) {
+
+      this._parameterType = "nrpn";
+
+    } else if (controller === 100 || controller === 101) {
+
+      // Selecting the null RPN (127, 127) deselects the parameter
+      const deselected = controllers[101] === 127 && controllers[100] === 127;
+      this._parameterType = deselected ? null : "rpn";
+
+    } else if ([6, 38, 96, 97].includes(controller)) {
+
+      if (!this._parameterType) return;
+
+      const values = this._state[this._parameterType + "s"];
+      const parameter = this._parameterType === "rpn" ?
+        (controllers[101] << 7) + controllers[100] :
+        (controllers[99] << 7) + controllers[98];
+      let current = values[parameter] || 0;
+
+      if (controller === 6) {
+        current = value << 7;                           // coarse (resets the fine part)
+      } else if (controller === 38) {
+        current = (current & 0x3F80) + value;           // fine
+      } else if (controller === 96) {
+        current = Math.min(current + 1, 16383);         // increment
+      } else {
+        current = Math.max(current - 1, 0);             // decrement
+      }
+
+      values[parameter] = current;
+
+    } else if (controller === 120 || controller >= 123) {
+
+      this._state.notes.fill(null);
+
+    } else if (controller === 121) {
+
+      // Controllers reset by the receiver as per the MIDI Association's RP-015
+      this._state.pitchBend = 8192;
+      this._state.channelAftertouch = 0;
+      this._state.keyAftertouch.fill(0);
+      [1, 64, 65, 66, 67].forEach(number => controllers[number] = 0);
+      controllers[11] = 127;
+      [98, 99, 100, 101].forEach(number => controllers[number] = 127);
+      this._parameterType = null;
+
+    }
+
+  }
+
+  /**
+   * Keeps track of the notes left without a matching note off. This method is called by the parent
+   * [`Output`](Output) when a channel message is actually sent to the MIDI subsystem (scheduled
+   * messages that are cleared before being sent are not taken into account).
+   *
+   * @param data {number[]|Uint8Array} The message bytes.
+   *
+   * @private
+   */
+  _onMessageSent(data: number[] | Uint8Array): void {
+
+    const type = data[0] >> 4;
+    this._used = true;
+
+    if (
+      type === Enumerations.CHANNEL_MESSAGES.noteoff ||
+      (type === Enumerations.CHANNEL_MESSAGES.noteon && data[2] === 0)
+    ) {
+      this._hangingNotes[data[1]] = false;
+    } else if (type === Enumerations.CHANNEL_MESSAGES.noteon) {
+      this._hangingNotes[data[1]] = true;
+    } else if (
+      type === Enumerations.CHANNEL_MESSAGES.controlchange &&
+      (data[1] === 120 || data[1] >= 123)
+    ) {
+      this._hangingNotes.fill(false);
+    }
+
+  }
+
+  /**
+   * Updates the state mirror of the channel with a message sent to it. This method is called by the
+   * parent [`Output`](Output) when a channel message is actually sent to the MIDI subsystem.
+   *
+   * @param data {number[]|Uint8Array} The message bytes.
+   *
+   * @private
+   */
+  _updateState(data: number[] | Uint8Array): void {
+
+    const type = data[0] >> 4;
+    const data1 = data[1];
+    const data2 = data[2];
+
+    if (
+      type === Enumerations.CHANNEL_MESSAGES.noteoff ||
+      (type === Enumerations.CHANNEL_MESSAGES.noteon && data2 === 0)
+    ) {
+      this._state.notes[data1] = null;
+    } else if (type === Enumerations.CHANNEL_MESSAGES.noteon) {
+      this._state.notes[data1] = data2;
+    } else if (type === Enumerations.CHANNEL_MESSAGES.keyaftertouch) {
+      this._state.keyAftertouch[data1] = data2;
+    } else if (type === Enumerations.CHANNEL_MESSAGES.controlchange) {
+      this._updateControllerState(data1, data2);
+    } else if (type === Enumerations.CHANNEL_MESSAGES.programchange) {
+      this._state.program = {
+        number: data1,
+        bankMsb: this._state.controllers[0],
+        bankLsb: this._state.controllers[32]
+      };
+    } else if (type === Enumerations.CHANNEL_MESSAGES.channelaftertouch) {
+      this._state.channelAftertouch = data1;
+    } else if (type === Enumerations.CHANNEL_MESSAGES.pitchbend) {
+      this._state.pitchBend = (data2 << 7) + data1;
+    }
+
+  }
+
   /**
    * Sends a MIDI message on the MIDI output port. If no time is specified, the message will be
    * sent immediately. The message should be an array of 8-bit unsigned integers (`0` - `225`),
@@ -363,6 +527,101 @@ export class OutputChannel extends EventEmitter {
     return this;
 
   }
+
+  /**
+   * Sends a 14-bit **control change** message, made of an MSB message for one of the controllers
+   * `0` to `31` followed by an LSB message for the matching controller (`32` to `63`). For example,
+   * `volumecoarse` (`7`) is paired with `volumefine` (`39`).
+   *
+   * By default, the value is a float between `0` and `1`. If `options.rawValue` is `true`, it must
+   * be an integer between `0` and `16383`.
+   *
+   * Since receivers reset the LSB when they receive a new MSB, the MSB must always be sent before
+   * the LSB. If `options.suppressRedundantMsb` is `true` and the MSB is the same as the last one
+   * sent for this controller, only the LSB is sent. This halves the traffic when a value changes
+   * slowly.
+   *
+   * @param {number|string} controller The MIDI controller name or number (`0` - `31`). See
+   * [`sendControlChange()`](#sendControlChange) for the list of names.
+   *
+   * @param {number} value The value to send: a float between `0` and `1` or, if
+   * `options.rawValue` is `true`, an integer between `0` and `16383`.
+   *
+   * @param {object} [options={}]
+   *
+   * @param {boolean} [options.rawValue=false] A boolean indicating whether the value is a 14-bit
+   * integer (`0` - `16383`) instead of a float.
+   *
+   * @param {boolean} [options.suppressRedundantMsb=false] Whether to only send the LSB when the MSB
+   * has not changed since the last time it was sent for this controller.
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the message will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @throws {TypeError} The controller must be identified with a valid name or an integer between
+   * 0 and 31.
+   * @throws {RangeError} The value must be a float between 0 and 1.
+   * @throws {RangeError} The raw value must be an integer between 0 and 16383.
+   *
+   * @returns {OutputChannel} Returns the `OutputChannel` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  sendControlChange14(controller: number | string, value: number, options: {
+    rawValue?: boolean;
+    suppressRedundantMsb?: boolean;
+    time?: number | string;
+  } = {}): OutputChannel {
+
+    if (typeof controller === "string") {
+      controller = Utilities.getCcNumberByName(controller);
+    }
+
+    if (WebMidi.validation) {
+
+      if (!Number.isInteger(controller) || !(controller >= 0 && controller <= 31)) {
+        throw new TypeError(
+          "The controller must be identified with a valid name or an integer between 0 and 31."
+        );
+      }
+
+      if (options.rawValue && !(Number.isInteger(value) && value >= 0 && value <= 16383)) {
+        throw new RangeError("The raw value must be an integer between 0 and 16383.");
+      }
+
+      if (!options.rawValue && !(value >= 0 && value <= 1)) {
+        throw new RangeError("The value must be a float between 0 and 1.");
+      }
+
+    }
+
+    let msb: number;
+    let lsb: number;
+
+    if (options.rawValue) {
+      msb = value >> 7;
+      lsb = value & 0x7F;
+    } else {
+      const result = Utilities.fromFloatToMsbLsb(value);
+      msb = result.msb;
+      lsb = result.lsb;
+    }
+
+    if (options.suppressRedundantMsb && this._state.controllers[controller] === msb) {
+      this.sendControlChange(controller + 32, lsb, options);
+    } else {
+      this.sendControlChange(controller, [msb, lsb], options);
+    }
+
+    return this;
+
+  }
+
   /**
    * Selects a MIDI non-registered parameter so it is affected by upcoming data entry, data
    * increment and data decrement messages.
@@ -490,7 +749,7 @@ export class OutputChannel extends EventEmitter {
    *
    * @returns {OutputChannel} Returns the `OutputChannel` object so methods can be chained.
    */
-  private _setCurrentParameter(data: number | number[]) {
+  private _setCurrentParameter(data: number | number[], options = {}) {
 
     data = [].concat(data);
 
@@ -527,6 +786,7 @@ export class OutputChannel extends EventEmitter {
    *  * Tuning Program (0x00, 0x03): `"tuningprogram"`
    *  * Tuning Bank (0x00, 0x04): `"tuningbank"`
    *  * Modulation Range (0x00, 0x05): `"modulationrange"`
+   *  * MPE Configuration (0x00, 0x06): `"mpeconfiguration"`
    *  * Azimuth Angle (0x3D, 0x00): `"azimuthangle"`
    *  * Elevation Angle (0x3D, 0x01): `"elevationangle"`
    *  * Gain (0x3D, 0x02): `"gain"`
@@ -600,6 +860,7 @@ export class OutputChannel extends EventEmitter {
    *  * Tuning Program (0x00, 0x03): `"tuningprogram"`
    *  * Tuning Bank (0x00, 0x04): `"tuningbank"`
    *  * Modulation Range (0x00, 0x05): `"modulationrange"`
+   *  * MPE Configuration (0x00, 0x06): `"mpeconfiguration"`
    *  * Azimuth Angle (0x3D, 0x00): `"azimuthangle"`
    *  * Elevation Angle (0x3D, 0x01): `"elevationangle"`
    *  * Gain (0x3D, 0x02): `"gain"`
@@ -1585,6 +1846,7 @@ export class OutputChannel extends EventEmitter {
    * | (0x00, 0x03) | `tuningprogram`          |
    * | (0x00, 0x04) | `tuningbank`             |
    * | (0x00, 0x05) | `modulationrange`        |
+   * | (0x00, 0x06) | `mpeconfiguration`       |
    * | (0x3D, 0x00) | `azimuthangle`           |
    * | (0x3D, 0x01) | `elevationangle`         |
    * | (0x3D, 0x02) | `gain`                   |
@@ -1853,6 +2115,220 @@ export class OutputChannel extends EventEmitter {
     }
   }
 
+  /**
+   * Silences the channel: a **note off** message is sent for each of the
+   * [`hangingNotes`](#hangingNotes), followed by **all sound off**, **all notes off** and **reset
+   * all controllers** messages. The messages are sent immediately.
+   *
+   * To silence all the channels of an output (and clear its pending messages), use
+   * [`Output.panic()`](Output#panic).
+   *
+   * @returns {OutputChannel} Returns the `OutputChannel` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  panic(): OutputChannel {
+
+    // Hanging note numbers already include the octave offsets, so they are sent as is
+    const status = (Enumerations.CHANNEL_MESSAGES.noteoff << 4) + (this.number - 1);
+    this.hangingNotes.forEach(number => this.send([status, number, 0], {}));
+
+    this.sendAllSoundOff({});
+    this.sendAllNotesOff({});
+    this.sendResetAllControllers({});
+    return this;
+
+  }
+
+  /**
+   * Forgets everything that has been sent to the channel: all values of the state mirror are set
+   * back to `null` (unknown). This should be done when the device has lost its state (for example,
+   * after it has been reconnected) so that [`restore()`](#restore) sends all the values again.
+   *
+   * @returns {OutputChannel} Returns the `OutputChannel` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  resetState(): OutputChannel {
+
+    this._parameterType = null;
+
+    this._state = {
+      channelAftertouch: null,
+      controllers: new Array(128).fill(null),
+      keyAftertouch: new Array(128).fill(null),
+      notes: new Array(128).fill(null),
+      nrpns: {},
+      pitchBend: null,
+      program: null,
+      rpns: {}
+    };
+
+    return this;
+
+  }
+
+  /**
+   * Sends the messages needed to bring the channel to the state of a snapshot previously obtained
+   * with [`snapshot()`](#snapshot). Only the values that differ from what has already been sent
+   * are sent again: notes that are not part of the snapshot are stopped, then the program (with its
+   * bank), the controllers, the registered and non-registered parameters, the pitch bend, the
+   * channel pressure, the notes and the key pressures are sent. Values that are `null` in the
+   * snapshot are left untouched.
+   *
+   * To send all the values again (for example, after the device has been reconnected), call
+   * [`resetState()`](#resetState) first.
+   *
+   * @param snapshot {OutputChannelState} A snapshot returned by [`snapshot()`](#snapshot) (or
+   * deserialized from JSON).
+   *
+   * @param {object} [options={}]
+   *
+   * @param {number|string} [options.time=(now)] If `time` is a string prefixed with `"+"` and
+   * followed by a number, the messages will be delayed by that many milliseconds. If the value is a
+   * positive number
+   * ([`DOMHighResTimeStamp`]{@link https://developer.mozilla.org/docs/Web/API/DOMHighResTimeStamp}),
+   * the operation will be scheduled for that time. The current time can be retrieved with
+   * [`WebMidi.time`]{@link WebMidi#time}. If `options.time` is omitted, or in the past, the
+   * operation will be carried out as soon as possible.
+   *
+   * @throws {TypeError} The snapshot must be an object returned by snapshot().
+   *
+   * @returns {OutputChannel} Returns the `OutputChannel` object so methods can be chained.
+   *
+   * @since 3.2.0
+   */
+  restore(snapshot: OutputChannelState, options: { time?: number | string } = {}): OutputChannel {
+
+    if (
+      WebMidi.validation &&
+      !(snapshot && Array.isArray(snapshot.controllers) && Array.isArray(snapshot.notes))
+    ) {
+      throw new TypeError("The snapshot must be an object returned by snapshot().");
+    }
+
+    const state = this._state;
+    const time = options.time;
+
+    // The mirror holds the note numbers as they were sent (with the octave offsets already applied)
+    // so note messages are sent as is.
+    const channel = this.number - 1;
+    const noteoff = (Enumerations.CHANNEL_MESSAGES.noteoff << 4) + channel;
+    const noteon = (Enumerations.CHANNEL_MESSAGES.noteon << 4) + channel;
+    const keyaftertouch = (Enumerations.CHANNEL_MESSAGES.keyaftertouch << 4) + channel;
+
+    state.notes.forEach((attack, number) => {
+      if (attack !== null && snapshot.notes[number] === null) {
+        this.send([noteoff, number, 64], {time});
+      }
+    });
+
+    const program = snapshot.program;
+
+    if (program && !(
+      state.program &&
+      state.program.number === program.number &&
+      state.program.bankMsb === program.bankMsb &&
+      state.program.bankLsb === program.bankLsb
+    )) {
+      if (program.bankMsb !== null) this.sendControlChange(0, program.bankMsb, {time});
+      if (program.bankLsb !== null) this.sendControlChange(32, program.bankLsb, {time});
+      this.sendProgramChange(program.number, {time});
+    }
+
+    // Parameter selection and data entry are restored through the parameter values and channel
+    // mode messages are not part of the state.
+    snapshot.controllers.forEach((value, number) => {
+      if (value === null || value === state.controllers[number]) return;
+      if ([6, 38, 96, 97, 98, 99, 100, 101].includes(number) || number >= 120) return;
+      this.sendControlChange(number, value, {time});
+    });
+
+    Object.keys(snapshot.rpns).map(Number).forEach(parameter => {
+      const value = snapshot.rpns[parameter];
+      if (value === state.rpns[parameter]) return;
+      this.sendRpnValue([parameter >> 7, parameter & 0x7F], [value >> 7, value & 0x7F], {time});
+    });
+
+    Object.keys(snapshot.nrpns).map(Number).forEach(parameter => {
+      const value = snapshot.nrpns[parameter];
+      if (value === state.nrpns[parameter]) return;
+      this.sendNrpnValue([parameter >> 7, parameter & 0x7F], [value >> 7, value & 0x7F], {time});
+    });
+
+    if (snapshot.pitchBend !== null && snapshot.pitchBend !== state.pitchBend) {
+      const value = snapshot.pitchBend;
+      this.sendPitchBend([value >> 7, value & 0x7F], {rawValue: true, time});
+    }
+
+    const pressure = snapshot.channelAftertouch;
+
+    if (pressure !== null && pressure !== state.channelAftertouch) {
+      this.sendChannelAftertouch(pressure, {rawValue: true, time});
+    }
+
+    snapshot.notes.forEach((attack, number) => {
+      if (attack !== null && state.notes[number] === null) {
+        this.send([noteon, number, attack], {time});
+      }
+    });
+
+    snapshot.keyAftertouch.forEach((pressure, number) => {
+      if (pressure !== null && pressure !== state.keyAftertouch[number]) {
+        this.send([keyaftertouch, number, pressure], {time});
+      }
+    });
+
+    return this;
+
+  }
+
+  /**
+   * Returns a copy of the state of the channel, as reconstructed from the messages sent to it: the
+   * active notes, the value of every controller, the program (with its bank), the pitch bend, the
+   * channel and key pressures and the registered and non-registered parameter values (such as the
+   * pitch bend range set with [`sendPitchBendRange()`](#sendPitchBendRange)). The returned object
+   * can be serialized to JSON and passed to [`restore()`](#restore) later on.
+   *
+   * Messages sent to the channel through the parent [`Output`](Output) (including with
+   * [`Output.send()`](Output#send)) are taken into account. Scheduled messages are only taken into
+   * account once they have been passed to the MIDI subsystem (the ones that are cleared before
+   * being sent are ignored).
+   *
+   * @returns {OutputChannelState}
+   *
+   * @since 3.2.0
+   */
+  snapshot(): OutputChannelState {
+    return {
+      channelAftertouch: this._state.channelAftertouch,
+      controllers: this._state.controllers.slice(),
+      keyAftertouch: this._state.keyAftertouch.slice(),
+      notes: this._state.notes.slice(),
+      nrpns: Object.assign({}, this._state.nrpns),
+      pitchBend: this._state.pitchBend,
+      program: this._state.program ? Object.assign({}, this._state.program) : null,
+      rpns: Object.assign({}, this._state.rpns)
+    };
+  }
+
+  /**
+   * The numbers (`0` - `127`) of the notes for which a **note on** message has been sent without a
+   * matching **note off** message, in ascending order. A **note off** that is still waiting in the
+   * output's [`scheduler`](Output#scheduler) (for example, the end of a note played with
+   * [`playNote()`](#playNote) and a `duration`) does not count as sent.
+   *
+   * @readonly
+   * @type {number[]}
+   * @since 3.2.0
+   */
+  get hangingNotes(): number[] {
+    return this._hangingNotes.reduce((notes, hanging, number) => {
+      if (hanging) notes.push(number);
+      return notes;
+    }, []);
+  }
+
   /**
    * An integer to offset the reported octave of outgoing note-specific messages (`noteon`,
    * `noteoff` and `keyaftertouch`). By default, middle C (MIDI note number 60) is placed on the 4th
@@ -1897,4 +2373,15 @@ export class OutputChannel extends EventEmitter {
   get number(): number {
     return this._number;
   }
+
+  /**
+   * Whether a message has already been sent on this channel. Only the channels that have been used
+   * are silenced by [`Output.panic()`](Output#panic).
+   * @readonly
+   * @type {boolean}
+   * @since 3.2.0
+   */
+  get used(): boolean {
+    return this._used;
+  }
 }
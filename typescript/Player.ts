@@ -0,0 +1,616 @@
+import {EventEmitter} from "./EventEmitter";
+import {PlayerEvent, SequenceEvent} from "./Interfaces";
+import {MidiFile} from "./MidiFile";
+import {Output} from "./Output";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * The `Player` class plays a sequence of MIDI messages on an [`Output`](Output). The sequence can
+ * be a parsed [`MidiFile`](MidiFile) or an array of [`SequenceEvent`](SequenceEvent) objects
+ * (a [`Message`](Message) and its time in milliseconds).
+ *
+ * Messages are not sent all at once. Instead, the player regularly sends the messages falling
+ * within a short window (the [`lookahead`](#lookahead)) using the `time` option of
+ * [`Output.send()`](Output#send). This keeps the timing accurate while allowing the transport to
+ * react quickly to [`pause()`](#pause), [`seek()`](#seek), [`tempo`](#tempo) changes, etc.
+ *
+ * When the player stops, pauses or seeks, a **note off** message is sent for all the notes that are
+ * still sounding. When it stops or seeks, **all notes off** and **reset all controllers** messages
+ * are also sent on all the channels that were used.
+ *
+ * ```javascript
+ * const player = new Player(WebMidi.outputs[0], MidiFile.parse(bytes));
+ * player.setLoop(0, 8000).play();
+ * ```
+ *
+ * @fires Player#end
+ * @fires Player#loop
+ * @fires Player#pause
+ * @fires Player#play
+ * @fires Player#seek
+ * @fires Player#stop
+ *
+ * @extends EventEmitter
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class Player extends EventEmitter {
+
+  /**
+   * The time (in milliseconds) between two scheduling passes.
+   * @type {number}
+   */
+  interval: number;
+
+  /**
+   * How far ahead (in milliseconds) messages are sent to the output. This value should be greater
+   * than the [`interval`](#interval).
+   * @type {number}
+   */
+  lookahead: number;
+
+  /**
+   * The [`Output`](Output) the sequence is played on.
+   * @type {Output}
+   */
+  output: Output;
+
+  private _anchorPosition: number = 0;
+  private _anchorTime: number = 0;
+  private _channels: number[] = [];
+  private _cursor: number = 0;
+  private _duration: number = 0;
+  private _events: SequenceEvent[] = [];
+  private _loop: { start: number, end: number } = null;
+  private _muted: number[] = [];
+  private _notes: Map<string, { on: number, off: number }> = new Map();
+  private _position: number = 0;
+  private _scheduled: Set<number> = new Set();
+  private _soloed: number[] = [];
+  private _state: string = "stopped";
+  private _tempo: number = 1;
+  private _timer: any = null;
+
+  /**
+   * Creates a `Player` object.
+   *
+   * @param {Output} output The [`Output`](Output) to play the sequence on.
+   *
+   * @param {MidiFile|SequenceEvent[]} [sequence] A [`MidiFile`](MidiFile) or an array of
+   * [`SequenceEvent`](SequenceEvent) objects.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.interval=25] The time (in milliseconds) between two scheduling passes.
+   * @param {number} [options.lookahead=100] How far ahead (in milliseconds) messages are sent to
+   * the output.
+   *
+   * @throws {TypeError} The output must be of type 'Output'.
+   */
+  constructor(output: Output, sequence?: MidiFile | SequenceEvent[], options: {
+    interval?: number;
+    lookahead?: number;
+  } = {}) {
+
+    super();
+
+    if (WebMidi.validation && !(output instanceof Output)) {
+      throw new TypeError("The output must be of type 'Output'.");
+    }
+
+    this.output = output;
+    this.interval = options.interval || 25;
+    this.lookahead = options.lookahead || 100;
+
+    if (sequence) this.load(sequence);
+
+  }
+
+  /**
+   * Returns the index of the first event at or after the specified position.
+   * @private
+   */
+  _indexAt(position: number): number {
+    const index = this._events.findIndex(e => e.time >= position);
+    return index < 0 ? this._events.length : index;
+  }
+
+  /**
+   * Indicates whether the specified track can currently be heard.
+   * @private
+   */
+  _isAudible(track: number): boolean {
+    if (this._soloed.length > 0) return this._soloed.includes(track);
+    return !this._muted.includes(track);
+  }
+
+  /**
+   * Stops the scheduling loop and silences the notes that are still sounding. If `reset` is true,
+   * all notes off and reset all controllers messages are also sent, after the note offs.
+   * @private
+   */
+  _halt(reset: boolean): void {
+
+    clearInterval(this._timer);
+    this._timer = null;
+
+    // Only cancel the messages of the sequence, the output may be shared
+    this._scheduled.forEach(id => this.output.scheduler.cancel(id));
+    this._scheduled.clear();
+    const time = this._release(WebMidi.time);
+
+    if (reset && this._channels.length > 0) {
+      this.output.sendAllNotesOff({channels: this._channels, time});
+      this.output.sendResetAllControllers({channels: this._channels, time});
+      this._channels = [];
+    }
+
+  }
+
+  /**
+   * Sends a note off message, at the specified time, for all notes that are still sounding at that
+   * time. Since note on messages are sent ahead of time, a note off is never sent before the last
+   * note on of the same key. Returns the time of the last note off.
+   * @private
+   */
+  _release(time: number): number {
+
+    let last = time;
+
+    this._notes.forEach(({on, off}, key) => {
+      if (off !== null && off <= time) return;
+      const [channel, note] = key.split(":").map(Number);
+      last = Math.max(last, on);
+      this.output.send([0x80 + channel - 1, note, 0], {time: Math.max(time, on)});
+    });
+
+    this._notes.clear();
+    return last;
+
+  }
+
+  /**
+   * Sends all the messages falling within the lookahead window.
+   * @private
+   */
+  _schedule(): void {
+
+    const horizon = WebMidi.time + this.lookahead;
+
+    while (this._state === "playing") {
+
+      const end = this._loop ? this._loop.end : Infinity;
+      const event = this._events[this._cursor];
+
+      if (event && event.time < end) {
+        const timestamp = this._toTimestamp(event.time);
+        if (timestamp > horizon) return;
+        this._send(event, timestamp);
+        this._cursor++;
+        continue;
+      }
+
+      if (this._loop) {
+
+        const timestamp = this._toTimestamp(end);
+        if (timestamp > horizon) return;
+
+        this._release(timestamp);
+        this._anchorTime = timestamp;
+        this._anchorPosition = this._loop.start;
+        this._cursor = this._indexAt(this._loop.start);
+
+        /**
+         * Event emitted when the player is scheduled to jump back to the beginning of the loop.
+         *
+         * @event Player#loop
+         * @type {object}
+         * @property {number} position The loop's start position.
+         * @property {Player} target The object that dispatched the event.
+         * @property {number} timestamp The moment (DOMHighResTimeStamp) at which the jump will
+         * occur.
+         * @property {string} type `"loop"`
+         */
+        this.emit("loop", {position: this._loop.start, target: this, timestamp, type: "loop"});
+        continue;
+
+      }
+
+      if (WebMidi.time >= this._toTimestamp(this._duration)) {
+
+        /**
+         * Event emitted when the end of the sequence has been reached. The player is then stopped.
+         *
+         * @event Player#end
+         * @type {object}
+         * @property {number} position The position of the player.
+         * @property {Player} target The object that dispatched the event.
+         * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred.
+         * @property {string} type `"end"`
+         */
+        this._emit("end");
+        this.stop();
+
+      }
+
+      return;
+
+    }
+
+  }
+
+  /**
+   * Sends a single event to the output, keeping track of sounding notes and used channels.
+   * @private
+   */
+  _send(event: SequenceEvent, timestamp: number): void {
+
+    const message = event.message;
+    const audible = this._isAudible(event.track || 0);
+
+    if (message.type === "noteon" || message.type === "noteoff") {
+
+      const key = message.channel + ":" + message.dataBytes[0];
+      const note = this._notes.get(key);
+
+      if (message.type === "noteon" && message.dataBytes[1] > 0) {
+        if (!audible) return;
+        this._notes.set(key, {on: timestamp, off: null});
+      } else {
+        // Only send the note off if the note on was sent
+        if (!note || note.off !== null) return;
+        note.off = timestamp;
+      }
+
+    } else if (!audible) {
+      return;
+    }
+
+    if (message.isChannelMessage && !this._channels.includes(message.channel)) {
+      this._channels.push(message.channel);
+    }
+
+    // The message goes through the output's scheduler so it can be cancelled until it is sent
+    let id: number;
+    let sent = false;
+
+    id = this.output.scheduler.schedule(time => {
+      sent = true;
+      this._scheduled.delete(id);
+      this.output.send(message, {time: <number>time});
+    }, timestamp);
+
+    if (!sent) this._scheduled.add(id);
+
+  }
+
+  /**
+   * Emits a transport event.
+   * @private
+   */
+  _emit(type: string): void {
+    const event: PlayerEvent = {
+      position: this.position, target: this, timestamp: WebMidi.time, type
+    };
+    this.emit(type, event);
+  }
+
+  /**
+   * Starts the scheduling loop.
+   * @private
+   */
+  _run(): void {
+    this._schedule();
+    if (this._state === "playing") {
+      this._timer = setInterval(() => this._schedule(), this.interval);
+    }
+  }
+
+  /**
+   * Anchors the sequence's timeline to the current time, from the current position.
+   * @private
+   */
+  _start(): void {
+    this._anchorTime = WebMidi.time;
+    this._anchorPosition = this._position;
+    this._cursor = this._indexAt(this._position);
+  }
+
+  /**
+   * Converts a position in the sequence to a timestamp.
+   * @private
+   */
+  _toTimestamp(position: number): number {
+    return this._anchorTime + (position - this._anchorPosition) / this._tempo;
+  }
+
+  /**
+   * Removes the loop region.
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  clearLoop(): Player {
+    this.setLoop(null);
+    return this;
+  }
+
+  /**
+   * Loads a new sequence. If the player is currently playing, it is stopped first. Only the MIDI
+   * messages of a [`MidiFile`](MidiFile) are played (meta events are ignored). The index of the
+   * file's track is used as the track number.
+   *
+   * @param {MidiFile|SequenceEvent[]} sequence A [`MidiFile`](MidiFile) or an array of
+   * [`SequenceEvent`](SequenceEvent) objects.
+   *
+   * @throws {TypeError} The sequence must be a 'MidiFile' or an array of events.
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  load(sequence: MidiFile | SequenceEvent[]): Player {
+
+    let events: SequenceEvent[] = [];
+
+    if (sequence instanceof MidiFile) {
+      sequence.tracks.forEach((track, index) => {
+        track.events.forEach(e => {
+          if (e.message) events.push({message: e.message, time: e.time, track: index});
+        });
+      });
+    } else if (Array.isArray(sequence)) {
+      events = sequence.map(e => ({message: e.message, time: e.time, track: e.track || 0}));
+    } else if (WebMidi.validation) {
+      throw new TypeError("The sequence must be a 'MidiFile' or an array of events.");
+    }
+
+    this.stop();
+
+    this._events = events.sort((a, b) => a.time - b.time);
+    this._duration = this._events.length ? this._events[this._events.length - 1].time : 0;
+    if (sequence instanceof MidiFile) this._duration = Math.max(this._duration, sequence.duration);
+
+    return this;
+
+  }
+
+  /**
+   * Pauses playback. Notes that are still sounding are released. Playback can be resumed from the
+   * same position with [`play()`](#play).
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  pause(): Player {
+
+    if (this._state !== "playing") return this;
+
+    this._position = this.position;
+    this._halt(false);
+    this._state = "paused";
+
+    /**
+     * Event emitted when playback is paused.
+     *
+     * @event Player#pause
+     * @type {PlayerEvent}
+     * @property {string} type `"pause"`
+     */
+    this._emit("pause");
+    return this;
+
+  }
+
+  /**
+   * Starts (or resumes) playback from the current position.
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  play(): Player {
+
+    if (this._state === "playing") return this;
+
+    this._state = "playing";
+    this._start();
+
+    /**
+     * Event emitted when playback starts.
+     *
+     * @event Player#play
+     * @type {PlayerEvent}
+     * @property {string} type `"play"`
+     */
+    this._emit("play");
+    this._run();
+    return this;
+
+  }
+
+  /**
+   * Moves the playback position. If the player is currently playing, the notes that are still
+   * sounding are released, all notes off and reset all controllers messages are sent, and playback
+   * continues from the new position.
+   *
+   * @param {number} position The new position (in milliseconds) from the beginning of the
+   * sequence.
+   *
+   * @throws {RangeError} The position must be a positive number.
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  seek(position: number): Player {
+
+    if (WebMidi.validation && !(position >= 0)) {
+      throw new RangeError("The position must be a positive number.");
+    }
+
+    this._position = position;
+
+    if (this._state === "playing") {
+      this._halt(true);
+      this._start();
+      this._run();
+    }
+
+    /**
+     * Event emitted when the playback position has been moved.
+     *
+     * @event Player#seek
+     * @type {PlayerEvent}
+     * @property {string} type `"seek"`
+     */
+    this._emit("seek");
+    return this;
+
+  }
+
+  /**
+   * Sets the muted state of a track. A muted track does not send any new messages (already sounding
+   * notes are allowed to end).
+   *
+   * @param {number} track The index of the track.
+   * @param {boolean} [muted=true] Whether the track should be muted.
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  setMute(track: number, muted: boolean = true): Player {
+    this._muted = this._muted.filter(t => t !== track);
+    if (muted) this._muted.push(track);
+    return this;
+  }
+
+  /**
+   * Defines a region that is played repeatedly. Passing `null` removes the loop.
+   *
+   * @param {number} start The start of the loop (in milliseconds).
+   * @param {number} end The end of the loop (in milliseconds).
+   *
+   * @throws {RangeError} The loop end must be greater than the loop start.
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  setLoop(start: number, end?: number): Player {
+
+    if (start === null) {
+      this._loop = null;
+      return this;
+    }
+
+    if (WebMidi.validation && !(start >= 0 && end > start)) {
+      throw new RangeError("The loop end must be greater than the loop start.");
+    }
+
+    this._loop = {start, end};
+    return this;
+
+  }
+
+  /**
+   * Sets the solo state of a track. When at least one track is soloed, only soloed tracks can be
+   * heard.
+   *
+   * @param {number} track The index of the track.
+   * @param {boolean} [soloed=true] Whether the track should be soloed.
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  setSolo(track: number, soloed: boolean = true): Player {
+    this._soloed = this._soloed.filter(t => t !== track);
+    if (soloed) this._soloed.push(track);
+    return this;
+  }
+
+  /**
+   * Stops playback and moves the position back to the beginning of the sequence. Notes that are
+   * still sounding are released and all notes off and reset all controllers messages are sent.
+   *
+   * @returns {Player} Returns the `Player` object so methods can be chained.
+   */
+  stop(): Player {
+
+    if (this._state === "stopped") return this;
+
+    this._halt(true);
+    this._position = 0;
+    this._state = "stopped";
+
+    /**
+     * Event emitted when playback is stopped.
+     *
+     * @event Player#stop
+     * @type {PlayerEvent}
+     * @property {string} type `"stop"`
+     */
+    this._emit("stop");
+    return this;
+
+  }
+
+  /**
+   * The duration of the sequence (in milliseconds), at the original tempo.
+   * @readonly
+   * @type {number}
+   */
+  get duration(): number {
+    return this._duration;
+  }
+
+  /**
+   * The current loop region (`{start, end}` in milliseconds) or `null` if there is none.
+   * @readonly
+   * @type {object}
+   */
+  get loop(): { start: number, end: number } {
+    return this._loop ? Object.assign({}, this._loop) : null;
+  }
+
+  /**
+   * The current playback position (in milliseconds) from the beginning of the sequence.
+   * @readonly
+   * @type {number}
+   */
+  get position(): number {
+
+    if (this._state !== "playing") return this._position;
+
+    const now = WebMidi.time;
+    let position = this._anchorPosition + (now - this._anchorTime) * this._tempo;
+
+    // A jump back to the beginning of the loop has been scheduled but has not occurred yet
+    if (this._loop && now < this._anchorTime) position += this._loop.end - this._loop.start;
+
+    return Math.max(0, position);
+
+  }
+
+  /**
+   * The state of the player: `"playing"`, `"paused"` or `"stopped"`.
+   * @readonly
+   * @type {string}
+   */
+  get state(): string {
+    return this._state;
+  }
+
+  /**
+   * The playback speed, as a factor of the original tempo. For example, `2` plays the sequence
+   * twice as fast and `0.5` plays it at half speed.
+   *
+   * @type {number}
+   */
+  get tempo(): number {
+    return this._tempo;
+  }
+  set tempo(value: number) {
+
+    if (WebMidi.validation && !(value > 0)) {
+      throw new RangeError("The tempo must be a number greater than 0.");
+    }
+
+    // Messages already within the lookahead window keep the previous tempo
+    if (this._state === "playing" && WebMidi.time >= this._anchorTime) {
+      this._anchorPosition = this.position;
+      this._anchorTime = WebMidi.time;
+    }
+
+    this._tempo = value;
+
+  }
+
+}
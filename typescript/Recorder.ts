@@ -0,0 +1,437 @@
+import {Enumerations} from "./Enumerations";
+import {Input} from "./Input";
+import {MessageEvent, RecorderEvent} from "./Interfaces";
+import {Listener} from "./Listener";
+import {MidiFile} from "./MidiFile";
+import {MidiFileWriter} from "./MidiFileWriter";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * The `Recorder` class captures the MIDI messages received by one or more [`Input`](Input)
+ * objects into an in-memory session. The session can then be exported as a Standard MIDI File.
+ *
+ * Calling [`start()`](#start) begins a new session. All matching messages are stored, along with
+ * their position (in milliseconds) from the start of the session, until [`stop()`](#stop) is
+ * called. The [`punchIn()`](#punchIn) method can then be used to re-record a portion of the
+ * session: the messages captured between the punch-in and punch-out points replace the ones
+ * previously recorded in that region.
+ *
+ * ```javascript
+ * const recorder = new Recorder(WebMidi.inputs[0], {channels: [1, 2]});
+ * recorder.start();
+ * // ...
+ * recorder.stop();
+ * const bytes = recorder.toUint8Array({ticksPerQuarterNote: 960, tempo: 100});
+ * ```
+ *
+ * If specific channels or message types have been defined in the [`channels`](#channels) or
+ * [`types`](#types) properties, only messages matching the channels/types will be recorded.
+ *
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class Recorder {
+
+  /**
+   * An array of message types (`"noteon"`, `"controlchange"`, etc.) that must be matched in order
+   * for messages to be recorded. By default, this array includes all
+   * [`Enumerations.SYSTEM_MESSAGES`](Enumerations#SYSTEM_MESSAGES) and
+   * [`Enumerations.CHANNEL_MESSAGES`](Enumerations#CHANNEL_MESSAGES).
+   * @type {string[]}
+   */
+  types: string[];
+
+  /**
+   * An array of MIDI channel numbers that the message must match in order to be recorded. By
+   * default, this array includes all MIDI channels (`1` to `16`).
+   * @type {number[]}
+   */
+  channels: number[];
+
+  /**
+   * The messages captured during the current session, in chronological order.
+   * @type {RecorderEvent[]}
+   */
+  events: RecorderEvent[] = [];
+
+  private _inputs: Input[] = [];
+  private _listeners: Listener[] = [];
+  private _punch: { from: number, to: number, events: RecorderEvent[] } = null;
+  private _recording: boolean = false;
+  private _startTime: number = null;
+
+  /**
+   * Creates a `Recorder` object.
+   *
+   * @param {Input|Input[]} [inputs=\[\]] An [`Input`](Input) object, or an array of such objects,
+   * to record messages from.
+   *
+   * @param {object} [options={}]
+   * @param {string|string[]} [options.types=(all messages)] A MIDI message type or an array of such
+   * types (`"noteon"`, `"controlchange"`, etc.), that the message must match in order to be
+   * recorded. If this option is not specified, all types of messages will be recorded. Valid
+   * messages are the ones found in either
+   * [`SYSTEM_MESSAGES`](Enumerations#SYSTEM_MESSAGES)
+   * or [`CHANNEL_MESSAGES`](Enumerations#CHANNEL_MESSAGES).
+   * @param {number|number[]} [options.channels=[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]]
+   * A MIDI channel number or an array of channel numbers that the message must match in order to be
+   * recorded. By default all MIDI channels are included (`1` to `16`).
+   *
+   * @throws {TypeError} Inputs must be of type 'Input'.
+   * @throws {TypeError} Type must be a valid message type.
+   * @throws {TypeError} MIDI channel must be between 1 and 16.
+   */
+  constructor(inputs: Input | Input[] = [], options: {
+    types?: string | string[];
+    channels?: number | number[];
+  } = {}) {
+
+    this.types = [
+      ...Object.keys(Enumerations.SYSTEM_MESSAGES),
+      ...Object.keys(Enumerations.CHANNEL_MESSAGES)
+    ];
+
+    this.channels = Enumerations.CHANNEL_NUMBERS;
+
+    // Make sure parameters are arrays
+    if (!Array.isArray(inputs)) inputs = [inputs];
+    if (options.types && !Array.isArray(options.types)) options.types = [options.types];
+    if (options.channels && !Array.isArray(options.channels)) options.channels = [options.channels];
+
+    if (WebMidi.validation) {
+
+      // Validate types
+      if (options.types !== undefined && Array.isArray(options.types)) {
+
+        options.types.forEach(type => {
+          if (
+            ! Enumerations.SYSTEM_MESSAGES.hasOwnProperty(type) &&
+            ! Enumerations.CHANNEL_MESSAGES.hasOwnProperty(type)
+          ) {
+            throw new TypeError("Type must be a valid message type.");
+          }
+        });
+
+      }
+
+      // Validate channels
+      if (options.channels !== undefined && Array.isArray(options.channels)) {
+
+        options.channels.forEach(channel => {
+          if (! Enumerations.CHANNEL_NUMBERS.includes(channel) ) {
+            throw new TypeError("MIDI channel must be between 1 and 16.");
+          }
+        });
+
+      }
+
+    }
+
+    if (options.types && Array.isArray(options.types)) this.types = options.types;
+    if (options.channels && Array.isArray(options.channels)) this.channels = options.channels;
+
+    inputs.forEach(input => this.addInput(input));
+
+  }
+
+  /**
+   * Executed when a `"midimessage"` event is received on one of the inputs.
+   * @private
+   */
+  _onMidiMessage(e: MessageEvent): void {
+
+    if (!this._recording) return;
+
+    // Abort if this message type should not be recorded
+    if (!this.types.includes(e.message.type)) return;
+
+    // Abort if this channel should not be recorded
+    if (e.message.channel && !this.channels.includes(e.message.channel)) return;
+
+    const event: RecorderEvent = {
+      input: e.port,
+      message: e.message,
+      time: e.timestamp - this._startTime,
+      timestamp: e.timestamp
+    };
+
+    if (this._punch) {
+      if (event.time < this._punch.from) return;
+      if (event.time >= this._punch.to) {
+        this.punchOut();
+        return;
+      }
+      this._punch.events.push(event);
+    } else {
+      this.events.push(event);
+    }
+
+  }
+
+  /**
+   * Starts recording messages from the specified [`Input`](Input).
+   *
+   * @param {Input} input The [`Input`](Input) to record messages from.
+   *
+   * @throws {TypeError} Inputs must be of type 'Input'.
+   *
+   * @returns {Recorder} Returns the `Recorder` object so methods can be chained.
+   */
+  addInput(input: Input): Recorder {
+
+    if (WebMidi.validation && !(input instanceof Input)) {
+      throw new TypeError("Inputs must be of type 'Input'.");
+    }
+
+    if (this._inputs.includes(input)) return this;
+
+    const listener = input.addListener(
+      "midimessage",
+      this._onMidiMessage.bind(this),
+      {duration: Infinity}
+    );
+
+    this._inputs.push(input);
+    this._listeners.push(<Listener>listener);
+    return this;
+
+  }
+
+  /**
+   * Stops recording messages from the specified [`Input`](Input). Messages already captured from
+   * this input are kept.
+   *
+   * @param {Input} input The [`Input`](Input) to stop recording messages from.
+   *
+   * @returns {Recorder} Returns the `Recorder` object so methods can be chained.
+   */
+  removeInput(input: Input): Recorder {
+
+    const index = this._inputs.indexOf(input);
+    if (index < 0) return this;
+
+    this._listeners[index].remove();
+    this._inputs.splice(index, 1);
+    this._listeners.splice(index, 1);
+    return this;
+
+  }
+
+  /**
+   * Discards all captured messages and resets the session. If recording is under way, it is
+   * stopped.
+   *
+   * @returns {Recorder} Returns the `Recorder` object so methods can be chained.
+   */
+  clear(): Recorder {
+    this._recording = false;
+    this._punch = null;
+    this._startTime = null;
+    this.events = [];
+    return this;
+  }
+
+  /**
+   * Removes all inputs and discards all captured messages.
+   */
+  destroy(): void {
+    this._inputs.slice().forEach(input => this.removeInput(input));
+    this.clear();
+  }
+
+  /**
+   * Starts recording. If a punch-in point is specified, messages recorded before that point are
+   * ignored. If a punch-out point is specified, recording automatically stops when a message
+   * received after that point is received. When recording stops, the messages captured between the
+   * punch-in and punch-out points replace the ones previously recorded in that region.
+   *
+   * The punch-in and punch-out points are expressed in milliseconds from the start of the session.
+   * The session's clock keeps running after [`stop()`](#stop) has been called.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.from=(now)] The punch-in point (in milliseconds from the start of the
+   * session).
+   * @param {number} [options.to=Infinity] The punch-out point (in milliseconds from the start of
+   * the session).
+   *
+   * @throws {Error} A session must be started before punching in.
+   * @throws {RangeError} The punch-out point must be greater than the punch-in point.
+   *
+   * @returns {Recorder} Returns the `Recorder` object so methods can be chained.
+   */
+  punchIn(options: {
+    from?: number;
+    to?: number;
+  } = {}): Recorder {
+
+    if (this._startTime === null) {
+      throw new Error("A session must be started before punching in.");
+    }
+
+    const from = options.from === undefined ? this.position : options.from;
+    const to = options.to === undefined ? Infinity : options.to;
+
+    if (WebMidi.validation && !(to > from)) {
+      throw new RangeError("The punch-out point must be greater than the punch-in point.");
+    }
+
+    if (this._punch) this.punchOut();
+
+    this._punch = {from, to, events: []};
+    this._recording = true;
+    return this;
+
+  }
+
+  /**
+   * Stops a recording started with [`punchIn()`](#punchIn). The messages captured between the
+   * punch-in point and the punch-out point (or the current position, if it comes first) replace the
+   * ones previously recorded in that region.
+   *
+   * @returns {Recorder} Returns the `Recorder` object so methods can be chained.
+   */
+  punchOut(): Recorder {
+
+    if (!this._punch) return this;
+
+    const from = this._punch.from;
+    const to = Math.min(this._punch.to, Math.max(from, this.position));
+
+    this.events = this.events
+      .filter(e => e.time < from || e.time >= to)
+      .concat(this._punch.events.filter(e => e.time < to))
+      .sort((a, b) => a.time - b.time);
+
+    this._punch = null;
+    this._recording = false;
+    return this;
+
+  }
+
+  /**
+   * Starts a new recording session. Messages captured during a previous session are discarded.
+   *
+   * @returns {Recorder} Returns the `Recorder` object so methods can be chained.
+   */
+  start(): Recorder {
+    this.clear();
+    this._startTime = WebMidi.time;
+    this._recording = true;
+    return this;
+  }
+
+  /**
+   * Stops recording. The captured messages are kept until [`start()`](#start) or
+   * [`clear()`](#clear) is called.
+   *
+   * @returns {Recorder} Returns the `Recorder` object so methods can be chained.
+   */
+  stop(): Recorder {
+    if (this._punch) this.punchOut();
+    this._recording = false;
+    return this;
+  }
+
+  /**
+   * Returns a [`MidiFile`](MidiFile) object containing the captured messages. Message times are
+   * converted to ticks using the specified time division and tempo.
+   *
+   * With format `1`, each input is stored in its own track (named after the input) and the tempo
+   * is set at the beginning of the first track. With format `0`, all messages are merged into a
+   * single track.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.format=1] The format of the file (`0` or `1`).
+   * @param {number} [options.tempo=120] The tempo (in beats per minute) used to convert message
+   * times to ticks.
+   * @param {number} [options.ticksPerQuarterNote=480] The number of ticks per quarter note (PPQ),
+   * between 1 and 32767.
+   *
+   * @throws {RangeError} The format must be 0 or 1.
+   * @throws {RangeError} The number of ticks per quarter note must be an integer between 1 and
+   * 32767.
+   *
+   * @returns {MidiFile}
+   */
+  toMidiFile(options: {
+    format?: number;
+    tempo?: number;
+    ticksPerQuarterNote?: number;
+  } = {}): MidiFile {
+
+    const writer = new MidiFileWriter({
+      format: options.format,
+      ticksPerQuarterNote: options.ticksPerQuarterNote
+    });
+
+    const tempo = options.tempo || 120;
+    const ticksPerMillisecond = tempo * writer.ticksPerQuarterNote / 60000;
+
+    // Inputs that are no longer attached may still have messages in the session
+    const inputs = [];
+    this.events.forEach(e => {
+      if (!inputs.includes(e.input)) inputs.push(e.input);
+    });
+
+    const tracks = inputs.map(input => writer.addTrack(input.name));
+    if (tracks.length < 1) tracks.push(writer.addTrack());
+    tracks[0].setTempo(tempo, {time: 0});
+
+    this.events.forEach(e => {
+      const tick = Math.round(Math.max(0, e.time) * ticksPerMillisecond);
+      tracks[inputs.indexOf(e.input)].send(e.message, {time: tick});
+    });
+
+    return writer.toMidiFile();
+
+  }
+
+  /**
+   * Returns the binary content of a Standard MIDI File containing the captured messages.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.format=1] The format of the file (`0` or `1`).
+   * @param {number} [options.tempo=120] The tempo (in beats per minute) used to convert message
+   * times to ticks.
+   * @param {number} [options.ticksPerQuarterNote=480] The number of ticks per quarter note (PPQ),
+   * between 1 and 32767.
+   *
+   * @returns {Uint8Array}
+   */
+  toUint8Array(options: {
+    format?: number;
+    tempo?: number;
+    ticksPerQuarterNote?: number;
+  } = {}): Uint8Array {
+    return this.toMidiFile(options).toUint8Array();
+  }
+
+  /**
+   * An array of the [`Input`](Input) objects the recorder is attached to.
+   * @readonly
+   * @type {Input[]}
+   */
+  get inputs(): Input[] {
+    return this._inputs.slice();
+  }
+
+  /**
+   * The current position (in milliseconds) from the start of the session or `0` if no session has
+   * been started.
+   * @readonly
+   * @type {number}
+   */
+  get position(): number {
+    return this._startTime === null ? 0 : WebMidi.time - this._startTime;
+  }
+
+  /**
+   * Indicates whether messages are currently being recorded.
+   * @readonly
+   * @type {boolean}
+   */
+  get recording(): boolean {
+    return this._recording;
+  }
+
+}
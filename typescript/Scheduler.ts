@@ -0,0 +1,220 @@
+import {EventEmitter} from "./EventEmitter";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * The `Scheduler` class holds operations scheduled in the future in its own queue and only
+ * releases them when they enter the lookahead window (by default, 100ms before their due time).
+ * When an operation is released, its callback is executed with the operation's timestamp so it can
+ * be forwarded to the MIDI subsystem for accurate timing.
+ *
+ * Because far-future operations are not handed to the MIDI subsystem right away, they can be
+ * cancelled or rescheduled reliably in all environments, even in the ones that do not implement
+ * `MIDIOutput.clear()`.
+ *
+ * Each [`Output`](Output) has its own scheduler, available in its
+ * [`scheduler`](Output#scheduler) property, through which all messages are sent.
+ *
+ * An error thrown by the callback of a queued operation does not prevent the other operations
+ * from being executed. It triggers an [`error`](#event:error) event instead.
+ *
+ * @fires Scheduler#error
+ *
+ * @extends EventEmitter
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class Scheduler extends EventEmitter {
+
+  /**
+   * How far ahead (in milliseconds) of their due time the operations are released. Setting this to
+   * `Infinity` releases all operations immediately.
+   *
+   * @type {number}
+   */
+  lookahead: number;
+
+  private _id: number = 0;
+  private _queue: { id: number, timestamp: number, callback: Function }[] = [];
+  private _timer: any = null;
+
+  /**
+   * Creates a `Scheduler` object.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.lookahead=100] How far ahead (in milliseconds) of their due time the
+   * operations are released.
+   */
+  constructor(options: { lookahead?: number } = {}) {
+    super();
+    this.lookahead = options.lookahead >= 0 ? options.lookahead : 100;
+  }
+
+  /**
+   * Arms the timer so it fires when the next operation enters the lookahead window.
+   * @private
+   */
+  _arm(): void {
+
+    clearTimeout(this._timer);
+    this._timer = null;
+
+    if (this._queue.length < 1) return;
+
+    const delay = this._queue[0].timestamp - this.lookahead - WebMidi.time;
+    this._timer = setTimeout(() => this._release(), Math.max(0, delay));
+
+  }
+
+  /**
+   * Executes a queued operation, catching the error its callback may throw.
+   * @private
+   */
+  _execute(operation: { id: number, timestamp: number, callback: Function }): void {
+
+    try {
+      operation.callback(operation.timestamp);
+    } catch (error) {
+
+      /**
+       * Event emitted when the callback of a queued operation throws an error.
+       *
+       * @event Scheduler#error
+       *
+       * @type {object}
+       *
+       * @property {Error} error The error thrown by the callback.
+       * @property {Scheduler} target The object that dispatched the event.
+       * @property {number} timestamp The moment (DOMHighResTimeStamp) when the event occurred (in
+       * milliseconds since the navigation start of the document).
+       * @property {string} type `error`
+       */
+      this.emit("error", {error, target: this, timestamp: WebMidi.time, type: "error"});
+
+    }
+
+  }
+
+  /**
+   * Inserts an operation in the queue, after the ones with the same timestamp.
+   * @private
+   */
+  _insert(operation: { id: number, timestamp: number, callback: Function }): void {
+    let index = this._queue.findIndex(o => o.timestamp > operation.timestamp);
+    if (index < 0) index = this._queue.length;
+    this._queue.splice(index, 0, operation);
+  }
+
+  /**
+   * Executes all the operations that have entered the lookahead window.
+   * @private
+   */
+  _release(): void {
+
+    const horizon = WebMidi.time + this.lookahead;
+
+    while (this._queue.length > 0 && this._queue[0].timestamp <= horizon) {
+      this._execute(this._queue.shift());
+    }
+
+    this._arm();
+
+  }
+
+  /**
+   * Cancels a scheduled operation.
+   *
+   * @param {number} id The identifier returned by [`schedule()`](#schedule).
+   *
+   * @returns {boolean} Whether the operation was found in the queue (an operation that has already
+   * been released cannot be cancelled).
+   */
+  cancel(id: number): boolean {
+
+    const index = this._queue.findIndex(o => o.id === id);
+    if (index < 0) return false;
+
+    this._queue.splice(index, 1);
+    if (index === 0) this._arm();
+    return true;
+
+  }
+
+  /**
+   * Cancels all the operations in the queue.
+   */
+  clear(): void {
+    this._queue = [];
+    this._arm();
+  }
+
+  /**
+   * Immediately executes all the operations in the queue, regardless of their timestamp.
+   */
+  flush(): void {
+    const queue = this._queue;
+    this._queue = [];
+    this._arm();
+    queue.forEach(operation => this._execute(operation));
+  }
+
+  /**
+   * Changes the timestamp of a scheduled operation. This can be used, for example, to follow a
+   * tempo change.
+   *
+   * @param {number} id The identifier returned by [`schedule()`](#schedule).
+   * @param {number} timestamp The new timestamp (in milliseconds since the navigation start of the
+   * document).
+   *
+   * @returns {boolean} Whether the operation was found in the queue.
+   */
+  reschedule(id: number, timestamp: number): boolean {
+
+    const index = this._queue.findIndex(o => o.id === id);
+    if (index < 0) return false;
+
+    const [operation] = this._queue.splice(index, 1);
+    operation.timestamp = timestamp;
+    this._insert(operation);
+    this._release();
+    return true;
+
+  }
+
+  /**
+   * Schedules an operation. If its timestamp is within the lookahead window (or if no timestamp is
+   * specified), the callback is executed immediately. Otherwise, it is queued until its timestamp
+   * enters the window.
+   *
+   * @param {function} callback The function to execute. It receives the timestamp as its sole
+   * parameter.
+   * @param {number|false} [timestamp] The moment (DOMHighResTimeStamp) when the operation should
+   * occur.
+   *
+   * @returns {number} An identifier that can be used to [`cancel()`](#cancel) or
+   * [`reschedule()`](#reschedule) the operation.
+   */
+  schedule(callback: (timestamp: number | false) => void, timestamp?: number | false): number {
+
+    const id = ++this._id;
+
+    if (typeof timestamp !== "number" || timestamp <= WebMidi.time + this.lookahead) {
+      callback(timestamp);
+      return id;
+    }
+
+    this._insert({id, timestamp, callback});
+    if (this._queue[0].id === id) this._arm();
+    return id;
+
+  }
+
+  /**
+   * The number of operations waiting in the queue.
+   * @readonly
+   * @type {number}
+   */
+  get pending(): number {
+    return this._queue.length;
+  }
+
+}
@@ -0,0 +1,262 @@
+import {Timecode} from "./Interfaces";
+import {Output} from "./Output";
+import {Utilities} from "./Utilities";
+import {WebMidi} from "./WebMidi";
+
+/**
+ * The `TimecodeGenerator` class sends MIDI Time Code (MTC) to an [`Output`](Output) so external
+ * devices (recorders, lighting desks, etc.) can be synchronized to a transport.
+ *
+ * While running, the generator sends quarter frame messages (four per frame) in the correct order,
+ * with accurate timestamps. When the position is changed with [`locate()`](#locate), a full frame
+ * message is sent.
+ *
+ * ```javascript
+ * const generator = new TimecodeGenerator(WebMidi.outputs[0], {frameRate: 25});
+ * generator.locate({hours: 1, minutes: 0, seconds: 0, frames: 0}).start();
+ * ```
+ *
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class TimecodeGenerator {
+
+  /**
+   * How far ahead (in milliseconds) quarter frame messages are sent to the output.
+   * @type {number}
+   */
+  lookahead: number;
+
+  /**
+   * The [`Output`](Output) the timecode is sent to.
+   * @type {Output}
+   */
+  output: Output;
+
+  private _anchorFrames: number = 0;
+  private _anchorTime: number = 0;
+  private _frameRate: number;
+  private _quarterFrame: number = 0;
+  private _timer: any = null;
+
+  /**
+   * Creates a `TimecodeGenerator` object.
+   *
+   * @param {Output} output The [`Output`](Output) to send the timecode to.
+   *
+   * @param {object} [options={}]
+   * @param {number} [options.frameRate=30] The frame rate: `24`, `25`, `29.97` (drop-frame) or
+   * `30`.
+   * @param {number} [options.lookahead=50] How far ahead (in milliseconds) quarter frame messages
+   * are sent to the output.
+   *
+   * @throws {TypeError} The output must be of type 'Output'.
+   * @throws {RangeError} The frame rate must be 24, 25, 29.97 or 30.
+   */
+  constructor(output: Output, options: {
+    frameRate?: number;
+    lookahead?: number;
+  } = {}) {
+
+    const frameRate = options.frameRate === undefined ? 30 : options.frameRate;
+
+    if (WebMidi.validation) {
+
+      if (!(output instanceof Output)) {
+        throw new TypeError("The output must be of type 'Output'.");
+      }
+
+      if (![24, 25, 29.97, 30].includes(frameRate)) {
+        throw new RangeError("The frame rate must be 24, 25, 29.97 or 30.");
+      }
+
+    }
+
+    this.output = output;
+    this.lookahead = options.lookahead || 50;
+    this._frameRate = frameRate;
+
+  }
+
+  /**
+   * The duration of a frame (in milliseconds).
+   * @private
+   */
+  get _frameDuration(): number {
+    return this._frameRate === 29.97 ? 1001 / 30 : 1000 / this._frameRate;
+  }
+
+  /**
+   * Returns the number of frames elapsed at the specified timestamp.
+   * @private
+   */
+  _getFrames(time: number): number {
+    return this._anchorFrames +
+      Math.floor(Math.max(0, time - this._anchorTime) / this._frameDuration);
+  }
+
+  /**
+   * Returns the timestamp right after the quarter frames already passed to the output (those within
+   * the lookahead window cannot be taken back).
+   * @private
+   */
+  _getNextTime(): number {
+    return Math.max(WebMidi.time, this._anchorTime + this._quarterFrame * this._frameDuration / 4);
+  }
+
+  /**
+   * Sends all the quarter frames falling within the lookahead window.
+   * @private
+   */
+  _schedule(): void {
+
+    const horizon = WebMidi.time + this.lookahead;
+    const rate = [24, 25, 29.97, 30].indexOf(this._frameRate);
+
+    while (true) {
+
+      const timestamp = this._anchorTime + this._quarterFrame * this._frameDuration / 4;
+      if (timestamp > horizon) return;
+
+      // Each sequence of eight quarter frames spans two frames and carries the position of the
+      // frame during which its first piece is sent.
+      const piece = this._quarterFrame % 8;
+      const position = Utilities.fromFramesToTimecode(
+        this._anchorFrames + Math.floor(this._quarterFrame / 8) * 2,
+        this._frameRate
+      );
+
+      const values = [
+        position.frames & 0x0F,
+        position.frames >> 4,
+        position.seconds & 0x0F,
+        position.seconds >> 4,
+        position.minutes & 0x0F,
+        position.minutes >> 4,
+        position.hours & 0x0F,
+        (position.hours >> 4) + (rate << 1)
+      ];
+
+      this.output.sendTimecodeQuarterFrame((piece << 4) + values[piece], {time: timestamp});
+      this._quarterFrame++;
+
+    }
+
+  }
+
+  /**
+   * Starts the scheduling loop.
+   * @private
+   */
+  _run(): void {
+    this._schedule();
+    this._timer = setInterval(() => this._schedule(), Math.max(1, this.lookahead / 2));
+  }
+
+  /**
+   * Moves the position and sends a full frame message. If the generator is running, the quarter
+   * frame stream restarts from the new position.
+   *
+   * Quarter frames already within the lookahead window are still sent, so the full frame message
+   * (and the new quarter frame stream) is scheduled right after them.
+   *
+   * @param {Timecode|number} position The new position, either as a [`Timecode`](Timecode) object
+   * (its `frameRate` and `dropFrame` properties are ignored) or as a number of frames.
+   *
+   * @returns {TimecodeGenerator} Returns the `TimecodeGenerator` object so methods can be chained.
+   */
+  locate(position: Timecode | number | {
+    hours: number,
+    minutes: number,
+    seconds: number,
+    frames: number
+  }): TimecodeGenerator {
+
+    const frames = typeof position === "number" ?
+      position :
+      Utilities.fromTimecodeToFrames(<Timecode>Object.assign({}, position, {
+        frameRate: this._frameRate,
+        dropFrame: this._frameRate === 29.97
+      }));
+
+    const time = this._getNextTime();
+    const running = this.running;
+
+    clearInterval(this._timer);
+    this._timer = null;
+
+    this._anchorFrames = frames;
+    this.output.sendTimecodeFullFrame(this.position, {time});
+
+    this._anchorTime = time;
+    this._quarterFrame = 0;
+    if (running) this._run();
+    return this;
+
+  }
+
+  /**
+   * Starts sending quarter frames from the current position.
+   *
+   * @returns {TimecodeGenerator} Returns the `TimecodeGenerator` object so methods can be chained.
+   */
+  start(): TimecodeGenerator {
+
+    if (this.running) return this;
+
+    this._anchorTime = this._getNextTime();
+    this._quarterFrame = 0;
+
+    this._run();
+    return this;
+
+  }
+
+  /**
+   * Stops sending quarter frames. Quarter frames already within the lookahead window will still be
+   * sent, so the position reached after them is kept and the generator can be restarted from there.
+   *
+   * @returns {TimecodeGenerator} Returns the `TimecodeGenerator` object so methods can be chained.
+   */
+  stop(): TimecodeGenerator {
+
+    if (!this.running) return this;
+
+    this._anchorFrames = this._getFrames(this._getNextTime());
+    clearInterval(this._timer);
+    this._timer = null;
+    return this;
+
+  }
+
+  /**
+   * The frame rate: `24`, `25`, `29.97` (drop-frame) or `30`.
+   * @readonly
+   * @type {number}
+   */
+  get frameRate(): number {
+    return this._frameRate;
+  }
+
+  /**
+   * The current position.
+   * @readonly
+   * @type {Timecode}
+   */
+  get position(): Timecode {
+
+    const frames = this.running ? this._getFrames(WebMidi.time) : this._anchorFrames;
+    return Utilities.fromFramesToTimecode(frames, this._frameRate);
+
+  }
+
+  /**
+   * Whether the generator is currently sending quarter frames.
+   * @readonly
+   * @type {boolean}
+   */
+  get running(): boolean {
+    return this._timer !== null;
+  }
+
+}
@@ -1,6 +1,7 @@
 import {Note} from "./Note";
 import {WebMidi} from "./WebMidi";
 import {Enumerations} from "./Enumerations";
+import {Timecode} from "./Interfaces";
 
 
 /**
@@ -209,6 +210,43 @@ export class Utilities {
 
   }
 
+  /**
+   * Converts a number of frames (counted from `00:00:00:00`) to a [`Timecode`](Timecode) object.
+   * With the `29.97` frame rate, drop-frame counting is used. The result wraps around after 24
+   * hours.
+   *
+   * @param frames {number} The number of frames.
+   * @param [frameRate=30] {number} The frame rate: `24`, `25`, `29.97` or `30`.
+   * @returns {Timecode}
+   *
+   * @since 3.2.0
+   */
+  static fromFramesToTimecode(frames: number, frameRate: number = 30): Timecode {
+
+    const dropFrame = frameRate === 29.97;
+    const fps = Math.round(frameRate);
+    const perDay = dropFrame ? 2589408 : fps * 86400;
+
+    let count = ((Math.round(frames) % perDay) + perDay) % perDay;
+
+    // Add back the frame numbers skipped at the beginning of each minute (except every tenth one)
+    if (dropFrame) {
+      const tens = Math.floor(count / 17982);
+      const remainder = count % 17982;
+      count += 18 * tens + (remainder < 2 ? 0 : 2 * Math.floor((remainder - 2) / 1798));
+    }
+
+    return {
+      hours: Math.floor(count / (fps * 3600)) % 24,
+      minutes: Math.floor(count / (fps * 60)) % 60,
+      seconds: Math.floor(count / fps) % 60,
+      frames: count % fps,
+      frameRate,
+      dropFrame
+    };
+
+  }
+
   /**
    * Combines and converts MSB and LSB values (0-127) to a float between 0 and 1. The returned value
    * is within between 0 and 1 even if the result is greater than 1 or smaller than 0.
@@ -229,6 +267,28 @@ export class Utilities {
 
   }
 
+  /**
+   * Converts a [`Timecode`](Timecode) object to a number of frames (counted from `00:00:00:00`).
+   * With the `29.97` frame rate, drop-frame counting is used.
+   *
+   * @param timecode {Timecode} The timecode to convert.
+   * @returns {number} The number of frames.
+   *
+   * @since 3.2.0
+   */
+  static fromTimecodeToFrames(timecode: Timecode): number {
+
+    const fps = Math.round(timecode.frameRate);
+    const minutes = timecode.hours * 60 + timecode.minutes;
+    let frames = ((minutes * 60) + timecode.seconds) * fps + timecode.frames;
+
+    // Two frame numbers are skipped at the beginning of each minute (except every tenth one)
+    if (timecode.frameRate === 29.97) frames -= 2 * (minutes - Math.floor(minutes / 10));
+
+    return frames;
+
+  }
+
 
   /**
    * Returns the name of a control change message matching the specified number (0-127). Some valid
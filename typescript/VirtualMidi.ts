@@ -0,0 +1,757 @@
+import {WebMidi} from "./WebMidi";
+import {WebMidiApi} from "./Interfaces";
+
+/**
+ * Minimal `EventTarget` implementation shared by the virtual ports and the virtual `MIDIAccess`
+ * object. Events are dispatched to the matching `on<type>` handler property first and then to the
+ * listeners added with `addEventListener()`, just like in browsers.
+ *
+ * @private
+ */
+class VirtualEventTarget {
+
+  private _eventListeners: { [type: string]: any[] } = {};
+
+  addEventListener(type: string, listener: any): void {
+    if (!this._eventListeners[type]) this._eventListeners[type] = [];
+    if (!this._eventListeners[type].includes(listener)) this._eventListeners[type].push(listener);
+  }
+
+  removeEventListener(type: string, listener: any): void {
+    if (!this._eventListeners[type]) return;
+    this._eventListeners[type] = this._eventListeners[type].filter(item => item !== listener);
+  }
+
+  dispatchEvent(event: any): boolean {
+
+    const handler = this["on" + event.type];
+    if (typeof handler === "function") handler.call(this, event);
+
+    (this._eventListeners[event.type] || []).slice().forEach(listener => {
+      if (typeof listener === "function") {
+        listener.call(this, event);
+      } else if (listener && typeof listener.handleEvent === "function") {
+        listener.handleEvent(event);
+      }
+    });
+
+    return true;
+
+  }
+
+}
+
+/**
+ * The `VirtualMIDIPort` class is the base class of [`VirtualMIDIInput`](VirtualMIDIInput) and
+ * [`VirtualMIDIOutput`](VirtualMIDIOutput). It mimics the `state` and `connection` transitions of a
+ * real Web MIDI API port and dispatches `statechange` events, in the same order as browsers do, on
+ * the port itself and on the [`VirtualMIDIAccess`](VirtualMIDIAccess) object it belongs to.
+ *
+ * You should not instantiate this class directly. Use
+ * [`VirtualMIDIAccess.createInput()`](VirtualMIDIAccess#createInput) or
+ * [`VirtualMIDIAccess.createOutput()`](VirtualMIDIAccess#createOutput) instead.
+ *
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class VirtualMIDIPort extends VirtualEventTarget {
+
+  private _access: VirtualMIDIAccess;
+  private _connection: WebMidiApi.MIDIPortConnectionState = "closed";
+  private _destroyed: boolean = false;
+  private _id: string;
+  private _manufacturer: string;
+  private _name: string;
+  private _state: WebMidiApi.MIDIPortDeviceState = "disconnected";
+  private _type: WebMidiApi.MIDIPortType;
+  private _version: string;
+
+  /**
+   * The handler called when the port's `state` or `connection` attribute changes.
+   *
+   * @type {function}
+   */
+  onstatechange: (e: WebMidiApi.MIDIConnectionEvent) => void = null;
+
+  /**
+   * Creates a `VirtualMIDIPort` object. The port starts in the `"disconnected"` state.
+   *
+   * @param {VirtualMIDIAccess} access The virtual `MIDIAccess` object the port belongs to.
+   * @param {string} type The type of the port (`"input"` or `"output"`).
+   * @param {object} [options={}]
+   * @param {string} [options.id] The unique id of the port.
+   * @param {string} [options.manufacturer=""] The port's manufacturer.
+   * @param {string} [options.name] The port's name.
+   * @param {string} [options.version=""] The port's version.
+   */
+  constructor(access: VirtualMIDIAccess, type: WebMidiApi.MIDIPortType, options: {
+    id?: string;
+    manufacturer?: string;
+    name?: string;
+    version?: string;
+  } = {}) {
+
+    super();
+
+    this._access = access;
+    this._type = type;
+    this._id = options.id || VirtualMIDIAccess._generateId(type);
+    this._manufacturer = options.manufacturer || "";
+    this._name = options.name || this._id;
+    this._version = options.version || "";
+
+  }
+
+  /**
+   * Updates the `state` and/or `connection` attributes and dispatches the `statechange` event on
+   * the port and then on the `MIDIAccess` object (only if something actually changed).
+   *
+   * @private
+   */
+  _setState(
+    state: WebMidiApi.MIDIPortDeviceState,
+    connection: WebMidiApi.MIDIPortConnectionState
+  ): void {
+
+    if (this._state === state && this._connection === connection) return;
+
+    this._state = state;
+    this._connection = connection;
+
+    const event: any = {
+      type: "statechange",
+      port: this,
+      target: this,
+      timeStamp: WebMidi.time
+    };
+
+    this.dispatchEvent(event);
+    this._access._onPortStateChange(event);
+
+  }
+
+  /**
+   * Makes the port available (as when a device is plugged in). The port is added to the
+   * `inputs` or `outputs` map of its [`VirtualMIDIAccess`](VirtualMIDIAccess) object. If the port
+   * was open when it was disconnected, it is automatically reopened.
+   *
+   * @throws {Error} The port has been destroyed.
+   *
+   * @returns {VirtualMIDIPort} Returns the port so methods can be chained.
+   */
+  connect(): VirtualMIDIPort {
+
+    if (this._destroyed) throw new Error("The port has been destroyed.");
+    if (this._state === "connected") return this;
+
+    this._access._addPort(this);
+    this._setState("connected", this._connection === "pending" ? "open" : "closed");
+    return this;
+
+  }
+
+  /**
+   * Makes the port unavailable (as when a device is unplugged). The port is removed from the
+   * `inputs` or `outputs` map of its [`VirtualMIDIAccess`](VirtualMIDIAccess) object. If the port
+   * was open, its `connection` becomes `"pending"` so it can be reopened by
+   * [`connect()`](#connect).
+   *
+   * @returns {VirtualMIDIPort} Returns the port so methods can be chained.
+   */
+  disconnect(): VirtualMIDIPort {
+
+    if (this._state === "disconnected") return this;
+
+    this._access._removePort(this);
+    this._setState("disconnected", this._connection === "closed" ? "closed" : "pending");
+    return this;
+
+  }
+
+  /**
+   * Permanently removes the port. The port is disconnected, then closed (which dispatches the final
+   * `"disconnected"`/`"closed"` state change) and cannot be connected again.
+   *
+   * @returns {Promise<void>}
+   */
+  async destroy(): Promise<void> {
+    this.disconnect();
+    await this.close();
+    this._destroyed = true;
+    this.onstatechange = null;
+  }
+
+  /**
+   * Opens the port. If the port is disconnected, its `connection` becomes `"pending"` until it is
+   * connected again. As with real back-ends, the state change happens asynchronously.
+   *
+   * @returns {Promise<VirtualMIDIPort>}
+   */
+  async open(): Promise<VirtualMIDIPort> {
+    await Promise.resolve();
+    this._setState(this._state, this._state === "connected" ? "open" : "pending");
+    return this;
+  }
+
+  /**
+   * Closes the port. As with real back-ends, the state change happens asynchronously.
+   *
+   * @returns {Promise<VirtualMIDIPort>}
+   */
+  async close(): Promise<VirtualMIDIPort> {
+    await Promise.resolve();
+    this._setState(this._state, "closed");
+    return this;
+  }
+
+  /**
+   * The state of the connection to the port (`"open"`, `"closed"` or `"pending"`).
+   *
+   * @type {string}
+   * @readonly
+   */
+  get connection(): WebMidiApi.MIDIPortConnectionState {
+    return this._connection;
+  }
+
+  /**
+   * Indicates whether the port has been destroyed.
+   *
+   * @type {boolean}
+   * @readonly
+   */
+  get destroyed(): boolean {
+    return this._destroyed;
+  }
+
+  /**
+   * The unique id of the port.
+   *
+   * @type {string}
+   * @readonly
+   */
+  get id(): string {
+    return this._id;
+  }
+
+  /**
+   * The manufacturer of the port.
+   *
+   * @type {string}
+   * @readonly
+   */
+  get manufacturer(): string {
+    return this._manufacturer;
+  }
+
+  /**
+   * The name of the port.
+   *
+   * @type {string}
+   * @readonly
+   */
+  get name(): string {
+    return this._name;
+  }
+
+  /**
+   * The state of the port (`"connected"` or `"disconnected"`).
+   *
+   * @type {string}
+   * @readonly
+   */
+  get state(): WebMidiApi.MIDIPortDeviceState {
+    return this._state;
+  }
+
+  /**
+   * The type of the port (`"input"` or `"output"`).
+   *
+   * @type {string}
+   * @readonly
+   */
+  get type(): WebMidiApi.MIDIPortType {
+    return this._type;
+  }
+
+  /**
+   * The version of the port.
+   *
+   * @type {string}
+   * @readonly
+   */
+  get version(): string {
+    return this._version;
+  }
+
+}
+
+/**
+ * The `VirtualMIDIInput` class is an in-memory implementation of the Web MIDI API's `MIDIInput`.
+ * Bytes passed to its [`receive()`](#receive) method are delivered to the `midimessage` handler,
+ * which means they go through the regular [`Input`](Input) parsing when WebMidi.js is enabled
+ * with a [`VirtualMIDIAccess`](VirtualMIDIAccess) object.
+ *
+ * @extends VirtualMIDIPort
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class VirtualMIDIInput extends VirtualMIDIPort {
+
+  private _onmidimessage: (e: WebMidiApi.MIDIMessageEvent) => void = null;
+
+  /**
+   * Creates a `VirtualMIDIInput` object. You should use
+   * [`VirtualMIDIAccess.createInput()`](VirtualMIDIAccess#createInput) instead.
+   *
+   * @param {VirtualMIDIAccess} access The virtual `MIDIAccess` object the port belongs to.
+   * @param {object} [options={}] See [`VirtualMIDIPort`](VirtualMIDIPort).
+   */
+  constructor(access: VirtualMIDIAccess, options: {
+    id?: string;
+    manufacturer?: string;
+    name?: string;
+    version?: string;
+  } = {}) {
+    super(access, "input", options);
+  }
+
+  /**
+   * Injects a MIDI message in the port, as if it had been received from a device. The message is
+   * only delivered if the port is connected and open (just like with hardware, messages arriving
+   * on a closed port are lost).
+   *
+   * @param {number[]|Uint8Array} data The bytes of a single, complete MIDI message.
+   * @param {number} [timestamp=(now)] The time at which the message was received.
+   *
+   * @returns {boolean} Whether the message was delivered or not.
+   */
+  receive(data: number[] | Uint8Array, timestamp?: number): boolean {
+
+    if (this.state !== "connected" || this.connection !== "open") return false;
+
+    const event: any = {
+      type: "midimessage",
+      data: Uint8Array.from(data),
+      port: this,
+      target: this,
+      timeStamp: timestamp >= 0 ? timestamp : WebMidi.time
+    };
+    event.receivedTime = event.timeStamp;
+
+    this.dispatchEvent(event);
+    return true;
+
+  }
+
+  /**
+   * The handler called when a MIDI message is received. As per the Web MIDI API specification,
+   * assigning a handler implicitly opens the port.
+   *
+   * @type {function}
+   */
+  get onmidimessage(): (e: WebMidiApi.MIDIMessageEvent) => void {
+    return this._onmidimessage;
+  }
+  set onmidimessage(handler: (e: WebMidiApi.MIDIMessageEvent) => void) {
+    this._onmidimessage = handler;
+    if (handler && this.connection !== "open") this.open();
+  }
+
+  get type(): "input" {
+    return "input";
+  }
+
+}
+
+/**
+ * The `VirtualMIDIOutput` class is an in-memory implementation of the Web MIDI API's `MIDIOutput`.
+ * Everything sent through it (for example by [`Output.send()`](Output#send)) is captured in the
+ * [`sent`](#sent) array so it can be inspected. It can also be looped back to a
+ * [`VirtualMIDIInput`](VirtualMIDIInput) by using its [`loopback`](#loopback) property or
+ * [`VirtualMIDIAccess.createLoopback()`](VirtualMIDIAccess#createLoopback).
+ *
+ * @extends VirtualMIDIPort
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class VirtualMIDIOutput extends VirtualMIDIPort {
+
+  private _loopback: VirtualMIDIInput = null;
+  private _pending: { timeout: any, data: Uint8Array, timestamp: number }[] = [];
+
+  /**
+   * Array of all the messages sent through this port (in the order they were sent). Each entry is
+   * an object with a `data` property (`Uint8Array`) and a `timestamp` property (`number`). The
+   * timestamp is `0` when the message was meant to be sent immediately.
+   *
+   * @type {Array<{data: Uint8Array, timestamp: number}>}
+   */
+  sent: { data: Uint8Array, timestamp: number }[] = [];
+
+  /**
+   * Creates a `VirtualMIDIOutput` object. You should use
+   * [`VirtualMIDIAccess.createOutput()`](VirtualMIDIAccess#createOutput) instead.
+   *
+   * @param {VirtualMIDIAccess} access The virtual `MIDIAccess` object the port belongs to.
+   * @param {object} [options={}] See [`VirtualMIDIPort`](VirtualMIDIPort).
+   */
+  constructor(access: VirtualMIDIAccess, options: {
+    id?: string;
+    manufacturer?: string;
+    name?: string;
+    version?: string;
+  } = {}) {
+    super(access, "output", options);
+  }
+
+  /**
+   * Delivers the message to the loopback input (if any).
+   *
+   * @private
+   */
+  _deliver(data: Uint8Array, timestamp: number): void {
+    if (this._loopback) this._loopback.receive(data, timestamp);
+  }
+
+  /**
+   * Cancels all scheduled messages that have not yet been delivered to the loopback input.
+   */
+  clear(): void {
+    this._pending.forEach(item => clearTimeout(item.timeout));
+    this._pending = [];
+  }
+
+  /**
+   * Empties the [`sent`](#sent) array.
+   */
+  clearSent(): void {
+    this.sent = [];
+  }
+
+  /**
+   * Permanently removes the port. Scheduled messages are cancelled and the loopback (if any) is
+   * removed.
+   *
+   * @returns {Promise<void>}
+   */
+  async destroy(): Promise<void> {
+    this.clear();
+    this._loopback = null;
+    await super.destroy();
+  }
+
+  /**
+   * Disconnects the port and cancels all scheduled messages.
+   *
+   * @returns {VirtualMIDIOutput} Returns the port so methods can be chained.
+   */
+  disconnect(): VirtualMIDIOutput {
+    this.clear();
+    super.disconnect();
+    return this;
+  }
+
+  /**
+   * Captures the specified message in the [`sent`](#sent) array. If the port has a
+   * [`loopback`](#loopback) input, the message is also delivered to it: immediately (and
+   * synchronously) if `timestamp` is omitted or in the past, or at the specified time otherwise.
+   *
+   * As per the Web MIDI API specification, sending implicitly opens the port.
+   *
+   * @param {number[]|Uint8Array} data The bytes of the message.
+   * @param {number} [timestamp=0] The time at which the message should be sent.
+   *
+   * @throws {Error} The port is disconnected.
+   */
+  send(data: number[] | Uint8Array, timestamp?: number): void {
+
+    if (this.state !== "connected") throw new Error("The port is disconnected.");
+    if (this.connection !== "open") this.open();
+
+    const bytes = Uint8Array.from(data);
+    this.sent.push({data: bytes, timestamp: timestamp || 0});
+
+    if (!this._loopback) return;
+
+    const delay = (timestamp || 0) - WebMidi.time;
+
+    if (delay <= 0) {
+      this._deliver(bytes, WebMidi.time);
+      return;
+    }
+
+    const item = {timeout: null, data: bytes, timestamp: timestamp};
+    item.timeout = setTimeout(() => {
+      this._pending = this._pending.filter(pending => pending !== item);
+      this._deliver(item.data, item.timestamp);
+    }, delay);
+    this._pending.push(item);
+
+  }
+
+  /**
+   * The virtual input that receives everything sent through this output, or `null` if the output
+   * is not looped back. You can set it to any [`VirtualMIDIInput`](VirtualMIDIInput) (even one
+   * that belongs to another [`VirtualMIDIAccess`](VirtualMIDIAccess) object).
+   *
+   * @type {VirtualMIDIInput}
+   */
+  get loopback(): VirtualMIDIInput {
+    return this._loopback;
+  }
+  set loopback(input: VirtualMIDIInput) {
+    this._loopback = input || null;
+  }
+
+  /**
+   * The number of scheduled messages that have not yet been delivered to the loopback input.
+   *
+   * @type {number}
+   * @readonly
+   */
+  get pending(): number {
+    return this._pending.length;
+  }
+
+  get type(): "output" {
+    return "output";
+  }
+
+}
+
+/**
+ * The `VirtualMIDIAccess` class is an in-memory implementation of the Web MIDI API's `MIDIAccess`
+ * interface. It lets you create, connect, disconnect and destroy MIDI ports programmatically. This
+ * is useful to run WebMidi.js in environments without MIDI hardware (such as Node.js test suites).
+ *
+ * To use it, pass its [`requestMIDIAccess()`](#requestMIDIAccess) method to
+ * [`WebMidi.enable()`](WebMidi#enable):
+ *
+ * ```js
+ * const access = new VirtualMIDIAccess();
+ * const port = access.createInput({name: "Virtual Keyboard"});
+ * await WebMidi.enable({requestMIDIAccessFunction: access.requestMIDIAccess});
+ * port.receive([0x90, 60, 100]);
+ * ```
+ *
+ * @license Apache-2.0
+ * @since 3.2.0
+ */
+export class VirtualMIDIAccess extends VirtualEventTarget {
+
+  private static _portCount: number = 0;
+
+  private _sysexEnabled: boolean = false;
+
+  /**
+   * The currently connected virtual input ports (indexed by id).
+   *
+   * @type {Map<string, VirtualMIDIInput>}
+   * @readonly
+   */
+  inputs: Map<string, VirtualMIDIInput> = new Map();
+
+  /**
+   * The currently connected virtual output ports (indexed by id).
+   *
+   * @type {Map<string, VirtualMIDIOutput>}
+   * @readonly
+   */
+  outputs: Map<string, VirtualMIDIOutput> = new Map();
+
+  /**
+   * The handler called when a port is connected or when an existing port changes its `state` or
+   * `connection` attribute.
+   *
+   * @type {function}
+   */
+  onstatechange: (e: WebMidiApi.MIDIConnectionEvent) => void = null;
+
+  /**
+   * Creates a `VirtualMIDIAccess` object with no ports.
+   */
+  constructor() {
+    super();
+    this.requestMIDIAccess = this.requestMIDIAccess.bind(this);
+  }
+
+  /**
+   * @private
+   */
+  static _generateId(prefix: string): string {
+    return `virtual-${prefix}-${++VirtualMIDIAccess._portCount}`;
+  }
+
+  /**
+   * @private
+   */
+  _addPort(port: VirtualMIDIPort): void {
+    if (port instanceof VirtualMIDIInput) {
+      this.inputs.set(port.id, port);
+    } else if (port instanceof VirtualMIDIOutput) {
+      this.outputs.set(port.id, port);
+    }
+  }
+
+  /**
+   * @private
+   */
+  _onPortStateChange(e: any): void {
+    // The event is dispatched on the port first and then on the MIDIAccess object
+    this.dispatchEvent(Object.assign({}, e, {target: this}));
+  }
+
+  /**
+   * @private
+   */
+  _removePort(port: VirtualMIDIPort): void {
+    if (port instanceof VirtualMIDIInput) {
+      this.inputs.delete(port.id);
+    } else if (port instanceof VirtualMIDIOutput) {
+      this.outputs.delete(port.id);
+    }
+  }
+
+  /**
+   * Creates a new virtual input port.
+   *
+   * @param {object} [options={}]
+   * @param {string} [options.id] The unique id of the port. By default, an id is generated.
+   * @param {string} [options.manufacturer=""] The port's manufacturer.
+   * @param {string} [options.name] The port's name. By default, the id is used.
+   * @param {string} [options.version=""] The port's version.
+   * @param {boolean} [options.connected=true] Whether the port should be immediately connected.
+   *
+   * @throws {Error} A port with the same id already exists.
+   *
+   * @returns {VirtualMIDIInput}
+   */
+  createInput(options: {
+    id?: string;
+    manufacturer?: string;
+    name?: string;
+    version?: string;
+    connected?: boolean;
+  } = {}): VirtualMIDIInput {
+
+    if (options.id && this.inputs.has(options.id)) {
+      throw new Error(`An input with id '${options.id}' already exists.`);
+    }
+
+    const port = new VirtualMIDIInput(this, options);
+    if (options.connected !== false) port.connect();
+    return port;
+
+  }
+
+  /**
+   * Creates a new virtual output port.
+   *
+   * @param {object} [options={}]
+   * @param {string} [options.id] The unique id of the port. By default, an id is generated.
+   * @param {string} [options.manufacturer=""] The port's manufacturer.
+   * @param {string} [options.name] The port's name. By default, the id is used.
+   * @param {string} [options.version=""] The port's version.
+   * @param {boolean} [options.connected=true] Whether the port should be immediately connected.
+   *
+   * @throws {Error} A port with the same id already exists.
+   *
+   * @returns {VirtualMIDIOutput}
+   */
+  createOutput(options: {
+    id?: string;
+    manufacturer?: string;
+    name?: string;
+    version?: string;
+    connected?: boolean;
+  } = {}): VirtualMIDIOutput {
+
+    if (options.id && this.outputs.has(options.id)) {
+      throw new Error(`An output with id '${options.id}' already exists.`);
+    }
+
+    const port = new VirtualMIDIOutput(this, options);
+    if (options.connected !== false) port.connect();
+    return port;
+
+  }
+
+  /**
+   * Creates a pair of connected virtual ports wired to one another: everything sent to the output
+   * (for example with [`Output.send()`](Output#send) or any of its `send*()` methods) is received
+   * by the input and goes through the regular [`Input`](Input) parsing. Messages scheduled with the
+   * `time` option are delivered at the specified time.
+   *
+   * ```js
+   * const {input, output} = access.createLoopback({name: "Loopback"});
+   * WebMidi.getInputById(input.id).addListener("noteon", e => console.log(e.note.identifier));
+   * WebMidi.getOutputById(output.id).playNote("C4", {time: "+500"});
+   * ```
+   *
+   * @param {object} [options={}]
+   * @param {string} [options.id] The id prefix of the ports. The input's id will have `-in`
+   * appended to it and the output's id will have `-out` appended to it. By default, ids are
+   * generated.
+   * @param {string} [options.manufacturer=""] The ports' manufacturer.
+   * @param {string} [options.name] The ports' name. By default, the generated id is used.
+   * @param {boolean} [options.connected=true] Whether the ports should be immediately connected.
+   *
+   * @returns {{input: VirtualMIDIInput, output: VirtualMIDIOutput}}
+   */
+  createLoopback(options: {
+    id?: string;
+    manufacturer?: string;
+    name?: string;
+    connected?: boolean;
+  } = {}): { input: VirtualMIDIInput, output: VirtualMIDIOutput } {
+
+    const id = options.id || VirtualMIDIAccess._generateId("loopback");
+    const name = options.name || id;
+
+    const output = this.createOutput({
+      id: id + "-out", name: name, manufacturer: options.manufacturer, connected: false
+    });
+    const input = this.createInput({
+      id: id + "-in", name: name, manufacturer: options.manufacturer, connected: false
+    });
+    output.loopback = input;
+
+    if (options.connected !== false) {
+      input.connect();
+      output.connect();
+    }
+
+    return {input, output};
+
+  }
+
+  /**
+   * Resolves with this `VirtualMIDIAccess` object. This method is bound to the object so it can
+   * be passed as is to the `requestMIDIAccessFunction` option of
+   * [`WebMidi.enable()`](WebMidi#enable).
+   *
+   * @param {object} [options={}]
+   * @param {boolean} [options.sysex=false] Whether sysex should be enabled.
+   *
+   * @returns {Promise<VirtualMIDIAccess>}
+   */
+  async requestMIDIAccess(options: {
+    sysex?: boolean,
+    software?: boolean
+  } = {}): Promise<VirtualMIDIAccess> {
+    this._sysexEnabled = !!options.sysex;
+    return this;
+  }
+
+  /**
+   * Whether sysex was requested when calling [`requestMIDIAccess()`](#requestMIDIAccess).
+   *
+   * @type {boolean}
+   * @readonly
+   */
+  get sysexEnabled(): boolean {
+    return this._sysexEnabled;
+  }
+
+}
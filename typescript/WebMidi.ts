@@ -172,6 +172,33 @@ export class WebMidi extends EventEmitter {
      */
     this._stateChangeQueue = [];
 
+    /**
+     * Listener silencing all outputs when the page is closed, so notes are not left hanging on the
+     * devices.
+     *
+     * @type {function}
+     * @private
+     */
+    this._pageHideListener = () => {
+
+      this._outputs.forEach(output => {
+
+        // Only silence the outputs that can still be written to
+        if (!output._midiOutput || output.connection !== "open" || output.state !== "connected") {
+          return;
+        }
+
+        // A failing port must not prevent the other ones from being silenced
+        try {
+          output.panic();
+        } catch (err) {
+          console.warn(err);
+        }
+
+      });
+
+    };
+
   }
 
   /**
@@ -293,6 +320,7 @@ export class WebMidi extends EventEmitter {
   };
 
   private _outputs;
+  private _pageHideListener;
 
   /**
    * @private
@@ -409,7 +437,7 @@ export class WebMidi extends EventEmitter {
    * @property {number}  defaults.note.duration - A number representing the default duration of
    * notes (in seconds). Initial value is Infinity.
    */
-  static defaults: any;
+  static defaults: any = {};
 
   /**
    * The [`MIDIAccess`](https://developer.mozilla.org/en-US/docs/Web/API/MIDIAccess)
@@ -527,6 +555,9 @@ export class WebMidi extends EventEmitter {
    * listeners added to [`Input`](Input) objects, [`Output`](Output) objects or to `WebMidi` itself
    * are also destroyed.
    *
+   * Before they are closed, the outputs are silenced so no notes are left hanging on the devices
+   * (see [`Output.panic()`](Output#panic)).
+   *
    * @async
    * @returns {Promise<Array>}
    *
@@ -539,6 +570,7 @@ export class WebMidi extends EventEmitter {
     // This needs to be done right away to prevent racing conditions in listeners while the inputs
     // are being destroyed.
     if (this.interface) this.interface.onstatechange = undefined;
+    if (Utilities.isBrowser) window.removeEventListener("pagehide", this._pageHideListener);
 
     return this._destroyInputsAndOutputs().then(() => {
 
@@ -805,6 +837,9 @@ export class WebMidi extends EventEmitter {
       return Promise.reject(err);
     }
 
+    // Silence the outputs when the page is closed (they are also silenced when disabling)
+    if (Utilities.isBrowser) window.addEventListener("pagehide", this._pageHideListener);
+
     // If we make it here, the ports have been successfully created, so we trigger the 'enabled'
     // event.
     this.emit("enabled", enabledEvent);
@@ -835,9 +870,9 @@ export class WebMidi extends EventEmitter {
    *
    * @since 2.0.0
    */
-  getInputById(id: string, options?: {
+  getInputById(id: string, options: {
     disconnected?: boolean;
-  }): Input {
+  } = {}): Input {
 
     if (this.validation) {
       if (!this.enabled) throw new Error("WebMidi is not enabled.");
@@ -874,9 +909,9 @@ export class WebMidi extends EventEmitter {
    *
    * @since 2.0.0
    */
-  getInputByName(name: string, options?: {
+  getInputByName(name: string, options: {
     disconnected?: boolean;
-  }): Input | undefined {
+  } = {}): Input | undefined {
 
     if (this.validation) {
       if (!this.enabled) throw new Error("WebMidi is not enabled.");
@@ -917,9 +952,9 @@ export class WebMidi extends EventEmitter {
    *
    * @since 2.0.0
    */
-  getOutputById(id: string, options?: {
-    disconnected?: boolean = false;
-  }): Output | undefined {
+  getOutputById(id: string, options: {
+    disconnected?: boolean;
+  } = {}): Output | undefined {
 
     if (this.validation) {
       if (!this.enabled) throw new Error("WebMidi is not enabled.");
@@ -956,9 +991,9 @@ export class WebMidi extends EventEmitter {
    *
    * @since 2.0.0
    */
-  getOutputByName(name: string, options?: {
+  getOutputByName(name: string, options: {
     disconnected?: boolean;
-  }): Output {
+  } = {}): Output {
 
     if (this.validation) {
       if (!this.enabled) throw new Error("WebMidi is not enabled.");
@@ -1161,14 +1196,25 @@ export class WebMidi extends EventEmitter {
 const wm = new WebMidi();
 wm.constructor = null;
 /*
+export {ClockFollower} from "./ClockFollower.js";
+export {ClockGenerator} from "./ClockGenerator.js";
 export {Enumerations} from "./Enumerations.js";
 export {Forwarder} from "./Forwarder.js";
 export {Input} from "./Input.js";
 export {InputChannel} from "./InputChannel.js";
 export {Message} from "./Message.js";
+export {MessageParser} from "./MessageParser.js";
+export {MidiFile} from "./MidiFile.js";
+export {MidiFileWriter, MidiFileWriterTrack} from "./MidiFileWriter.js";
+export {MpeOutput} from "./MpeOutput.js";
 export {Note} from "./Note.js";
 export {Output} from "./Output.js";
 export {OutputChannel} from "./OutputChannel.js";
+export {Player} from "./Player.js";
+export {Recorder} from "./Recorder.js";
+export {Scheduler} from "./Scheduler.js";
+export {TimecodeGenerator} from "./TimecodeGenerator.js";
 export {Utilities} from "./Utilities.js";
+export {VirtualMIDIAccess, VirtualMIDIInput, VirtualMIDIOutput} from "./VirtualMidi.js";
 export {wm as WebMidi};
 */